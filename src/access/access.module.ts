@@ -0,0 +1,21 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { AccessService } from "./access.service";
+import { BotUser } from "../database/entities/bot-user.entity";
+import { AccountLink } from "../database/entities/account-link.entity";
+import { AuthState } from "../database/entities/auth-state.entity";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BotUser,
+      AccountLink,
+      AuthState,
+      UserTradingSettings,
+    ]),
+  ],
+  providers: [AccessService],
+  exports: [AccessService],
+})
+export class AccessModule {}
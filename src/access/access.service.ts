@@ -0,0 +1,363 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, Repository, Not } from "typeorm";
+import {
+  BotUser,
+  BotUserRole,
+  BotUserStatus,
+} from "../database/entities/bot-user.entity";
+import {
+  AccountLink,
+  AccountLinkStatus,
+} from "../database/entities/account-link.entity";
+import { AuthState } from "../database/entities/auth-state.entity";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+
+export interface TelegramProfile {
+  username?: string;
+  displayName?: string;
+}
+
+/**
+ * Access - Allow-list of Telegram chats and chat ↔ Noghresea account links
+ * Admins come from TELEGRAM_ADMIN_CHAT_IDS (default: TELEGRAM_CHAT_ID) or
+ * the ADMIN role, and approve or revoke both
+ */
+@Injectable()
+export class AccessService implements OnModuleInit {
+  private readonly logger = new Logger(AccessService.name);
+  private readonly adminChatIds: string[];
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(BotUser)
+    private botUserRepo: Repository<BotUser>,
+    @InjectRepository(AccountLink)
+    private linkRepo: Repository<AccountLink>,
+    @InjectRepository(AuthState)
+    private authStateRepo: Repository<AuthState>,
+    @InjectRepository(UserTradingSettings)
+    private settingsRepo: Repository<UserTradingSettings>,
+  ) {
+    this.adminChatIds = (
+      this.configService.get<string>("TELEGRAM_ADMIN_CHAT_IDS") ||
+      this.configService.get<string>("TELEGRAM_CHAT_ID") ||
+      ""
+    )
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  async onModuleInit() {
+    if (this.adminChatIds.length === 0) {
+      this.logger.warn(
+        "No TELEGRAM_ADMIN_CHAT_IDS or TELEGRAM_CHAT_ID - nobody can approve new users",
+      );
+    }
+    await this.grandfatherExistingUsers();
+  }
+
+  /**
+   * Configured admins plus approved users with the ADMIN role
+   */
+  async getAdminChatIds(): Promise<string[]> {
+    const admins = await this.botUserRepo.find({
+      where: { status: BotUserStatus.APPROVED, role: BotUserRole.ADMIN },
+    });
+    return [
+      ...new Set([
+        ...this.adminChatIds,
+        ...admins.map((a) => a.telegramChatId),
+      ]),
+    ];
+  }
+
+  /**
+   * Role of the chat, or null when it is not allowed to use the bot.
+   * Configured admins are always ADMIN.
+   */
+  async getRole(chatId: string): Promise<BotUserRole | null> {
+    if (this.adminChatIds.includes(chatId)) return BotUserRole.ADMIN;
+    const user = await this.botUserRepo.findOne({
+      where: { telegramChatId: chatId },
+    });
+    return user?.status === BotUserStatus.APPROVED ? user.role : null;
+  }
+
+  async isAdmin(chatId: string): Promise<boolean> {
+    return (await this.getRole(chatId)) === BotUserRole.ADMIN;
+  }
+
+  async isAllowed(chatId: string): Promise<boolean> {
+    return (await this.getRole(chatId)) !== null;
+  }
+
+  /**
+   * Record an access request from an unknown chat.
+   * `created` is true only the first time, so admins are asked once.
+   */
+  async requestAccess(
+    chatId: string,
+    profile: TelegramProfile,
+  ): Promise<{ user: BotUser; created: boolean }> {
+    const existing = await this.botUserRepo.findOne({
+      where: { telegramChatId: chatId },
+    });
+    if (existing) return { user: existing, created: false };
+
+    const user = await this.botUserRepo.save(
+      this.botUserRepo.create({
+        telegramChatId: chatId,
+        username: profile.username ?? null,
+        displayName: profile.displayName ?? null,
+        status: BotUserStatus.PENDING,
+      }),
+    );
+    this.logger.log(`🙋 Access requested by chat ${chatId}`);
+    return { user, created: true };
+  }
+
+  async approveUser(
+    chatId: string,
+    role: BotUserRole,
+    adminChatId: string,
+  ): Promise<BotUser> {
+    return this.decideUser(chatId, adminChatId, (user) => {
+      user.status = BotUserStatus.APPROVED;
+      user.role = role;
+    });
+  }
+
+  async revokeUser(chatId: string, adminChatId: string): Promise<BotUser> {
+    return this.decideUser(chatId, adminChatId, (user) => {
+      user.status = BotUserStatus.REVOKED;
+    });
+  }
+
+  async listUsers(): Promise<BotUser[]> {
+    return this.botUserRepo.find({
+      order: { status: "ASC", createdAt: "ASC" }, // Enum order: pending first
+    });
+  }
+
+  /**
+   * The chat's approved link, or null when the chat may not trade any account
+   */
+  async getApprovedLink(chatId: string): Promise<AccountLink | null> {
+    if (!(await this.isAllowed(chatId))) return null;
+    return this.linkRepo.findOne({
+      where: { telegramChatId: chatId, status: AccountLinkStatus.APPROVED },
+    });
+  }
+
+  /**
+   * Allowed chats with an approved link to the phone (one account, many chats)
+   */
+  async getApprovedChatIds(phoneNumber: string): Promise<string[]> {
+    const links = await this.linkRepo.find({
+      where: { phoneNumber, status: AccountLinkStatus.APPROVED },
+    });
+    const chatIds: string[] = [];
+    for (const link of links) {
+      if (await this.isAllowed(link.telegramChatId)) {
+        chatIds.push(link.telegramChatId);
+      }
+    }
+    return chatIds;
+  }
+
+  async isLinkApproved(chatId: string, phoneNumber: string): Promise<boolean> {
+    const link = await this.getApprovedLink(chatId);
+    return link?.phoneNumber === phoneNumber;
+  }
+
+  /**
+   * Ask to link a chat to a phone. Admins link their own chats directly;
+   * everyone else waits for an admin. `created` is true when admins should
+   * be asked (new or re-opened request).
+   */
+  async requestLink(
+    chatId: string,
+    phoneNumber: string,
+  ): Promise<{ link: AccountLink; created: boolean }> {
+    let link = await this.linkRepo.findOne({
+      where: { telegramChatId: chatId, phoneNumber },
+    });
+    if (
+      link?.status === AccountLinkStatus.APPROVED ||
+      link?.status === AccountLinkStatus.PENDING
+    ) {
+      return { link, created: false };
+    }
+
+    link ??= this.linkRepo.create({ telegramChatId: chatId, phoneNumber });
+    link.status = AccountLinkStatus.PENDING;
+    link.decidedBy = null;
+    link.decidedAt = null;
+    await this.linkRepo.save(link);
+
+    if (await this.isAdmin(chatId)) {
+      return { link: await this.approveLink(link.id, "admin"), created: false };
+    }
+
+    this.logger.log(`🔗 Link requested: chat ${chatId} ↔ ${phoneNumber}`);
+    return { link, created: true };
+  }
+
+  /**
+   * Approve a link; any other approved link of the same chat is revoked
+   */
+  async approveLink(linkId: string, adminChatId: string): Promise<AccountLink> {
+    const link = await this.getLink(linkId);
+
+    await this.linkRepo.update(
+      {
+        telegramChatId: link.telegramChatId,
+        status: AccountLinkStatus.APPROVED,
+        id: Not(link.id),
+      },
+      {
+        status: AccountLinkStatus.REVOKED,
+        decidedBy: adminChatId,
+        decidedAt: new Date(),
+      },
+    );
+
+    return this.decideLink(link, AccountLinkStatus.APPROVED, adminChatId);
+  }
+
+  async rejectLink(linkId: string, adminChatId: string): Promise<AccountLink> {
+    return this.decideLink(
+      await this.getLink(linkId),
+      AccountLinkStatus.REJECTED,
+      adminChatId,
+    );
+  }
+
+  async revokeLink(linkId: string, adminChatId: string): Promise<AccountLink> {
+    return this.decideLink(
+      await this.getLink(linkId),
+      AccountLinkStatus.REVOKED,
+      adminChatId,
+    );
+  }
+
+  /**
+   * Pending and approved links, pending first
+   */
+  async listLinks(): Promise<AccountLink[]> {
+    return this.linkRepo.find({
+      where: {
+        status: In([AccountLinkStatus.PENDING, AccountLinkStatus.APPROVED]),
+      },
+      order: { status: "ASC", createdAt: "ASC" }, // Enum order: pending first
+    });
+  }
+
+  async getLink(linkId: string): Promise<AccountLink> {
+    const link = await this.linkRepo.findOne({ where: { id: linkId } });
+    if (!link) throw new Error("Link not found");
+    return link;
+  }
+
+  private async decideUser(
+    chatId: string,
+    adminChatId: string,
+    decide: (user: BotUser) => void,
+  ): Promise<BotUser> {
+    const user =
+      (await this.botUserRepo.findOne({ where: { telegramChatId: chatId } })) ??
+      this.botUserRepo.create({ telegramChatId: chatId });
+    decide(user);
+    user.decidedBy = adminChatId;
+    user.decidedAt = new Date();
+    await this.botUserRepo.save(user);
+    this.logger.log(
+      `👤 Chat ${chatId} ${user.status === BotUserStatus.APPROVED ? user.role : user.status} by ${adminChatId}`,
+    );
+    return user;
+  }
+
+  private async decideLink(
+    link: AccountLink,
+    status: AccountLinkStatus,
+    adminChatId: string,
+  ): Promise<AccountLink> {
+    link.status = status;
+    link.decidedBy = adminChatId;
+    link.decidedAt = new Date();
+    await this.linkRepo.save(link);
+    this.logger.log(
+      `🔗 Link ${link.telegramChatId} ↔ ${link.phoneNumber} ${status} by ${adminChatId}`,
+    );
+    return link;
+  }
+
+  /**
+   * First start with access control: approve the configured admin chats and
+   * the logins made from them. Every other chat and chat ↔ phone pair already
+   * in the database is recorded as PENDING for an admin to review with /users
+   * and /links - an old login may come from a chat that took over an account.
+   */
+  private async grandfatherExistingUsers() {
+    if ((await this.botUserRepo.count()) === 0) {
+      const chatIds = new Set<string>(this.adminChatIds);
+      for (const s of await this.settingsRepo.find()) {
+        chatIds.add(s.telegramChatId);
+      }
+      for (const a of await this.authStateRepo.find()) {
+        if (a.telegramChatId) chatIds.add(a.telegramChatId);
+      }
+
+      let pending = 0;
+      for (const chatId of chatIds) {
+        const isAdmin = this.adminChatIds.includes(chatId);
+        if (!isAdmin) pending++;
+        await this.botUserRepo.save(
+          this.botUserRepo.create({
+            telegramChatId: chatId,
+            status: isAdmin ? BotUserStatus.APPROVED : BotUserStatus.PENDING,
+            role: isAdmin ? BotUserRole.ADMIN : BotUserRole.TRADER,
+            decidedBy: isAdmin ? "migration" : null,
+            decidedAt: isAdmin ? new Date() : null,
+          }),
+        );
+      }
+      if (pending > 0) {
+        this.logger.warn(
+          `👤 ${pending} existing chat(s) are waiting for approval - review them with /users`,
+        );
+      }
+    }
+
+    if ((await this.linkRepo.count()) === 0) {
+      const auths = (await this.authStateRepo.find()).filter(
+        (a) => a.telegramChatId,
+      );
+
+      let pending = 0;
+      for (const auth of auths) {
+        const isAdmin = this.adminChatIds.includes(auth.telegramChatId);
+        if (!isAdmin) pending++;
+        await this.linkRepo.save(
+          this.linkRepo.create({
+            telegramChatId: auth.telegramChatId,
+            phoneNumber: auth.phoneNumber,
+            status: isAdmin
+              ? AccountLinkStatus.APPROVED
+              : AccountLinkStatus.PENDING,
+            decidedBy: isAdmin ? "migration" : null,
+            decidedAt: isAdmin ? new Date() : null,
+          }),
+        );
+      }
+      if (pending > 0) {
+        this.logger.warn(
+          `🔗 ${pending} existing account link(s) are waiting for approval - review them with /links`,
+        );
+      }
+    }
+  }
+}
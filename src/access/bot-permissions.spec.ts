@@ -0,0 +1,49 @@
+import { hasRole, requiredRole } from "./bot-permissions";
+import { BotUserRole } from "../database/entities/bot-user.entity";
+
+describe("bot-permissions", () => {
+  describe("hasRole", () => {
+    it("lets higher roles do what lower roles can", () => {
+      expect(hasRole(BotUserRole.ADMIN, BotUserRole.TRADER)).toBe(true);
+      expect(hasRole(BotUserRole.TRADER, BotUserRole.TRADER)).toBe(true);
+      expect(hasRole(BotUserRole.VIEWER, BotUserRole.TRADER)).toBe(false);
+      expect(hasRole(BotUserRole.TRADER, BotUserRole.ADMIN)).toBe(false);
+    });
+  });
+
+  describe("requiredRole", () => {
+    it.each([
+      ["/start", BotUserRole.VIEWER],
+      ["/START@SilverBot", BotUserRole.VIEWER],
+      ["📊 Status", BotUserRole.VIEWER],
+      ["📜 History", BotUserRole.VIEWER],
+      ["/users", BotUserRole.ADMIN],
+      ["/links", BotUserRole.ADMIN],
+      ["▶️ Start Bot", BotUserRole.ADMIN],
+      ["⏸️ Stop Bot", BotUserRole.ADMIN],
+      ["/backtest 7", BotUserRole.TRADER],
+      ["💰 Buy", BotUserRole.TRADER],
+      ["09120000000", BotUserRole.TRADER],
+    ])("needs the right role for %p", (text, role) => {
+      expect(requiredRole({ text })).toBe(role);
+    });
+
+    it.each([
+      ["refresh_status", BotUserRole.VIEWER],
+      ["chart_1w", BotUserRole.VIEWER],
+      ["ai_analyze_month", BotUserRole.VIEWER],
+      ["pause_30", BotUserRole.ADMIN],
+      ["enable_trading", BotUserRole.ADMIN],
+      ["user_promote_42", BotUserRole.ADMIN],
+      ["link_approve_42", BotUserRole.ADMIN],
+      ["set_percent_25", BotUserRole.TRADER],
+      ["cancel_limit_42", BotUserRole.TRADER],
+    ])("needs the right role for the %p button", (callbackData, role) => {
+      expect(requiredRole({ callbackData })).toBe(role);
+    });
+
+    it("treats an empty callback as a trader action", () => {
+      expect(requiredRole({ callbackData: "" })).toBe(BotUserRole.TRADER);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { BotUserRole } from "../database/entities/bot-user.entity";
+
+const ROLE_RANK: Record<BotUserRole, number> = {
+  [BotUserRole.VIEWER]: 0,
+  [BotUserRole.TRADER]: 1,
+  [BotUserRole.ADMIN]: 2,
+};
+
+export interface BotUpdate {
+  text?: string;
+  callbackData?: string;
+}
+
+// Read-only views; everything not listed here or below needs TRADER
+const VIEWER_COMMANDS = ["start"];
+const VIEWER_BUTTONS = ["📊 Status", "📜 History", "🤖 AI Analyzer"];
+const VIEWER_ACTIONS = [
+  /^refresh_status$/,
+  /^chart_(1h|1d|1w)$/,
+  /^ai_analyze_(week|month|quarter|year)$/,
+  /^ai_chart_(1d|1w)$/,
+  /^ai_monthly_breakdown$/,
+  /^ai_all_time$/,
+  /^noop$/,
+];
+
+// Global bot control and user management
+const ADMIN_COMMANDS = ["users", "links"];
+const ADMIN_BUTTON_WORDS = ["Start Bot", "Stop Bot"]; // Matched by substring like the middleware does
+const ADMIN_ACTIONS = [
+  /^enable_trading$/,
+  /^pause_\d+$/,
+  /^user_/,
+  /^link_(approve|reject|revoke)_/,
+];
+
+export function hasRole(role: BotUserRole, required: BotUserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Lowest role allowed to send a message or press a button
+ */
+export function requiredRole(update: BotUpdate): BotUserRole {
+  if (update.callbackData !== undefined) {
+    const data = update.callbackData;
+    if (ADMIN_ACTIONS.some((pattern) => pattern.test(data))) {
+      return BotUserRole.ADMIN;
+    }
+    if (VIEWER_ACTIONS.some((pattern) => pattern.test(data))) {
+      return BotUserRole.VIEWER;
+    }
+    return BotUserRole.TRADER;
+  }
+
+  const text = (update.text ?? "").trim();
+  const command = text.match(/^\/(\w+)/)?.[1]?.toLowerCase();
+  if (command) {
+    if (ADMIN_COMMANDS.includes(command)) return BotUserRole.ADMIN;
+    if (VIEWER_COMMANDS.includes(command)) return BotUserRole.VIEWER;
+    return BotUserRole.TRADER;
+  }
+
+  if (ADMIN_BUTTON_WORDS.some((word) => text.includes(word))) {
+    return BotUserRole.ADMIN;
+  }
+  if (VIEWER_BUTTONS.includes(text)) return BotUserRole.VIEWER;
+  return BotUserRole.TRADER;
+}
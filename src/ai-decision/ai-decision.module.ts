@@ -7,12 +7,14 @@ import { PatternEvent } from "../database/entities/pattern-event.entity";
 import { WalletSnapshot } from "../database/entities/wallet-snapshot.entity";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
 import { PatternAnalyzerModule } from "../pattern-analyzer/pattern-analyzer.module";
+import { IndicatorsModule } from "../indicators/indicators.module";
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([TradeHistory, PatternEvent, WalletSnapshot]),
     NoghreseaModule,
     PatternAnalyzerModule,
+    IndicatorsModule,
   ],
   providers: [AiDecisionService, PromptBuilderService],
   exports: [AiDecisionService],
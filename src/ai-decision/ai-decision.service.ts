@@ -73,18 +73,23 @@ export class AiDecisionService {
       };
     } catch (error) {
       this.logger.error("AI decision failed", error.message);
-
-      // Fallback to pattern analyzer suggestion
-      return {
-        action: analysis.suggestion,
-        confidence: analysis.overallConfidence * 0.8, // Reduce confidence for fallback
-        volumePercent: 1,
-        reasoning: `AI unavailable. Fallback to pattern analysis: ${analysis.patterns.map((p) => p.description).join("; ")}`,
-        expectedOutcome: "Based on pattern analysis only",
-      };
+      return this.getFallbackDecision(analysis);
     }
   }
 
+  /**
+   * Decision derived from the pattern analyzer alone (used when AI is unavailable)
+   */
+  getFallbackDecision(analysis: PatternAnalysis): AiDecision {
+    return {
+      action: analysis.suggestion,
+      confidence: analysis.overallConfidence * 0.8, // Reduce confidence for fallback
+      volumePercent: 1,
+      reasoning: `AI unavailable. Fallback to pattern analysis: ${analysis.patterns.map((p) => p.description).join("; ")}`,
+      expectedOutcome: "Based on pattern analysis only",
+    };
+  }
+
   private parseAiResponse(content: string): any {
     try {
       // Try to extract JSON from response
@@ -6,6 +6,10 @@ import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
 import { TradeHistory } from "../database/entities/trade-history.entity";
 import { PatternEvent } from "../database/entities/pattern-event.entity";
 import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
+import {
+  IndicatorService,
+  describeIndicators,
+} from "../indicators/indicator.service";
 
 @Injectable()
 export class PromptBuilderService {
@@ -17,6 +21,7 @@ export class PromptBuilderService {
     @InjectRepository(PatternEvent)
     private patternEventRepo: Repository<PatternEvent>,
     private noghreseaApi: NoghreseaApiService,
+    private indicatorService: IndicatorService,
   ) {}
 
   async buildPrompt(
@@ -37,6 +42,9 @@ export class PromptBuilderService {
     // Get similar patterns from history
     const similarPatterns = await this.getSimilarPatterns(analysis);
 
+    // Technical indicators (cached for this cycle)
+    const indicators = await this.indicatorService.getIndicators(prices);
+
     const prompt = `You are a silver trading AI for the Iranian platform noghresea.ir. 
 Your goal is to maximize profit by detecting price manipulation and market movements.
 
@@ -60,6 +68,11 @@ ${analysis.patterns.map((p) => `- **${p.type}** (${p.confidence.toFixed(0)}%): $
 ## RECENT PRICE MOVEMENTS (Last 30 min)
 ${this.formatPriceHistory(recentPrices.slice(0, 20))}
 
+## TECHNICAL INDICATORS (${indicators.candleMinutes}-min candles, last ${this.indicatorService.LOOKBACK_MINUTES} min)
+${describeIndicators(indicators)
+  .map((line) => `- ${line}`)
+  .join("\n")}
+
 ## RECENT TRADES
 ${this.formatTradeHistory(recentTrades)}
 
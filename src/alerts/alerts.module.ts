@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { PriceAlertService } from "./price-alert.service";
+import { PriceAlert } from "../database/entities/price-alert.entity";
+import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import { EventsModule } from "../events/events.module";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PriceAlert, PriceSnapshot]),
+    EventsModule,
+  ],
+  providers: [PriceAlertService],
+  exports: [PriceAlertService],
+})
+export class AlertsModule {}
@@ -0,0 +1,236 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Between } from "typeorm";
+import {
+  PriceAlert,
+  AlertMetric,
+} from "../database/entities/price-alert.entity";
+import {
+  PriceSnapshot,
+  PriceSource,
+} from "../database/entities/price-snapshot.entity";
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { calculatePremiumPercent } from "../analysis/premium";
+import { EventBus } from "../events/event-bus.service";
+
+export interface PriceAlertInput {
+  metric: AlertMetric;
+  direction: "above" | "below";
+  threshold: number;
+  windowMinutes?: number | null;
+  recurring?: boolean;
+}
+
+/**
+ * Price Alerts - Per-chat market conditions evaluated on every price fetch
+ * Alerts fire when their condition turns true; recurring ones re-arm when it clears
+ */
+@Injectable()
+export class PriceAlertService implements OnModuleInit {
+  private readonly logger = new Logger(PriceAlertService.name);
+  private isEvaluating = false;
+
+  readonly MAX_ALERTS_PER_CHAT = 20;
+  readonly DEFAULT_USDT_WINDOW_MINUTES = 60;
+  private readonly RECURRING_COOLDOWN_MS = 15 * 60 * 1000; // Swallow flapping around the threshold
+
+  constructor(
+    @InjectRepository(PriceAlert)
+    private alertRepo: Repository<PriceAlert>,
+    @InjectRepository(PriceSnapshot)
+    private priceSnapshotRepo: Repository<PriceSnapshot>,
+    private eventBus: EventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("PriceFetched", ({ prices }) => this.evaluate(prices));
+  }
+
+  async createAlert(
+    chatId: string,
+    input: PriceAlertInput,
+  ): Promise<PriceAlert> {
+    if (!isFinite(input.threshold)) {
+      throw new Error("Threshold must be a number");
+    }
+    if (input.metric === AlertMetric.USDT_MOVE && input.threshold <= 0) {
+      throw new Error("USDT move must be a positive percentage");
+    }
+
+    const count = await this.alertRepo.count({
+      where: { telegramChatId: chatId, active: true },
+    });
+    if (count >= this.MAX_ALERTS_PER_CHAT) {
+      throw new Error(
+        `At most ${this.MAX_ALERTS_PER_CHAT} active alerts per chat`,
+      );
+    }
+
+    const alert = this.alertRepo.create({
+      telegramChatId: chatId,
+      metric: input.metric,
+      direction:
+        input.metric === AlertMetric.USDT_MOVE ? "above" : input.direction,
+      threshold: input.threshold,
+      windowMinutes:
+        input.metric === AlertMetric.USDT_MOVE
+          ? (input.windowMinutes ?? this.DEFAULT_USDT_WINDOW_MINUTES)
+          : null,
+      recurring: input.recurring ?? false,
+    });
+
+    const saved = await this.alertRepo.save(alert);
+    this.logger.log(
+      `🔔 Alert created for ${chatId}: ${saved.metric} ${saved.direction} ${saved.threshold}`,
+    );
+    return saved;
+  }
+
+  async getAlerts(chatId: string): Promise<PriceAlert[]> {
+    return this.alertRepo.find({
+      where: { telegramChatId: chatId, active: true },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  async deleteAlert(chatId: string, id: string): Promise<boolean> {
+    const result = await this.alertRepo.delete({ id, telegramChatId: chatId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async deleteAll(chatId: string): Promise<number> {
+    const result = await this.alertRepo.delete({ telegramChatId: chatId });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Check every active alert against the latest prices
+   */
+  async evaluate(prices: AllPrices) {
+    if (this.isEvaluating) return;
+    this.isEvaluating = true;
+
+    try {
+      const alerts = await this.alertRepo.find({ where: { active: true } });
+      if (alerts.length === 0) return;
+
+      const usdtMoves = new Map<number, number | null>(); // Per window, computed once per cycle
+      for (const alert of alerts) {
+        const value = await this.metricValue(alert, prices, usdtMoves);
+        if (value == null) continue;
+
+        const met =
+          alert.direction === "above"
+            ? value > Number(alert.threshold)
+            : value < Number(alert.threshold);
+
+        if (!met) {
+          if (alert.conditionMet) {
+            alert.conditionMet = false;
+            await this.alertRepo.save(alert);
+          }
+          continue;
+        }
+        if (alert.conditionMet) continue; // Already fired for this crossing
+
+        alert.conditionMet = true;
+        const cooling =
+          alert.lastTriggeredAt &&
+          Date.now() - alert.lastTriggeredAt.getTime() <
+            this.RECURRING_COOLDOWN_MS;
+        if (cooling) {
+          await this.alertRepo.save(alert);
+          continue;
+        }
+
+        alert.lastTriggeredAt = new Date();
+        alert.lastValue = value;
+        if (!alert.recurring) alert.active = false;
+        await this.alertRepo.save(alert);
+
+        this.logger.log(
+          `🔔 Alert ${alert.id} fired for ${alert.telegramChatId}: ${alert.metric} = ${value.toFixed(2)}`,
+        );
+        await this.eventBus.emit("PriceAlertTriggered", {
+          chatId: alert.telegramChatId,
+          alert,
+          value,
+        });
+      }
+    } catch (error: any) {
+      this.logger.error(`Alert evaluation failed: ${error.message}`);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private async metricValue(
+    alert: PriceAlert,
+    prices: AllPrices,
+    usdtMoves: Map<number, number | null>,
+  ): Promise<number | null> {
+    const noghresea = prices.noghresea ? Number(prices.noghresea.price) : null;
+
+    switch (alert.metric) {
+      case AlertMetric.PRICE:
+        return noghresea;
+
+      case AlertMetric.CHANGE_24H:
+        return prices.noghresea?.change24h != null
+          ? Number(prices.noghresea.change24h)
+          : null;
+
+      case AlertMetric.PREMIUM:
+        if (
+          !noghresea ||
+          !prices.silverOunce ||
+          prices.silverOunceEstimated ||
+          !prices.usdtToman
+        ) {
+          return null;
+        }
+        return calculatePremiumPercent(
+          noghresea,
+          prices.silverOunce,
+          prices.usdtToman,
+        );
+
+      case AlertMetric.USDT_MOVE: {
+        const window = alert.windowMinutes ?? this.DEFAULT_USDT_WINDOW_MINUTES;
+        if (!usdtMoves.has(window)) {
+          usdtMoves.set(window, await this.usdtMove(prices, window));
+        }
+        return usdtMoves.get(window)!;
+      }
+    }
+  }
+
+  /**
+   * Absolute USDT/Toman change versus the snapshot `minutes` ago, in %
+   */
+  private async usdtMove(
+    prices: AllPrices,
+    minutes: number,
+  ): Promise<number | null> {
+    if (!prices.usdtToman) return null;
+
+    // Ignore gaps: the reference must be at most one window older than target
+    const target = prices.fetchedAt.getTime() - minutes * 60 * 1000;
+    const past = await this.priceSnapshotRepo.findOne({
+      where: {
+        source: PriceSource.USDT_TOMAN,
+        fetchedAt: Between(
+          new Date(target - minutes * 60 * 1000),
+          new Date(target),
+        ),
+      },
+      order: { fetchedAt: "DESC" },
+    });
+    if (!past || !Number(past.price)) return null;
+
+    return (
+      (Math.abs(prices.usdtToman - Number(past.price)) / Number(past.price)) *
+      100
+    );
+  }
+}
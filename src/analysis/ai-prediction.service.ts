@@ -11,6 +11,20 @@ import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
 import { MultiFactorAnalysis } from "./multi-factor-analysis.service";
 import { AiDecision } from "../ai-decision/ai-decision.service";
 
+export interface AccuracyTally {
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface PredictionAccuracyBreakdown extends AccuracyTally {
+  days: number;
+  evaluated: number;
+  byPattern: ({ pattern: string } & AccuracyTally)[];
+  byConfidence: ({ bucket: string } & AccuracyTally)[];
+  byHorizon: ({ minutes: number } & AccuracyTally)[];
+}
+
 @Injectable()
 export class AiPredictionService {
   private readonly logger = new Logger(AiPredictionService.name);
@@ -73,9 +87,8 @@ export class AiPredictionService {
    */
   async updatePredictionOutcome(
     predictionId: string,
-    actualPrice5min: number,
-    actualPrice10min: number,
-    currentPrice: number,
+    actualPrice5min: number | null,
+    actualPrice10min: number | null,
   ): Promise<void> {
     const prediction = await this.predictionRepo.findOne({
       where: { id: predictionId },
@@ -85,24 +98,60 @@ export class AiPredictionService {
 
     prediction.actualPriceAfter5min = actualPrice5min;
     prediction.actualPriceAfter10min = actualPrice10min;
+    prediction.outcomeEvaluatedAt = new Date();
+
+    // Determine if prediction was correct (unknown without a 10min price)
+    if (actualPrice10min != null) {
+      prediction.wasPredictionCorrect = this.isOutcomeCorrect(
+        prediction.action,
+        Number(prediction.noghreseaPrice),
+        actualPrice10min,
+      );
+    }
 
-    // Determine if prediction was correct
-    const initialPrice = Number(prediction.noghreseaPrice);
-    const priceChange10min =
-      ((actualPrice10min - initialPrice) / initialPrice) * 100;
+    await this.predictionRepo.save(prediction);
+  }
 
-    if (prediction.action === PredictionAction.BUY) {
+  /**
+   * Record the price at a longer horizon (e.g. +60 minutes)
+   */
+  async updateHorizonOutcome(
+    predictionId: string,
+    minutes: number,
+    actualPrice: number | null,
+  ): Promise<void> {
+    const prediction = await this.predictionRepo.findOne({
+      where: { id: predictionId },
+    });
+
+    if (!prediction) return;
+
+    prediction.actualPrices = {
+      ...(prediction.actualPrices || {}),
+      [minutes]: actualPrice,
+    };
+    await this.predictionRepo.save(prediction);
+  }
+
+  /**
+   * Direction check shared by all horizons
+   */
+  isOutcomeCorrect(
+    action: PredictionAction,
+    initialPrice: number,
+    laterPrice: number,
+  ): boolean {
+    const priceChange = ((laterPrice - initialPrice) / initialPrice) * 100;
+
+    if (action === PredictionAction.BUY) {
       // BUY prediction correct if price went up
-      prediction.wasPredictionCorrect = priceChange10min > 0.1;
-    } else if (prediction.action === PredictionAction.SELL) {
+      return priceChange > 0.1;
+    } else if (action === PredictionAction.SELL) {
       // SELL prediction correct if price went down
-      prediction.wasPredictionCorrect = priceChange10min < -0.1;
-    } else {
-      // HOLD prediction correct if price stayed relatively stable
-      prediction.wasPredictionCorrect = Math.abs(priceChange10min) < 0.3;
+      return priceChange < -0.1;
     }
-
-    await this.predictionRepo.save(prediction);
+    // HOLD prediction correct if price stayed relatively stable
+    return Math.abs(priceChange) < 0.3;
   }
 
   /**
@@ -196,6 +245,102 @@ export class AiPredictionService {
     };
   }
 
+  /**
+   * Accuracy per pattern type, confidence bucket and horizon
+   */
+  async getAccuracyBreakdown(days = 7): Promise<PredictionAccuracyBreakdown> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const predictions = await this.predictionRepo.find({
+      where: { createdAt: MoreThan(since) },
+    });
+    const evaluated = predictions.filter(
+      (p) => p.wasPredictionCorrect !== null,
+    );
+
+    const tally = (
+      items: AiPrediction[],
+      isCorrect: (p: AiPrediction) => boolean,
+    ) => {
+      const correct = items.filter(isCorrect).length;
+      return {
+        total: items.length,
+        correct,
+        accuracy: items.length > 0 ? (correct / items.length) * 100 : 0,
+      };
+    };
+    const correct10min = (p: AiPrediction) => p.wasPredictionCorrect === true;
+
+    // By pattern type (a prediction counts once for each pattern it saw)
+    const patternTypes = new Set<string>();
+    for (const p of evaluated) {
+      for (const pattern of (p.detectedPatterns as { type: string }[]) || []) {
+        patternTypes.add(pattern.type);
+      }
+    }
+    const byPattern = Array.from(patternTypes)
+      .map((pattern) => ({
+        pattern,
+        ...tally(
+          evaluated.filter((p) =>
+            ((p.detectedPatterns as { type: string }[]) || []).some(
+              (d) => d.type === pattern,
+            ),
+          ),
+          correct10min,
+        ),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    // By confidence bucket (10-point buckets)
+    const byConfidence = [50, 60, 70, 80, 90].map((low) => ({
+      bucket: low === 90 ? "90-100" : `${low}-${low + 10}`,
+      ...tally(
+        evaluated.filter((p) => {
+          const c = Number(p.confidence);
+          return c >= low && (low === 90 ? c <= 100 : c < low + 10);
+        }),
+        correct10min,
+      ),
+    }));
+
+    // By horizon: 5/10 minutes plus any longer horizons recorded
+    const horizons = new Set<number>([5, 10]);
+    for (const p of predictions) {
+      Object.keys(p.actualPrices || {}).forEach((m) => horizons.add(Number(m)));
+    }
+    const byHorizon = Array.from(horizons)
+      .sort((a, b) => a - b)
+      .map((minutes) => {
+        const priceAt = (p: AiPrediction): number | null => {
+          if (minutes === 5) return p.actualPriceAfter5min;
+          if (minutes === 10) return p.actualPriceAfter10min;
+          return p.actualPrices?.[minutes] ?? null;
+        };
+        return {
+          minutes,
+          ...tally(
+            predictions.filter((p) => priceAt(p) != null),
+            (p) =>
+              this.isOutcomeCorrect(
+                p.action,
+                Number(p.noghreseaPrice),
+                Number(priceAt(p)),
+              ),
+          ),
+        };
+      });
+
+    return {
+      days,
+      evaluated: evaluated.length,
+      ...tally(evaluated, correct10min),
+      byPattern,
+      byConfidence,
+      byHorizon,
+    };
+  }
+
   /**
    * Get predictions for prompt context (for future AI analysis)
    */
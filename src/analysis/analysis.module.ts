@@ -3,12 +3,16 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 import { DailyAnalysisService } from "./daily-analysis.service";
 import { MultiFactorAnalysisService } from "./multi-factor-analysis.service";
 import { AiPredictionService } from "./ai-prediction.service";
+import { PredictionEvaluatorService } from "./prediction-evaluator.service";
+import { PredictionRecorderService } from "./prediction-recorder.service";
 import { DailySummary } from "../database/entities/daily-summary.entity";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
 import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
 import { AiDecision } from "../database/entities/ai-decision.entity";
 import { AiPrediction } from "../database/entities/ai-prediction.entity";
 import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
+import { EventsModule } from "../events/events.module";
+import { CandlesModule } from "../candles/candles.module";
 
 @Module({
   imports: [
@@ -20,11 +24,15 @@ import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
       AiPrediction,
     ]),
     forwardRef(() => PriceFetcherModule),
+    EventsModule,
+    CandlesModule,
   ],
   providers: [
     DailyAnalysisService,
     MultiFactorAnalysisService,
     AiPredictionService,
+    PredictionEvaluatorService,
+    PredictionRecorderService,
   ],
   exports: [
     DailyAnalysisService,
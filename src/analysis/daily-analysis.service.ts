@@ -8,12 +8,25 @@ import {
   PriceSource,
 } from "../database/entities/price-snapshot.entity";
 import { AiDecision } from "../database/entities/ai-decision.entity";
-import { GRAMS_PER_OUNCE, GRAMS_PER_MESGHAL } from "../common/constants";
-
+import {
+  CandleSource,
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import { CandleService } from "../candles/candle.service";
+import {
+  Candle,
+  CANDLE_TIMEFRAME_MINUTES,
+  aggregateCandles,
+  resampleCandles,
+} from "../candles/candle";
+import { calculatePremiumPercent } from "./premium";
+
+// 1-minute candles, oldest first
 interface DayData {
-  prices: NoghreseaPrice[];
-  silverSnapshots: PriceSnapshot[];
-  usdtSnapshots: PriceSnapshot[];
+  candles: Candle[];
+  silverCandles: Candle[];
+  usdtCandles: Candle[];
   aiDecisions: AiDecision[];
 }
 
@@ -30,6 +43,7 @@ export class DailyAnalysisService {
     private priceSnapshotRepo: Repository<PriceSnapshot>,
     @InjectRepository(AiDecision)
     private aiDecisionRepo: Repository<AiDecision>,
+    private candleService: CandleService,
   ) {}
 
   /**
@@ -51,9 +65,9 @@ export class DailyAnalysisService {
     const dayData = await this.fetchDayData(startOfDay, endOfDay);
 
     // Check if we have enough data
-    if (dayData.prices.length < 2) {
+    if (dayData.candles.length < 2) {
       this.logger.warn(
-        `Not enough price data for ${dateStr} (${dayData.prices.length} records)`,
+        `Not enough price data for ${dateStr} (${dayData.candles.length} candles)`,
       );
       return null;
     }
@@ -84,50 +98,73 @@ export class DailyAnalysisService {
     startOfDay: Date,
     endOfDay: Date,
   ): Promise<DayData> {
-    const [prices, silverSnapshots, usdtSnapshots, aiDecisions] =
+    const [candles, silverCandles, usdtCandles, aiDecisions] =
       await Promise.all([
-        this.noghreseaPriceRepo.find({
-          where: { recordedAt: Between(startOfDay, endOfDay) },
-          order: { recordedAt: "ASC" },
-        }),
-        this.priceSnapshotRepo.find({
-          where: {
-            source: PriceSource.SILVER_OUNCE,
-            fetchedAt: Between(startOfDay, endOfDay),
-          },
-          order: { fetchedAt: "ASC" },
-        }),
-        this.priceSnapshotRepo.find({
-          where: {
-            source: PriceSource.USDT_TOMAN,
-            fetchedAt: Between(startOfDay, endOfDay),
-          },
-          order: { fetchedAt: "ASC" },
-        }),
+        this.loadCandles(NOGHRESEA_CANDLE_SOURCE, startOfDay, endOfDay),
+        this.loadCandles(PriceSource.SILVER_OUNCE, startOfDay, endOfDay),
+        this.loadCandles(PriceSource.USDT_TOMAN, startOfDay, endOfDay),
         this.aiDecisionRepo.find({
           where: { createdAt: Between(startOfDay, endOfDay) },
           order: { createdAt: "ASC" },
         }),
       ]);
 
-    return { prices, silverSnapshots, usdtSnapshots, aiDecisions };
+    return { candles, silverCandles, usdtCandles, aiDecisions };
+  }
+
+  /**
+   * Stored 1m candles; days recorded before candles existed are resampled
+   * from the raw ticks instead
+   */
+  private async loadCandles(
+    source: CandleSource,
+    startOfDay: Date,
+    endOfDay: Date,
+  ): Promise<Candle[]> {
+    const stored = await this.candleService.getCandles(
+      source,
+      CandleTimeframe.M1,
+      startOfDay,
+      endOfDay,
+    );
+    if (stored.length > 0) return stored;
+
+    const points =
+      source === NOGHRESEA_CANDLE_SOURCE
+        ? (
+            await this.noghreseaPriceRepo.find({
+              where: { recordedAt: Between(startOfDay, endOfDay) },
+              order: { recordedAt: "ASC" },
+            })
+          ).map((p) => ({ price: Number(p.price), time: p.recordedAt }))
+        : (
+            await this.priceSnapshotRepo.find({
+              where: { source, fetchedAt: Between(startOfDay, endOfDay) },
+              order: { fetchedAt: "ASC" },
+            })
+          ).map((s) => ({ price: Number(s.price), time: s.fetchedAt }));
+
+    return resampleCandles(
+      points,
+      CANDLE_TIMEFRAME_MINUTES[CandleTimeframe.M1],
+    );
   }
 
   private async calculateSummary(
     dateStr: string,
     data: DayData,
   ): Promise<DailySummary> {
-    const { prices, silverSnapshots, usdtSnapshots, aiDecisions } = data;
+    const { candles, silverCandles, usdtCandles, aiDecisions } = data;
 
     const summary = new DailySummary();
     summary.date = dateStr;
 
     // Basic price metrics
-    const priceValues = prices.map((p) => Number(p.price));
-    summary.openPrice = priceValues[0];
+    const priceValues = candles.map((c) => c.close);
+    summary.openPrice = candles[0].open;
     summary.closePrice = priceValues[priceValues.length - 1];
-    summary.highPrice = Math.max(...priceValues);
-    summary.lowPrice = Math.min(...priceValues);
+    summary.highPrice = Math.max(...candles.map((c) => c.high));
+    summary.lowPrice = Math.min(...candles.map((c) => c.low));
     summary.priceChange = summary.closePrice - summary.openPrice;
     summary.priceChangePercent =
       (summary.priceChange / summary.openPrice) * 100;
@@ -138,9 +175,9 @@ export class DailyAnalysisService {
     summary.volatility = this.calculateVolatility(priceValues);
 
     // International silver
-    if (silverSnapshots.length > 0) {
-      const silverValues = silverSnapshots.map((s) => Number(s.price));
-      summary.internationalSilverOpen = silverValues[0];
+    if (silverCandles.length > 0) {
+      const silverValues = silverCandles.map((c) => c.close);
+      summary.internationalSilverOpen = silverCandles[0].open;
       summary.internationalSilverClose = silverValues[silverValues.length - 1];
       summary.internationalChangePercent =
         ((summary.internationalSilverClose - summary.internationalSilverOpen) /
@@ -154,44 +191,43 @@ export class DailyAnalysisService {
         silverValues.reduce((a, b) => a + b, 0) / silverValues.length;
 
       // Convert Noghresea to USD for comparison (rough estimate)
-      if (usdtSnapshots.length > 0) {
+      if (usdtCandles.length > 0) {
         const avgUsdt =
-          usdtSnapshots.reduce((a, b) => a + Number(b.price), 0) /
-          usdtSnapshots.length;
-        const noghreseaPerGram = (avgNoghresea * 1000) / GRAMS_PER_MESGHAL;
-        const noghreseaPerOunceUsd =
-          (noghreseaPerGram * GRAMS_PER_OUNCE) / avgUsdt;
-        summary.premiumToInternational =
-          ((noghreseaPerOunceUsd - avgSilver) / avgSilver) * 100;
+          usdtCandles.reduce((a, b) => a + b.close, 0) / usdtCandles.length;
+        summary.premiumToInternational = calculatePremiumPercent(
+          avgNoghresea,
+          avgSilver,
+          avgUsdt,
+        );
       }
     }
 
     // USDT metrics
-    if (usdtSnapshots.length > 0) {
-      const usdtValues = usdtSnapshots.map((s) => Number(s.price));
-      summary.usdtOpen = usdtValues[0];
+    if (usdtCandles.length > 0) {
+      const usdtValues = usdtCandles.map((c) => c.close);
+      summary.usdtOpen = usdtCandles[0].open;
       summary.usdtClose = usdtValues[usdtValues.length - 1];
       summary.usdtChangePercent =
         ((summary.usdtClose - summary.usdtOpen) / summary.usdtOpen) * 100;
     }
 
     // Pattern detection
-    const patterns = this.detectPatterns(prices);
+    const patterns = this.detectPatterns(priceValues);
     summary.detectedPatterns = patterns.patterns;
     summary.manipulationSignals = patterns.manipulationCount;
 
     // Sentiment analysis
-    const sentiment = this.analyzeSentiment(summary, prices);
+    const sentiment = this.analyzeSentiment(summary, priceValues);
     summary.sentiment = sentiment.sentiment;
     summary.trendDirection = sentiment.direction;
     summary.trendStrength = sentiment.strength;
 
     // Trading activity
-    summary.priceUpdates = prices.length;
+    summary.priceUpdates = candles.reduce((sum, c) => sum + c.tickCount, 0);
     summary.significantMoves = this.countSignificantMoves(priceValues);
 
     // Time-based analysis
-    const timeAnalysis = this.analyzeTimePatterns(prices);
+    const timeAnalysis = this.analyzeTimePatterns(candles);
     summary.mostActiveHour = timeAnalysis.mostActiveHour;
     summary.morningChange = timeAnalysis.morningChange;
     summary.afternoonChange = timeAnalysis.afternoonChange;
@@ -228,15 +264,13 @@ export class DailyAnalysisService {
     return Math.sqrt(variance) * 100; // Return as percentage
   }
 
-  private detectPatterns(prices: NoghreseaPrice[]): {
+  private detectPatterns(priceValues: number[]): {
     patterns: string[];
     manipulationCount: number;
   } {
     const patterns: string[] = [];
     let manipulationCount = 0;
 
-    const priceValues = prices.map((p) => Number(p.price));
-
     // Sudden spike detection (>2% in 5 minutes)
     for (let i = 5; i < priceValues.length; i++) {
       const change =
@@ -319,7 +353,7 @@ export class DailyAnalysisService {
 
   private analyzeSentiment(
     summary: DailySummary,
-    prices: NoghreseaPrice[],
+    priceValues: number[],
   ): {
     sentiment: "bullish" | "bearish" | "neutral" | "volatile";
     direction: "up" | "down" | "sideways";
@@ -346,7 +380,7 @@ export class DailyAnalysisService {
       strength = Math.min(100, Math.abs(changePercent) * 30);
     } else {
       // Neutral - look at recent trend
-      const recentPrices = prices.slice(-20).map((p) => Number(p.price));
+      const recentPrices = priceValues.slice(-20);
       direction = this.detectTrend(recentPrices);
 
       if (direction === "up") {
@@ -371,7 +405,7 @@ export class DailyAnalysisService {
     return count;
   }
 
-  private analyzeTimePatterns(prices: NoghreseaPrice[]): {
+  private analyzeTimePatterns(candles: Candle[]): {
     mostActiveHour: string;
     morningChange: number;
     afternoonChange: number;
@@ -380,12 +414,11 @@ export class DailyAnalysisService {
     const hourlyChanges: Map<number, number[]> = new Map();
 
     // Group price changes by hour
-    for (let i = 1; i < prices.length; i++) {
-      const hour = new Date(prices[i].recordedAt).getHours();
+    for (let i = 1; i < candles.length; i++) {
+      const hour = candles[i].openTime.getHours();
       const change =
         Math.abs(
-          (Number(prices[i].price) - Number(prices[i - 1].price)) /
-            Number(prices[i - 1].price),
+          (candles[i].close - candles[i - 1].close) / candles[i - 1].close,
         ) * 100;
 
       if (!hourlyChanges.has(hour)) hourlyChanges.set(hour, []);
@@ -405,21 +438,17 @@ export class DailyAnalysisService {
     });
 
     // Calculate period changes
-    const morningPrices = prices.filter(
-      (p) => new Date(p.recordedAt).getHours() < 12,
-    );
-    const afternoonPrices = prices.filter((p) => {
-      const h = new Date(p.recordedAt).getHours();
+    const morningPrices = candles.filter((c) => c.openTime.getHours() < 12);
+    const afternoonPrices = candles.filter((c) => {
+      const h = c.openTime.getHours();
       return h >= 12 && h < 18;
     });
-    const eveningPrices = prices.filter(
-      (p) => new Date(p.recordedAt).getHours() >= 18,
-    );
+    const eveningPrices = candles.filter((c) => c.openTime.getHours() >= 18);
 
-    const calculatePeriodChange = (periodPrices: NoghreseaPrice[]): number => {
-      if (periodPrices.length < 2) return 0;
-      const first = Number(periodPrices[0].price);
-      const last = Number(periodPrices[periodPrices.length - 1].price);
+    const calculatePeriodChange = (periodCandles: Candle[]): number => {
+      if (periodCandles.length < 2) return 0;
+      const first = periodCandles[0].open;
+      const last = periodCandles[periodCandles.length - 1].close;
       return ((last - first) / first) * 100;
     };
 
@@ -479,10 +508,12 @@ export class DailyAnalysisService {
         sell_signals: summary.sellSignals,
         avg_confidence: summary.avgConfidence,
       },
-      price_samples: data.prices.slice(0, 50).map((p) => ({
-        time: new Date(p.recordedAt).toISOString(),
-        price: Number(p.price),
-        change_24h: Number(p.change24h),
+      hourly_candles: aggregateCandles(data.candles, 60).map((c) => ({
+        time: c.openTime.toISOString(),
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
       })),
     };
 
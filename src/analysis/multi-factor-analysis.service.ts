@@ -1,12 +1,17 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { InjectRepository } from "@nestjs/typeorm";
-import { Repository, MoreThan } from "typeorm";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
-import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import {
+  PriceSnapshot,
+  PriceSource,
+} from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
 import {
   AllPrices,
+  MarketDataSource,
   PriceFetcherService,
 } from "../price-fetcher/price-fetcher.service";
+import { AnalysisContext } from "../pattern-analyzer/pattern-analyzer.service";
+import { calculatePremiumPercent } from "./premium";
 
 export interface MultiFactorAnalysis {
   // Individual factor scores (0-100)
@@ -14,6 +19,7 @@ export interface MultiFactorAnalysis {
   goldCorrelationScore: number;
   usdtImpactScore: number;
   manipulationScore: number;
+  premiumReversionScore: number;
 
   // Combined analysis
   overallScore: number;
@@ -42,48 +48,62 @@ export class MultiFactorAnalysisService {
 
   // Weights for each factor (total = 100)
   private readonly WEIGHTS = {
-    SILVER_CORRELATION: 35, // International silver price correlation
-    GOLD_CORRELATION: 20, // Gold price as leading indicator
+    SILVER_CORRELATION: 30, // International silver price correlation
+    GOLD_CORRELATION: 15, // Gold price as leading indicator
     USDT_IMPACT: 25, // USDT/Toman rate impact (currency factor)
-    MANIPULATION: 20, // Manipulation detection
+    MANIPULATION: 15, // Manipulation detection
+    PREMIUM_REVERSION: 15, // Premium to international silver vs its recent mean
   };
 
-  constructor(
-    @InjectRepository(NoghreseaPrice)
-    private noghreseaPriceRepo: Repository<NoghreseaPrice>,
-    @InjectRepository(PriceSnapshot)
-    private priceSnapshotRepo: Repository<PriceSnapshot>,
-    private priceFetcher: PriceFetcherService,
-  ) {}
+  private readonly LOOKBACK_MINUTES = 15;
+  private readonly MAX_SAMPLES = 30;
+
+  readonly PREMIUM_LOOKBACK_MINUTES = 3 * 60;
+  private readonly MIN_PREMIUM_SAMPLES = 30;
+  private readonly MIN_PREMIUM_STDDEV = 0.05; // % - below this the premium is effectively flat
 
-  async analyze(prices: AllPrices): Promise<MultiFactorAnalysis> {
+  constructor(private priceFetcher: PriceFetcherService) {}
+
+  async analyze(
+    prices: AllPrices,
+    context: AnalysisContext = {},
+  ): Promise<MultiFactorAnalysis> {
     const factors: FactorDetail[] = [];
 
     // Get historical data for analysis
-    const lookbackMinutes = 15;
-    const since = new Date(Date.now() - lookbackMinutes * 60 * 1000);
+    const dataSource = context.dataSource ?? this.priceFetcher;
 
     // 1. Silver Correlation Analysis
-    const silverAnalysis = await this.analyzeSilverCorrelation(prices, since);
+    const silverAnalysis = await this.analyzeSilverCorrelation(
+      prices,
+      dataSource,
+    );
     factors.push(silverAnalysis);
 
     // 2. Gold Correlation Analysis (leading indicator)
-    const goldAnalysis = await this.analyzeGoldCorrelation(prices, since);
+    const goldAnalysis = await this.analyzeGoldCorrelation(prices, dataSource);
     factors.push(goldAnalysis);
 
     // 3. USDT/Toman Impact Analysis
-    const usdtAnalysis = await this.analyzeUsdtImpact(prices, since);
+    const usdtAnalysis = await this.analyzeUsdtImpact(prices, dataSource);
     factors.push(usdtAnalysis);
 
     // 4. Manipulation Detection
     const manipulationAnalysis = await this.detectManipulation(
       prices,
-      since,
+      dataSource,
       silverAnalysis,
       goldAnalysis,
     );
     factors.push(manipulationAnalysis);
 
+    // 5. Premium Mean-Reversion
+    const premiumAnalysis = await this.analyzePremiumReversion(
+      prices,
+      dataSource,
+    );
+    factors.push(premiumAnalysis);
+
     // Calculate overall score and direction
     const result = this.combineFactors(factors, manipulationAnalysis);
 
@@ -97,25 +117,17 @@ export class MultiFactorAnalysisService {
 
   private async analyzeSilverCorrelation(
     prices: AllPrices,
-    since: Date,
+    dataSource: MarketDataSource,
   ): Promise<FactorDetail> {
     try {
       // Get recent Noghresea prices
-      const noghreseaPrices = await this.noghreseaPriceRepo.find({
-        where: { recordedAt: MoreThan(since) },
-        order: { recordedAt: "DESC" },
-        take: 30,
-      });
+      const noghreseaPrices = await this.getRecentNoghresea(dataSource);
 
       // Get recent silver ounce prices
-      const silverSnapshots = await this.priceSnapshotRepo.find({
-        where: {
-          source: "SILVER_OUNCE" as any,
-          fetchedAt: MoreThan(since),
-        },
-        order: { fetchedAt: "DESC" },
-        take: 30,
-      });
+      const silverSnapshots = await this.getRecentSnapshots(
+        dataSource,
+        PriceSource.SILVER_OUNCE,
+      );
 
       if (noghreseaPrices.length < 3 || silverSnapshots.length < 3) {
         return {
@@ -184,23 +196,15 @@ export class MultiFactorAnalysisService {
 
   private async analyzeGoldCorrelation(
     prices: AllPrices,
-    since: Date,
+    dataSource: MarketDataSource,
   ): Promise<FactorDetail> {
     try {
-      const goldSnapshots = await this.priceSnapshotRepo.find({
-        where: {
-          source: "GOLD_OUNCE" as any,
-          fetchedAt: MoreThan(since),
-        },
-        order: { fetchedAt: "DESC" },
-        take: 30,
-      });
-
-      const noghreseaPrices = await this.noghreseaPriceRepo.find({
-        where: { recordedAt: MoreThan(since) },
-        order: { recordedAt: "DESC" },
-        take: 30,
-      });
+      const goldSnapshots = await this.getRecentSnapshots(
+        dataSource,
+        PriceSource.GOLD_OUNCE,
+      );
+
+      const noghreseaPrices = await this.getRecentNoghresea(dataSource);
 
       if (goldSnapshots.length < 3 || noghreseaPrices.length < 3) {
         return {
@@ -256,23 +260,15 @@ export class MultiFactorAnalysisService {
 
   private async analyzeUsdtImpact(
     prices: AllPrices,
-    since: Date,
+    dataSource: MarketDataSource,
   ): Promise<FactorDetail> {
     try {
-      const usdtSnapshots = await this.priceSnapshotRepo.find({
-        where: {
-          source: "USDT_TOMAN" as any,
-          fetchedAt: MoreThan(since),
-        },
-        order: { fetchedAt: "DESC" },
-        take: 30,
-      });
-
-      const noghreseaPrices = await this.noghreseaPriceRepo.find({
-        where: { recordedAt: MoreThan(since) },
-        order: { recordedAt: "DESC" },
-        take: 30,
-      });
+      const usdtSnapshots = await this.getRecentSnapshots(
+        dataSource,
+        PriceSource.USDT_TOMAN,
+      );
+
+      const noghreseaPrices = await this.getRecentNoghresea(dataSource);
 
       if (usdtSnapshots.length < 3) {
         return {
@@ -338,16 +334,12 @@ export class MultiFactorAnalysisService {
 
   private async detectManipulation(
     prices: AllPrices,
-    since: Date,
+    dataSource: MarketDataSource,
     silverAnalysis: FactorDetail,
     goldAnalysis: FactorDetail,
   ): Promise<FactorDetail> {
     try {
-      const noghreseaPrices = await this.noghreseaPriceRepo.find({
-        where: { recordedAt: MoreThan(since) },
-        order: { recordedAt: "DESC" },
-        take: 30,
-      });
+      const noghreseaPrices = await this.getRecentNoghresea(dataSource);
 
       if (noghreseaPrices.length < 5) {
         return {
@@ -451,6 +443,105 @@ export class MultiFactorAnalysisService {
     }
   }
 
+  /**
+   * Extreme premiums to international silver tend to revert: a premium far
+   * above its recent mean is bearish for Noghresea, far below is bullish
+   */
+  private async analyzePremiumReversion(
+    prices: AllPrices,
+    dataSource: MarketDataSource,
+  ): Promise<FactorDetail> {
+    const neutral = (description: string): FactorDetail => ({
+      factor: "PREMIUM_REVERSION",
+      score: 50,
+      direction: "NEUTRAL",
+      description,
+      weight: this.WEIGHTS.PREMIUM_REVERSION,
+    });
+
+    try {
+      if (
+        !prices.noghresea ||
+        !prices.silverOunce ||
+        prices.silverOunceEstimated ||
+        !prices.usdtToman
+      ) {
+        return neutral("No real international silver quote for premium");
+      }
+
+      const history: PremiumSnapshot[] = await dataSource.getRecentPremiums(
+        this.PREMIUM_LOOKBACK_MINUTES,
+      );
+      if (history.length < this.MIN_PREMIUM_SAMPLES) {
+        return neutral("Insufficient premium history");
+      }
+
+      const current = calculatePremiumPercent(
+        Number(prices.noghresea.price),
+        prices.silverOunce,
+        prices.usdtToman,
+      );
+      const values = history.map((p) => Number(p.premiumPercent));
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const stdDev = Math.sqrt(
+        values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) /
+          values.length,
+      );
+
+      if (stdDev < this.MIN_PREMIUM_STDDEV) {
+        return neutral(
+          `Premium ${current.toFixed(2)}% flat around its mean ${mean.toFixed(2)}%`,
+        );
+      }
+
+      const zScore = (current - mean) / stdDev;
+      const summary = `Premium ${current.toFixed(2)}% vs ${mean.toFixed(2)}% mean (${zScore >= 0 ? "+" : ""}${zScore.toFixed(1)}σ)`;
+
+      if (zScore >= 2) {
+        return {
+          factor: "PREMIUM_REVERSION",
+          score: 25,
+          direction: "BEARISH",
+          description: `${summary} - extreme premium, expect Noghresea to revert down`,
+          weight: this.WEIGHTS.PREMIUM_REVERSION,
+        };
+      }
+      if (zScore >= 1.5) {
+        return {
+          factor: "PREMIUM_REVERSION",
+          score: 35,
+          direction: "BEARISH",
+          description: `${summary} - rich premium`,
+          weight: this.WEIGHTS.PREMIUM_REVERSION,
+        };
+      }
+      if (zScore <= -2) {
+        return {
+          factor: "PREMIUM_REVERSION",
+          score: 75,
+          direction: "BULLISH",
+          description: `${summary} - extreme discount, expect Noghresea to revert up`,
+          weight: this.WEIGHTS.PREMIUM_REVERSION,
+        };
+      }
+      if (zScore <= -1.5) {
+        return {
+          factor: "PREMIUM_REVERSION",
+          score: 65,
+          direction: "BULLISH",
+          description: `${summary} - cheap premium`,
+          weight: this.WEIGHTS.PREMIUM_REVERSION,
+        };
+      }
+
+      return neutral(`${summary} - within normal range`);
+    } catch (e: unknown) {
+      const err = e as Error;
+      this.logger.warn(`Premium reversion analysis failed: ${err.message}`);
+      return neutral("Analysis failed");
+    }
+  }
+
   private combineFactors(
     factors: FactorDetail[],
     manipulationAnalysis: FactorDetail,
@@ -511,6 +602,9 @@ export class MultiFactorAnalysisService {
       )!.score,
       usdtImpactScore: factors.find((f) => f.factor === "USDT_IMPACT")!.score,
       manipulationScore: manipulationAnalysis.score,
+      premiumReversionScore: factors.find(
+        (f) => f.factor === "PREMIUM_REVERSION",
+      )!.score,
       overallScore,
       marketDirection,
       isManipulated,
@@ -521,6 +615,26 @@ export class MultiFactorAnalysisService {
   }
 
   // Helper methods
+  private async getRecentNoghresea(
+    dataSource: MarketDataSource,
+  ): Promise<NoghreseaPrice[]> {
+    const prices = await dataSource.getRecentNoghreseaPrices(
+      this.LOOKBACK_MINUTES,
+    );
+    return prices.slice(0, this.MAX_SAMPLES);
+  }
+
+  private async getRecentSnapshots(
+    dataSource: MarketDataSource,
+    source: PriceSource,
+  ): Promise<PriceSnapshot[]> {
+    const snapshots = await dataSource.getRecentSnapshots(
+      source,
+      this.LOOKBACK_MINUTES,
+    );
+    return snapshots.slice(0, this.MAX_SAMPLES);
+  }
+
   private calculatePriceChange(prices: NoghreseaPrice[]): number {
     if (prices.length < 2) return 0;
     const latest = Number(prices[0].price);
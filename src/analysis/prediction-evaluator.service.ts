@@ -0,0 +1,182 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Between, IsNull } from "typeorm";
+import { Interval } from "@nestjs/schedule";
+import { AiPrediction } from "../database/entities/ai-prediction.entity";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { AiPredictionService } from "./ai-prediction.service";
+
+/**
+ * Prediction Evaluator - Fills in what the price actually did after each prediction
+ * Runs every minute over predictions whose horizons have passed
+ */
+@Injectable()
+export class PredictionEvaluatorService {
+  private readonly logger = new Logger(PredictionEvaluatorService.name);
+  private isRunning = false;
+
+  private readonly BATCH_SIZE = 200;
+  private readonly GIVE_UP_AFTER_MS = 24 * 60 * 60 * 1000; // Stop retrying after a day
+  private readonly MIN_TOLERANCE_MS = 2 * 60 * 1000; // Nearest tick must be within 2 min...
+  private readonly TOLERANCE_RATIO = 0.1; // ...or 10% of the horizon, whichever is larger
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(AiPrediction)
+    private predictionRepo: Repository<AiPrediction>,
+    @InjectRepository(NoghreseaPrice)
+    private noghreseaPriceRepo: Repository<NoghreseaPrice>,
+    private aiPredictionService: AiPredictionService,
+  ) {}
+
+  /**
+   * Longer horizons in minutes, from PREDICTION_EVAL_HORIZONS (e.g. "60,240")
+   */
+  getLongHorizons(): number[] {
+    return this.configService
+      .get<string>("PREDICTION_EVAL_HORIZONS", "60")
+      .split(",")
+      .map((m) => parseInt(m.trim()))
+      .filter((m) => !isNaN(m) && m > 10);
+  }
+
+  @Interval(60 * 1000)
+  async evaluateMatured(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const shortCount = await this.evaluateShortTerm();
+      let longCount = 0;
+      for (const minutes of this.getLongHorizons()) {
+        longCount += await this.evaluateHorizon(minutes);
+      }
+
+      if (shortCount + longCount > 0) {
+        this.logger.log(
+          `🎯 Evaluated ${shortCount} prediction(s) at 5/10min, ${longCount} at longer horizons`,
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`Prediction evaluation failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Fill 5/10 minute outcomes (wasPredictionCorrect is based on +10min)
+   */
+  private async evaluateShortTerm(): Promise<number> {
+    const now = Date.now();
+    const predictions = await this.predictionRepo.find({
+      where: {
+        outcomeEvaluatedAt: IsNull(),
+        createdAt: Between(
+          new Date(now - this.GIVE_UP_AFTER_MS),
+          new Date(now - 10 * 60 * 1000),
+        ),
+      },
+      order: { createdAt: "ASC" },
+      take: this.BATCH_SIZE,
+    });
+
+    let evaluated = 0;
+    for (const prediction of predictions) {
+      const price5 = await this.findPriceAfter(prediction.createdAt, 5);
+      const price10 = await this.findPriceAfter(prediction.createdAt, 10);
+
+      // No tick yet at +10min - wait unless the data gap is clearly permanent
+      const age = now - prediction.createdAt.getTime();
+      if (price10 == null && age < 30 * 60 * 1000) continue;
+
+      await this.aiPredictionService.updatePredictionOutcome(
+        prediction.id,
+        price5,
+        price10,
+      );
+      evaluated++;
+    }
+
+    return evaluated;
+  }
+
+  private async evaluateHorizon(minutes: number): Promise<number> {
+    // Wait out the lookup tolerance so a late tick can still be matched
+    const maturedAt =
+      Date.now() - minutes * 60 * 1000 - this.toleranceMs(minutes);
+    const key = String(minutes);
+
+    const predictions = await this.predictionRepo
+      .createQueryBuilder("p")
+      .where("p.created_at BETWEEN :from AND :to", {
+        from: new Date(maturedAt - this.GIVE_UP_AFTER_MS),
+        to: new Date(maturedAt),
+      })
+      .andWhere(
+        "(p.actual_prices IS NULL OR NOT jsonb_exists(p.actual_prices, :key))",
+        { key },
+      )
+      .orderBy("p.created_at", "ASC")
+      .take(this.BATCH_SIZE)
+      .getMany();
+
+    for (const prediction of predictions) {
+      const price = await this.findPriceAfter(prediction.createdAt, minutes);
+      await this.aiPredictionService.updateHorizonOutcome(
+        prediction.id,
+        minutes,
+        price,
+      );
+    }
+
+    return predictions.length;
+  }
+
+  /**
+   * Price of the tick nearest to (from + minutes), within tolerance
+   */
+  private async findPriceAfter(
+    from: Date,
+    minutes: number,
+  ): Promise<number | null> {
+    const target = new Date(from.getTime() + minutes * 60 * 1000);
+    const tolerance = this.toleranceMs(minutes);
+
+    const [after, before] = await Promise.all([
+      this.noghreseaPriceRepo.findOne({
+        where: {
+          recordedAt: Between(target, new Date(target.getTime() + tolerance)),
+        },
+        order: { recordedAt: "ASC" },
+      }),
+      this.noghreseaPriceRepo.findOne({
+        where: {
+          recordedAt: Between(new Date(target.getTime() - tolerance), target),
+        },
+        order: { recordedAt: "DESC" },
+      }),
+    ]);
+
+    const candidates = [after, before].filter(
+      (p): p is NoghreseaPrice => p !== null,
+    );
+    if (candidates.length === 0) return null;
+
+    const nearest = candidates.reduce((best, p) =>
+      Math.abs(p.recordedAt.getTime() - target.getTime()) <
+      Math.abs(best.recordedAt.getTime() - target.getTime())
+        ? p
+        : best,
+    );
+    return Number(nearest.price);
+  }
+
+  private toleranceMs(minutes: number): number {
+    return Math.max(
+      this.MIN_TOLERANCE_MS,
+      minutes * 60 * 1000 * this.TOLERANCE_RATIO,
+    );
+  }
+}
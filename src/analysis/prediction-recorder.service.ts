@@ -0,0 +1,26 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { EventBus } from "../events/event-bus.service";
+import { AiPredictionService } from "./ai-prediction.service";
+
+/**
+ * Prediction Recorder - Persists every market decision for accuracy tracking.
+ * Decisions are recorded once per cycle, not once per chat that acts on them.
+ */
+@Injectable()
+export class PredictionRecorderService implements OnModuleInit {
+  constructor(
+    private eventBus: EventBus,
+    private aiPredictionService: AiPredictionService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("MarketDecisionMade", async (event) => {
+      await this.aiPredictionService.savePrediction(
+        event.decision,
+        event.prices,
+        event.analysis,
+        event.multiFactor,
+      );
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { GRAMS_PER_MESGHAL, GRAMS_PER_OUNCE } from "../common/constants";
+
+/**
+ * Noghresea price converted to USD per troy ounce.
+ * The API price is in thousand Toman per mesghal.
+ */
+export function noghreseaToUsdPerOunce(
+  noghreseaPrice: number,
+  usdtToman: number,
+): number {
+  const pricePerGramToman = (noghreseaPrice * 1000) / GRAMS_PER_MESGHAL;
+  return (pricePerGramToman * GRAMS_PER_OUNCE) / usdtToman;
+}
+
+/**
+ * How far Noghresea trades above (+) or below (-) international silver, in %
+ */
+export function calculatePremiumPercent(
+  noghreseaPrice: number,
+  silverOunceUsd: number,
+  usdtToman: number,
+): number {
+  const localUsd = noghreseaToUsdPerOunce(noghreseaPrice, usdtToman);
+  return ((localUsd - silverOunceUsd) / silverOunceUsd) * 100;
+}
+
+/**
+ * International silver converted to the Noghresea API price unit
+ * (thousand Toman per mesghal) - the price Noghresea would show at zero premium
+ */
+export function calculateFairValuePrice(
+  silverOunceUsd: number,
+  usdtToman: number,
+): number {
+  const pricePerGramToman = (silverOunceUsd * usdtToman) / GRAMS_PER_OUNCE;
+  return (pricePerGramToman * GRAMS_PER_MESGHAL) / 1000;
+}
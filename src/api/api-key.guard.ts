@@ -0,0 +1,117 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  SetMetadata,
+  UnauthorizedException,
+  createParamDecorator,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
+import { timingSafeEqual } from "crypto";
+import { AccessService } from "../access/access.service";
+import { hasRole } from "../access/bot-permissions";
+import { BotUserRole } from "../database/entities/bot-user.entity";
+
+const REQUIRED_ROLE_KEY = "apiRequiredRole";
+
+/**
+ * Lowest bot role the key's chat needs for a route (VIEWER when not set)
+ */
+export const RequireRole = (role: BotUserRole) =>
+  SetMetadata(REQUIRED_ROLE_KEY, role);
+
+/**
+ * API Key Guard - Authenticates REST API requests
+ * Keys are configured as API_KEYS="chatId:key,chatId:key"; each key acts as its chat,
+ * which must still be allowed to use the bot and have the route's role
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+  private readonly keys: { chatId: string; key: Buffer }[];
+
+  constructor(
+    private configService: ConfigService,
+    private accessService: AccessService,
+    private reflector: Reflector,
+  ) {
+    this.keys = this.configService
+      .get<string>("API_KEYS", "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.indexOf(":");
+        return {
+          chatId: entry.substring(0, separator),
+          key: Buffer.from(entry.substring(separator + 1)),
+        };
+      })
+      .filter((k) => k.chatId && k.key.length > 0);
+
+    if (this.keys.length === 0) {
+      this.logger.warn("No API_KEYS configured - REST API is disabled");
+    }
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const provided = this.extractKey(request);
+    if (!provided) {
+      throw new UnauthorizedException("Missing API key");
+    }
+
+    const candidate = Buffer.from(provided);
+    const match = this.keys.find(
+      (k) =>
+        k.key.length === candidate.length && timingSafeEqual(k.key, candidate),
+    );
+    if (!match) {
+      throw new UnauthorizedException("Invalid API key");
+    }
+
+    // Same allow-list as the bot, so revoking a chat also revokes its key
+    const role = await this.accessService.getRole(match.chatId);
+    if (!role) {
+      throw new ForbiddenException("Chat is not allowed to use the bot");
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<BotUserRole>(REQUIRED_ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? BotUserRole.VIEWER;
+    if (!hasRole(role, required)) {
+      throw new ForbiddenException(`Requires the ${required} role`);
+    }
+
+    request.apiChatId = match.chatId;
+    return true;
+  }
+
+  private extractKey(request: any): string | null {
+    const header = request.headers["x-api-key"];
+    if (typeof header === "string" && header) return header;
+
+    const auth = request.headers["authorization"];
+    if (typeof auth === "string" && auth.startsWith("Bearer ")) {
+      return auth.substring("Bearer ".length).trim();
+    }
+
+    // EventSource cannot send headers, so the stream also accepts ?api_key=
+    const query = request.query?.["api_key"];
+    if (typeof query === "string" && query) return query;
+    return null;
+  }
+}
+
+/**
+ * Chat ID the request's API key belongs to
+ */
+export const ApiChatId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest().apiChatId,
+);
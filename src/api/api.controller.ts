@@ -0,0 +1,238 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { MoreThanOrEqual, Repository } from "typeorm";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PatternEvent } from "../database/entities/pattern-event.entity";
+import { AiPrediction } from "../database/entities/ai-prediction.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import {
+  CandleSource,
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import { PriceSource } from "../database/entities/price-snapshot.entity";
+import { PriceFetcherService } from "../price-fetcher/price-fetcher.service";
+import { CandleService } from "../candles/candle.service";
+import { CANDLE_TIMEFRAME_MINUTES } from "../candles/candle";
+import { DailyAnalysisService } from "../analysis/daily-analysis.service";
+import { AiPredictionService } from "../analysis/ai-prediction.service";
+import { UserTradingService } from "../trade-executor/user-trading.service";
+import { LimitOrderService } from "../trade-executor/limit-order.service";
+import { ApiChatId, ApiKeyGuard, RequireRole } from "./api-key.guard";
+import { BotUserRole } from "../database/entities/bot-user.entity";
+import { ApiService } from "./api.service";
+import { UpdateSettingsDto } from "./dto/update-settings.dto";
+import { CreateTradeDto } from "./dto/create-trade.dto";
+import { CreateLimitOrderDto } from "./dto/create-limit-order.dto";
+
+/**
+ * REST API for dashboards and scripts
+ * All routes require an API key; user-scoped routes act on the key's chat
+ */
+@Controller("api")
+@UseGuards(ApiKeyGuard)
+export class ApiController {
+  constructor(
+    @InjectRepository(NoghreseaPrice)
+    private noghreseaPriceRepo: Repository<NoghreseaPrice>,
+    @InjectRepository(PatternEvent)
+    private patternEventRepo: Repository<PatternEvent>,
+    @InjectRepository(AiPrediction)
+    private predictionRepo: Repository<AiPrediction>,
+    @InjectRepository(PremiumSnapshot)
+    private premiumSnapshotRepo: Repository<PremiumSnapshot>,
+    private priceFetcher: PriceFetcherService,
+    private candleService: CandleService,
+    private dailyAnalysis: DailyAnalysisService,
+    private aiPredictionService: AiPredictionService,
+    private userTradingService: UserTradingService,
+    private limitOrderService: LimitOrderService,
+    private apiService: ApiService,
+  ) {}
+
+  // ============ Market Data ============
+
+  @Get("prices")
+  async prices() {
+    return (
+      this.priceFetcher.getLastPrices() ??
+      (await this.priceFetcher.fetchAllPrices())
+    );
+  }
+
+  @Get("prices/ticks")
+  async ticks(
+    @Query("minutes") minutes?: string,
+    @Query("limit") limit?: string,
+  ) {
+    const since = this.minutesAgo(this.toInt(minutes, 30, 1, 7 * 24 * 60));
+    return this.noghreseaPriceRepo.find({
+      where: { recordedAt: MoreThanOrEqual(since) },
+      order: { recordedAt: "DESC" },
+      take: this.toInt(limit, 500, 1, 5000),
+    });
+  }
+
+  @Get("candles")
+  async candles(
+    @Query("source") source: string = NOGHRESEA_CANDLE_SOURCE,
+    @Query("timeframe") timeframe: string = CandleTimeframe.M1,
+    @Query("limit") limit?: string,
+  ) {
+    const sources: string[] = [
+      NOGHRESEA_CANDLE_SOURCE,
+      ...Object.values(PriceSource),
+    ];
+    if (!sources.includes(source)) {
+      throw new BadRequestException(`source must be one of ${sources}`);
+    }
+    const timeframes: string[] = Object.values(CandleTimeframe);
+    if (!timeframes.includes(timeframe)) {
+      throw new BadRequestException(`timeframe must be one of ${timeframes}`);
+    }
+
+    const count = this.toInt(limit, 120, 1, 1000);
+    return this.candleService.getRecentCandles(
+      source as CandleSource,
+      timeframe as CandleTimeframe,
+      count * CANDLE_TIMEFRAME_MINUTES[timeframe as CandleTimeframe],
+    );
+  }
+
+  @Get("premium")
+  async premium(
+    @Query("hours") hours?: string,
+    @Query("limit") limit?: string,
+  ) {
+    const since = this.minutesAgo(this.toInt(hours, 24, 1, 24 * 30) * 60);
+    return this.premiumSnapshotRepo.find({
+      where: { recordedAt: MoreThanOrEqual(since) },
+      order: { recordedAt: "DESC" },
+      take: this.toInt(limit, 500, 1, 5000),
+    });
+  }
+
+  @Get("patterns")
+  async patterns(
+    @Query("hours") hours?: string,
+    @Query("limit") limit?: string,
+  ) {
+    const since = this.minutesAgo(this.toInt(hours, 24, 1, 24 * 30) * 60);
+    return this.patternEventRepo.find({
+      where: { detectedAt: MoreThanOrEqual(since) },
+      order: { detectedAt: "DESC" },
+      take: this.toInt(limit, 100, 1, 1000),
+    });
+  }
+
+  @Get("predictions")
+  async predictions(@Query("limit") limit?: string) {
+    return this.predictionRepo.find({
+      order: { createdAt: "DESC" },
+      take: this.toInt(limit, 50, 1, 500),
+    });
+  }
+
+  @Get("predictions/accuracy")
+  async predictionAccuracy(@Query("days") days?: string) {
+    return this.aiPredictionService.getAccuracyBreakdown(
+      this.toInt(days, 7, 1, 90),
+    );
+  }
+
+  @Get("daily-summaries")
+  async dailySummaries(@Query("days") days?: string) {
+    return this.dailyAnalysis.getRecentSummaries(this.toInt(days, 7, 1, 90));
+  }
+
+  // ============ User ============
+
+  @Get("trades")
+  async trades(@ApiChatId() chatId: string, @Query("limit") limit?: string) {
+    return this.userTradingService.getTradeHistory(
+      chatId,
+      this.toInt(limit, 20, 1, 500),
+    );
+  }
+
+  @Post("trades")
+  @RequireRole(BotUserRole.TRADER)
+  async createTrade(@ApiChatId() chatId: string, @Body() dto: CreateTradeDto) {
+    return this.apiService.placeTrade(chatId, dto);
+  }
+
+  @Get("orders")
+  async orders(
+    @ApiChatId() chatId: string,
+    @Query("status") status?: string,
+    @Query("limit") limit?: string,
+  ) {
+    return status === "all"
+      ? this.limitOrderService.getOrders(chatId, this.toInt(limit, 50, 1, 500))
+      : this.limitOrderService.getOpenOrders(chatId);
+  }
+
+  @Post("orders")
+  @RequireRole(BotUserRole.TRADER)
+  async createOrder(
+    @ApiChatId() chatId: string,
+    @Body() dto: CreateLimitOrderDto,
+  ) {
+    return this.apiService.placeLimitOrder(chatId, dto);
+  }
+
+  @Delete("orders/:id")
+  @RequireRole(BotUserRole.TRADER)
+  async cancelOrder(
+    @ApiChatId() chatId: string,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.apiService.cancelLimitOrder(chatId, id);
+  }
+
+  @Get("session")
+  async session(@ApiChatId() chatId: string) {
+    return this.userTradingService.getSessionStatus(chatId);
+  }
+
+  @Get("settings")
+  async settings(@ApiChatId() chatId: string) {
+    return this.userTradingService.getOrCreateSettings(chatId);
+  }
+
+  @Patch("settings")
+  @RequireRole(BotUserRole.TRADER)
+  async updateSettings(
+    @ApiChatId() chatId: string,
+    @Body() dto: UpdateSettingsDto,
+  ) {
+    return this.apiService.updateSettings(chatId, dto);
+  }
+
+  private toInt(
+    value: string | undefined,
+    fallback: number,
+    min: number,
+    max: number,
+  ): number {
+    const parsed = parseInt(value ?? "");
+    if (isNaN(parsed)) return fallback;
+    return Math.min(Math.max(parsed, min), max);
+  }
+
+  private minutesAgo(minutes: number): Date {
+    return new Date(Date.now() - minutes * 60 * 1000);
+  }
+}
@@ -0,0 +1,39 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ApiController } from "./api.controller";
+import { ApiService } from "./api.service";
+import { ApiKeyGuard } from "./api-key.guard";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PatternEvent } from "../database/entities/pattern-event.entity";
+import { AiPrediction } from "../database/entities/ai-prediction.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { NoghreseaModule } from "../noghresea/noghresea.module";
+import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
+import { AnalysisModule } from "../analysis/analysis.module";
+import { TradeExecutorModule } from "../trade-executor/trade-executor.module";
+import { StrategyModule } from "../strategy/strategy.module";
+import { EventsModule } from "../events/events.module";
+import { CandlesModule } from "../candles/candles.module";
+import { AccessModule } from "../access/access.module";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      NoghreseaPrice,
+      PatternEvent,
+      AiPrediction,
+      PremiumSnapshot,
+    ]),
+    NoghreseaModule,
+    PriceFetcherModule,
+    AnalysisModule,
+    TradeExecutorModule,
+    StrategyModule,
+    EventsModule,
+    CandlesModule,
+    AccessModule,
+  ],
+  controllers: [ApiController],
+  providers: [ApiService, ApiKeyGuard],
+})
+export class ApiModule {}
@@ -0,0 +1,286 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
+import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
+import { UserTradingService } from "../trade-executor/user-trading.service";
+import { PaperTradingService } from "../trade-executor/paper-trading.service";
+import { RiskManagerService } from "../trade-executor/risk-manager.service";
+import { LimitOrderService } from "../trade-executor/limit-order.service";
+import { StrategyRegistryService } from "../strategy/strategy-registry.service";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import { LimitOrder } from "../database/entities/limit-order.entity";
+import {
+  UserTradeHistory,
+  TradeSource,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+import { UpdateSettingsDto } from "./dto/update-settings.dto";
+import { CreateTradeDto } from "./dto/create-trade.dto";
+import { CreateLimitOrderDto } from "./dto/create-limit-order.dto";
+import { EventBus } from "../events/event-bus.service";
+
+/**
+ * API Service - Settings edits and manual trades requested over REST
+ * Reuses the same services as the Telegram bot so both stay consistent
+ */
+@Injectable()
+export class ApiService {
+  private readonly logger = new Logger(ApiService.name);
+
+  constructor(
+    private noghreseaApi: NoghreseaApiService,
+    private authService: NoghreseaAuthService,
+    private userTradingService: UserTradingService,
+    private paperTrading: PaperTradingService,
+    private riskManager: RiskManagerService,
+    private strategyRegistry: StrategyRegistryService,
+    private limitOrderService: LimitOrderService,
+    private eventBus: EventBus,
+  ) {}
+
+  async updateSettings(
+    chatId: string,
+    dto: UpdateSettingsDto,
+  ): Promise<UserTradingSettings> {
+    if (
+      dto.strategy !== undefined &&
+      !this.strategyRegistry.has(dto.strategy)
+    ) {
+      const names = this.strategyRegistry.list().map((s) => s.name);
+      throw new BadRequestException(
+        `Unknown strategy. Available: ${names.join(", ")}`,
+      );
+    }
+
+    const current = await this.userTradingService.getOrCreateSettings(chatId);
+
+    if (
+      dto.tradeMode !== undefined ||
+      dto.tradePercent !== undefined ||
+      dto.fixedSilverGrams !== undefined
+    ) {
+      const mode = dto.tradeMode ?? current.tradeMode;
+      const value =
+        mode === "percentage"
+          ? (dto.tradePercent ?? Number(current.tradePercent))
+          : (dto.fixedSilverGrams ?? Number(current.fixedSilverGrams));
+      if (!value) {
+        throw new BadRequestException(
+          "fixedSilverGrams is required for fixed_amount mode",
+        );
+      }
+      await this.userTradingService.updateTradeAmount(chatId, mode, value);
+    }
+
+    if (dto.minConfidence !== undefined) {
+      await this.userTradingService.updateMinConfidence(
+        chatId,
+        dto.minConfidence,
+      );
+    }
+    if (dto.strategy !== undefined) {
+      await this.userTradingService.updateStrategy(chatId, dto.strategy);
+    }
+    if (dto.paperTradingEnabled !== undefined) {
+      await this.paperTrading.setPaperMode(chatId, dto.paperTradingEnabled);
+    }
+    if (dto.autoTradingEnabled !== undefined) {
+      await this.userTradingService.toggleAutoTrading(
+        chatId,
+        dto.autoTradingEnabled,
+      );
+    }
+
+    const protection = this.pick(dto, [
+      "stopLossPercent",
+      "takeProfitPercent",
+      "trailingStopPercent",
+    ]);
+    if (Object.keys(protection).length > 0) {
+      await this.userTradingService.updateProtection(chatId, protection);
+    }
+
+    const limits = this.pick(dto, [
+      "dailyLossLimitToman",
+      "maxConsecutiveLosses",
+      "maxTradesPerHour",
+    ]);
+    if (Object.keys(limits).length > 0) {
+      await this.riskManager.updateLimits(chatId, limits);
+    }
+
+    this.logger.log(`⚙️ Settings updated via API for ${chatId}`);
+    return this.userTradingService.getOrCreateSettings(chatId);
+  }
+
+  /**
+   * Place a manual order for the chat (paper wallet when paper mode is on)
+   */
+  async placeTrade(
+    chatId: string,
+    dto: CreateTradeDto,
+  ): Promise<UserTradeHistory> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+
+    const priceData = await this.noghreseaApi.getSilverPrice();
+    if (!priceData || !priceData.price) {
+      throw new BadGatewayException("Could not fetch current price");
+    }
+    const currentPrice = parseFloat(priceData.price);
+
+    if (settings.paperTradingEnabled) {
+      return this.placePaperTrade(chatId, dto, currentPrice);
+    }
+
+    await this.requireAuth(chatId);
+
+    // Volume in milligrams for API
+    const volumeInMilligrams = Math.round(dto.grams * 1000);
+    const result =
+      dto.action === "BUY"
+        ? await this.noghreseaApi.createBuyOrder(
+            chatId,
+            currentPrice,
+            volumeInMilligrams,
+          )
+        : await this.noghreseaApi.createSellOrder(
+            chatId,
+            currentPrice,
+            volumeInMilligrams,
+          );
+
+    if (!result || !result.orderId) {
+      throw new BadGatewayException(
+        `Order failed: ${result?.message || "Unknown error"}`,
+      );
+    }
+
+    // PENDING until the reconciler sees the fill
+    const trade = await this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      dto.action,
+      dto.grams,
+      currentPrice,
+      TradeSource.API,
+      {
+        noghreseaOrderId: result.orderId,
+        status: TradeStatus.PENDING,
+        notes: dto.notes,
+      },
+    );
+    await this.eventBus.emit("TradeExecuted", { chatId, trade });
+    return trade;
+  }
+
+  /**
+   * Place a resting limit order (paper book when paper mode is on)
+   */
+  async placeLimitOrder(
+    chatId: string,
+    dto: CreateLimitOrderDto,
+  ): Promise<LimitOrder> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    if (!settings.paperTradingEnabled) {
+      await this.requireAuth(chatId);
+    }
+
+    try {
+      return await this.limitOrderService.placeOrder(
+        chatId,
+        dto.action,
+        dto.grams,
+        dto.targetPrice,
+        {
+          expiresInMinutes: dto.expiresInMinutes ?? null,
+          source: TradeSource.API,
+        },
+      );
+    } catch (error: any) {
+      throw new BadGatewayException(error.message);
+    }
+  }
+
+  async cancelLimitOrder(chatId: string, id: string): Promise<LimitOrder> {
+    let order: LimitOrder | null;
+    try {
+      order = await this.limitOrderService.cancelOrder(chatId, id);
+    } catch (error: any) {
+      throw new BadGatewayException(error.message);
+    }
+    if (!order) {
+      throw new NotFoundException("No open limit order with this id");
+    }
+    return order;
+  }
+
+  private async requireAuth(chatId: string) {
+    if (!this.authService.isAuthenticated(chatId)) {
+      await this.authService.loadUserAuth(chatId);
+    }
+    if (!this.authService.isAuthenticated(chatId)) {
+      throw new ForbiddenException(
+        "Noghresea account is not authenticated. Use 🔐 Auth in Telegram first.",
+      );
+    }
+  }
+
+  private async placePaperTrade(
+    chatId: string,
+    dto: CreateTradeDto,
+    price: number,
+  ): Promise<UserTradeHistory> {
+    // Manual orders are not gated by the AI confidence threshold
+    const fill = await this.paperTrading.executeTrade(
+      chatId,
+      {
+        action: dto.action,
+        confidence: 100,
+        volumePercent: 0,
+        reasoning: "Manual API order",
+        expectedOutcome: "",
+      },
+      dto.grams,
+      price,
+    );
+    if (!fill) {
+      throw new BadRequestException(
+        `Insufficient paper balance for ${dto.action}`,
+      );
+    }
+
+    const trade = await this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      fill.action,
+      fill.silverAmount,
+      price,
+      TradeSource.API,
+      {
+        isPaper: true,
+        silverBalanceAfter: fill.silverBalanceAfter,
+        tomanBalanceAfter: fill.tomanBalanceAfter,
+        notes: dto.notes,
+      },
+    );
+    await this.eventBus.emit("TradeExecuted", { chatId, trade });
+    return trade;
+  }
+
+  private pick<K extends keyof UpdateSettingsDto>(
+    dto: UpdateSettingsDto,
+    keys: K[],
+  ): Pick<UpdateSettingsDto, K> {
+    const result = {} as Pick<UpdateSettingsDto, K>;
+    for (const key of keys) {
+      if (dto[key] !== undefined) result[key] = dto[key];
+    }
+    return result;
+  }
+}
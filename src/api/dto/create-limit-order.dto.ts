@@ -0,0 +1,30 @@
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Max,
+  Min,
+} from "class-validator";
+
+export class CreateLimitOrderDto {
+  @IsIn(["BUY", "SELL"])
+  action!: "BUY" | "SELL";
+
+  @IsNumber()
+  @Min(0.001)
+  grams!: number;
+
+  // Same unit as /api/prices (Noghresea API price)
+  @IsNumber()
+  @IsPositive()
+  targetPrice!: number;
+
+  // Omit for good-till-cancelled
+  @IsInt()
+  @Min(1)
+  @Max(30 * 24 * 60)
+  @IsOptional()
+  expiresInMinutes?: number;
+}
@@ -0,0 +1,14 @@
+import { IsIn, IsNumber, IsOptional, IsString, Min } from "class-validator";
+
+export class CreateTradeDto {
+  @IsIn(["BUY", "SELL"])
+  action!: "BUY" | "SELL";
+
+  @IsNumber()
+  @Min(0.001)
+  grams!: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
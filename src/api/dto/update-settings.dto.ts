@@ -0,0 +1,79 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator";
+
+/**
+ * Partial update of UserTradingSettings.
+ * Protection and risk limits accept null to turn them off.
+ */
+export class UpdateSettingsDto {
+  @IsIn(["percentage", "fixed_amount"])
+  @IsOptional()
+  tradeMode?: "percentage" | "fixed_amount";
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  tradePercent?: number;
+
+  @IsNumber()
+  @Min(0.001)
+  @IsOptional()
+  fixedSilverGrams?: number;
+
+  @IsInt()
+  @Min(50)
+  @Max(100)
+  @IsOptional()
+  minConfidence?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  autoTradingEnabled?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  paperTradingEnabled?: boolean;
+
+  @IsString()
+  @IsOptional()
+  strategy?: string;
+
+  @IsNumber()
+  @Min(0.1)
+  @IsOptional()
+  stopLossPercent?: number | null;
+
+  @IsNumber()
+  @Min(0.1)
+  @IsOptional()
+  takeProfitPercent?: number | null;
+
+  @IsNumber()
+  @Min(0.1)
+  @IsOptional()
+  trailingStopPercent?: number | null;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  dailyLossLimitToman?: number | null;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxConsecutiveLosses?: number | null;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxTradesPerHour?: number | null;
+}
@@ -12,6 +12,12 @@ import { TelegramBotModule } from "./telegram-bot/telegram-bot.module";
 import { SchedulerModule } from "./scheduler/scheduler.module";
 import { AnalysisModule } from "./analysis/analysis.module";
 import { HealthModule } from "./health/health.module";
+import { BacktestModule } from "./backtest/backtest.module";
+import { StrategyModule } from "./strategy/strategy.module";
+import { ApiModule } from "./api/api.module";
+import { StreamModule } from "./stream/stream.module";
+import { AlertsModule } from "./alerts/alerts.module";
+import { RetentionModule } from "./retention/retention.module";
 
 import { PriceSnapshot } from "./database/entities/price-snapshot.entity";
 import { NoghreseaPrice } from "./database/entities/noghresea-price.entity";
@@ -26,6 +32,14 @@ import { Transaction } from "./database/entities/transaction.entity";
 import { AiPrediction } from "./database/entities/ai-prediction.entity";
 import { UserTradingSettings } from "./database/entities/user-trading-settings.entity";
 import { UserTradeHistory } from "./database/entities/user-trade-history.entity";
+import { LimitOrder } from "./database/entities/limit-order.entity";
+import { DcaPlan } from "./database/entities/dca-plan.entity";
+import { PriceAlert } from "./database/entities/price-alert.entity";
+import { PremiumSnapshot } from "./database/entities/premium-snapshot.entity";
+import { PriceCandle } from "./database/entities/price-candle.entity";
+import { BotUser } from "./database/entities/bot-user.entity";
+import { AccountLink } from "./database/entities/account-link.entity";
+import { EncryptAuthTokens1792281600000 } from "./database/migrations/1792281600000-EncryptAuthTokens";
 import { validate } from "./common/env.validation";
 
 @Module({
@@ -58,8 +72,17 @@ import { validate } from "./common/env.validation";
           AiPrediction,
           UserTradingSettings,
           UserTradeHistory,
+          LimitOrder,
+          DcaPlan,
+          PriceAlert,
+          PremiumSnapshot,
+          PriceCandle,
+          BotUser,
+          AccountLink,
         ],
-        // Auto-sync schema with entities
+        // Data migrations run first, then the schema is auto-synced with entities
+        migrations: [EncryptAuthTokens1792281600000],
+        migrationsRun: true,
         synchronize: true,
         logging: process.env.DB_LOGGING === "true",
       }),
@@ -75,6 +98,12 @@ import { validate } from "./common/env.validation";
     SchedulerModule,
     AnalysisModule,
     HealthModule,
+    BacktestModule,
+    StrategyModule,
+    ApiModule,
+    StreamModule,
+    AlertsModule,
+    RetentionModule,
   ],
 })
 export class AppModule {}
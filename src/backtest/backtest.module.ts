@@ -0,0 +1,23 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { BacktestService } from "./backtest.service";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { PatternAnalyzerModule } from "../pattern-analyzer/pattern-analyzer.module";
+import { AnalysisModule } from "../analysis/analysis.module";
+import { StrategyModule } from "../strategy/strategy.module";
+import { TradeExecutorModule } from "../trade-executor/trade-executor.module";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([NoghreseaPrice, PriceSnapshot, PremiumSnapshot]),
+    PatternAnalyzerModule,
+    AnalysisModule,
+    StrategyModule,
+    TradeExecutorModule,
+  ],
+  providers: [BacktestService],
+  exports: [BacktestService],
+})
+export class BacktestModule {}
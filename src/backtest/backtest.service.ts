@@ -0,0 +1,414 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Between } from "typeorm";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import {
+  PriceSnapshot,
+  PriceSource,
+} from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import { PatternAnalyzerService } from "../pattern-analyzer/pattern-analyzer.service";
+import { MultiFactorAnalysisService } from "../analysis/multi-factor-analysis.service";
+import { AiDecision } from "../ai-decision/ai-decision.service";
+import { UserTradingService } from "../trade-executor/user-trading.service";
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { StrategyRegistryService } from "../strategy/strategy-registry.service";
+import {
+  StrategyDecision,
+  StrategyState,
+} from "../strategy/trading-strategy.interface";
+import { PositionProtectionService } from "../trade-executor/position-protection.service";
+import { fillSimulatedOrder } from "../trade-executor/paper-trading.service";
+import { ReplayMarketData } from "./replay-market-data";
+
+export interface BacktestOptions {
+  from: Date;
+  to: Date;
+  chatId?: string; // Use this chat's trading settings (defaults otherwise)
+  strategy?: string; // Override the chat's strategy
+  initialToman?: number;
+  initialSilver?: number;
+}
+
+export interface BacktestTrade {
+  time: Date;
+  action: "BUY" | "SELL";
+  silverAmount: number;
+  price: number;
+  tomanAmount: number;
+  fee: number;
+  confidence: number;
+  reasoning: string;
+  profitLossToman?: number; // Only for SELL (vs average cost of silver sold)
+}
+
+export interface BacktestReport {
+  from: Date;
+  to: Date;
+  strategy: string;
+  ticks: number;
+  initialEquity: number;
+  finalEquity: number;
+  profitLossToman: number;
+  profitLossPercent: number;
+  totalFees: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  maxDrawdownPercent: number;
+  trades: BacktestTrade[];
+}
+
+interface SimulatedWallet {
+  tomanBalance: number;
+  silverBalance: number;
+  silverCost: number; // Toman paid (with fees) for the silver currently held
+}
+
+/**
+ * Replays stored price history through the same decision pipeline as the
+ * live cycle (pattern analysis → multi-factor → strategy → sizing) without
+ * touching Noghresea, Telegram or OpenAI. Fills use the paper-trading fee model.
+ */
+@Injectable()
+export class BacktestService {
+  private readonly logger = new Logger(BacktestService.name);
+
+  private readonly WARMUP_MINUTES = 90; // Longest analysis lookback (indicator candles)
+
+  readonly DEFAULT_INITIAL_TOMAN = 100_000_000;
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(NoghreseaPrice)
+    private noghreseaPriceRepo: Repository<NoghreseaPrice>,
+    @InjectRepository(PriceSnapshot)
+    private priceSnapshotRepo: Repository<PriceSnapshot>,
+    @InjectRepository(PremiumSnapshot)
+    private premiumSnapshotRepo: Repository<PremiumSnapshot>,
+    private patternAnalyzer: PatternAnalyzerService,
+    private multiFactorAnalysis: MultiFactorAnalysisService,
+    private strategyRegistry: StrategyRegistryService,
+    private userTradingService: UserTradingService,
+    private positionProtection: PositionProtectionService,
+  ) {}
+
+  /**
+   * Raw ticks are only kept for RETENTION_RAW_DAYS, so that's as far back
+   * as a replay can go
+   */
+  getMaxDays(): number {
+    const days = parseInt(this.configService.get("RETENTION_RAW_DAYS", "14"));
+    return isNaN(days) || days < 1 ? 14 : days;
+  }
+
+  async run(options: BacktestOptions): Promise<BacktestReport> {
+    const oldest = Date.now() - this.getMaxDays() * 24 * 60 * 60 * 1000;
+    if (options.from.getTime() < oldest) {
+      throw new Error(
+        `Only the last ${this.getMaxDays()} day(s) of price history are kept`,
+      );
+    }
+
+    const { replay, ticks } = await this.loadHistory(options.from, options.to);
+    const settings = await this.loadSettings(options.chatId);
+    return this.replay(
+      replay,
+      ticks.filter((t) => t.recordedAt >= options.from),
+      settings,
+      options,
+    );
+  }
+
+  private async loadHistory(
+    from: Date,
+    to: Date,
+  ): Promise<{ replay: ReplayMarketData; ticks: NoghreseaPrice[] }> {
+    const warmupFrom = new Date(
+      from.getTime() - this.WARMUP_MINUTES * 60 * 1000,
+    );
+
+    // The premium factor looks back much further than the other analyses
+    const premiumFrom = new Date(
+      from.getTime() -
+        this.multiFactorAnalysis.PREMIUM_LOOKBACK_MINUTES * 60 * 1000,
+    );
+
+    const [ticks, snapshots, premiums] = await Promise.all([
+      this.noghreseaPriceRepo.find({
+        where: { recordedAt: Between(warmupFrom, to) },
+        order: { recordedAt: "ASC" },
+      }),
+      this.priceSnapshotRepo.find({
+        where: { fetchedAt: Between(warmupFrom, to) },
+        order: { fetchedAt: "ASC" },
+      }),
+      this.premiumSnapshotRepo.find({
+        where: { recordedAt: Between(premiumFrom, to) },
+        order: { recordedAt: "ASC" },
+      }),
+    ]);
+
+    const bySource = new Map<PriceSource, PriceSnapshot[]>();
+    for (const snapshot of snapshots) {
+      if (!bySource.has(snapshot.source)) bySource.set(snapshot.source, []);
+      bySource.get(snapshot.source)!.push(snapshot);
+    }
+
+    this.logger.log(
+      `📼 Loaded ${ticks.length} ticks, ${snapshots.length} snapshots and ${premiums.length} premiums for backtest`,
+    );
+
+    return {
+      replay: new ReplayMarketData(ticks, bySource, premiums),
+      ticks,
+    };
+  }
+
+  // Work on a detached copy so the user's live session is never touched
+  private async loadSettings(chatId?: string): Promise<UserTradingSettings> {
+    const base = chatId
+      ? await this.userTradingService.getOrCreateSettings(chatId)
+      : Object.assign(new UserTradingSettings(), {
+          tradeMode: "percentage",
+          tradePercent: 5,
+          minConfidence: 70,
+        });
+
+    return Object.assign(new UserTradingSettings(), base, {
+      hasActiveSession: false,
+      sessionSilverAmount: undefined,
+      sessionTomanAmount: undefined,
+      sessionTradeCount: 0,
+      sessionEntryPrice: null,
+      sessionPeakPrice: null,
+      currentPosition: "silver",
+    });
+  }
+
+  private async replay(
+    replay: ReplayMarketData,
+    ticks: NoghreseaPrice[],
+    settings: UserTradingSettings,
+    options: BacktestOptions,
+  ): Promise<BacktestReport> {
+    const wallet: SimulatedWallet = {
+      tomanBalance: options.initialToman ?? this.DEFAULT_INITIAL_TOMAN,
+      silverBalance: options.initialSilver ?? 0,
+      silverCost: 0,
+    };
+
+    const strategy = this.strategyRegistry.get(
+      options.strategy ?? settings.strategy,
+    );
+    const strategyState: StrategyState = {
+      lastAiCallTime: 0,
+      lastSignalTime: 0,
+    };
+    const executorThreshold = parseInt(
+      this.configService.get("CONFIDENCE_THRESHOLD", "70"),
+    );
+    const context = { dataSource: replay, clock: replay, persist: false };
+
+    const trades: BacktestTrade[] = [];
+    let initialEquity: number | null = null;
+    let peakEquity = 0;
+    let maxDrawdownPercent = 0;
+    let lastPrice = 0;
+
+    for (const tick of ticks) {
+      replay.advanceTo(tick.recordedAt);
+      const currentPrice = Number(tick.price);
+      lastPrice = currentPrice;
+
+      if (initialEquity === null) {
+        wallet.silverCost = wallet.silverBalance * currentPrice;
+        initialEquity =
+          wallet.tomanBalance + wallet.silverBalance * currentPrice;
+      }
+
+      const prices: AllPrices = {
+        noghresea: tick,
+        silverOunce: replay.getLatestSnapshotPrice(PriceSource.SILVER_OUNCE),
+        silverOunceEstimated: false,
+        goldOunce: replay.getLatestSnapshotPrice(PriceSource.GOLD_OUNCE),
+        usdtToman: replay.getLatestSnapshotPrice(PriceSource.USDT_TOMAN),
+        fetchedAt: tick.recordedAt,
+      };
+
+      const analysis = await this.patternAnalyzer.analyze(prices, context);
+      const multiFactor = await this.multiFactorAnalysis.analyze(
+        prices,
+        context,
+      );
+      const adjustedConfidence =
+        analysis.overallConfidence + multiFactor.confidenceBoost;
+
+      const protection = this.positionProtection.evaluate(
+        settings,
+        currentPrice,
+      );
+      const decision: StrategyDecision | null = protection
+        ? {
+            strategy: "protection",
+            action: "SELL",
+            confidence: 100,
+            volumePercent: 100,
+            reasoning: protection.message,
+            expectedOutcome: `Exit position (${protection.reason})`,
+          }
+        : await strategy.decide({
+            prices,
+            analysis,
+            multiFactor,
+            adjustedConfidence,
+            wallet: {
+              tomanBalance: wallet.tomanBalance,
+              silverBalance: wallet.silverBalance,
+              totalDeposit: 0,
+              totalWithdraw: 0,
+            },
+            settings,
+            now: tick.recordedAt,
+            state: strategyState,
+            offline: true,
+          });
+
+      if (
+        decision &&
+        decision.action !== "HOLD" &&
+        decision.confidence >= executorThreshold
+      ) {
+        const trade = this.simulateTrade(
+          settings,
+          wallet,
+          decision,
+          currentPrice,
+          tick.recordedAt,
+        );
+        if (trade) trades.push(trade);
+      }
+
+      // Track drawdown on mark-to-market equity
+      const equity = wallet.tomanBalance + wallet.silverBalance * currentPrice;
+      peakEquity = Math.max(peakEquity, equity);
+      if (peakEquity > 0) {
+        maxDrawdownPercent = Math.max(
+          maxDrawdownPercent,
+          ((peakEquity - equity) / peakEquity) * 100,
+        );
+      }
+    }
+
+    const startEquity = initialEquity ?? wallet.tomanBalance;
+    const finalEquity = wallet.tomanBalance + wallet.silverBalance * lastPrice;
+    const sells = trades.filter((t) => t.profitLossToman !== undefined);
+    const winningTrades = sells.filter((t) => t.profitLossToman! > 0).length;
+
+    const report: BacktestReport = {
+      from: options.from,
+      to: options.to,
+      strategy: strategy.name,
+      ticks: ticks.length,
+      initialEquity: startEquity,
+      finalEquity,
+      profitLossToman: finalEquity - startEquity,
+      profitLossPercent:
+        startEquity > 0 ? ((finalEquity - startEquity) / startEquity) * 100 : 0,
+      totalFees: trades.reduce((sum, t) => sum + t.fee, 0),
+      winningTrades,
+      losingTrades: sells.length - winningTrades,
+      winRate: sells.length > 0 ? (winningTrades / sells.length) * 100 : 0,
+      maxDrawdownPercent,
+      trades,
+    };
+
+    this.logger.log(
+      `📼 Backtest done: ${ticks.length} ticks, ${trades.length} trades, P/L ${report.profitLossPercent.toFixed(2)}%`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Apply a decision to the simulated wallet using the live sizing and
+   * session rules, filling at the tick price like a paper trade.
+   */
+  private simulateTrade(
+    settings: UserTradingSettings,
+    wallet: SimulatedWallet,
+    decision: AiDecision,
+    currentPrice: number,
+    time: Date,
+  ): BacktestTrade | null {
+    const action = decision.action as "BUY" | "SELL";
+    const tradeCalc = this.userTradingService.calculateTradeForSettings(
+      settings,
+      action,
+      currentPrice,
+      wallet.silverBalance,
+      wallet.tomanBalance,
+    );
+    if (!tradeCalc.canTrade) return null;
+
+    if (!settings.hasActiveSession) {
+      this.userTradingService.openAiSession(
+        settings,
+        action,
+        tradeCalc.silverAmount,
+        tradeCalc.silverAmount * currentPrice,
+        currentPrice,
+        time,
+      );
+    }
+
+    const position = this.userTradingService.checkPositionForSettings(
+      settings,
+      action,
+    );
+    if (!position.valid) return null;
+
+    const silverBefore = wallet.silverBalance;
+    const fill = fillSimulatedOrder(
+      wallet,
+      action,
+      tradeCalc.silverAmount,
+      currentPrice,
+      this.userTradingService.TRADE_FEE_PERCENT,
+    );
+    if (!fill) return null;
+
+    const { silverAmount, totalToman: tomanAmount, fee } = fill;
+    let profitLossToman: number | undefined;
+
+    if (action === "BUY") {
+      wallet.silverCost += tomanAmount + fee;
+    } else {
+      const costOfSold = wallet.silverCost * (silverAmount / silverBefore);
+      profitLossToman = tomanAmount - fee - costOfSold;
+      wallet.silverCost -= costOfSold;
+    }
+
+    this.userTradingService.applyTradeToSession(
+      settings,
+      action,
+      silverAmount,
+      tomanAmount,
+      currentPrice,
+    );
+
+    return {
+      time,
+      action,
+      silverAmount,
+      price: currentPrice,
+      tomanAmount,
+      fee,
+      confidence: decision.confidence,
+      reasoning: decision.reasoning,
+      profitLossToman,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import {
+  PriceSnapshot,
+  PriceSource,
+} from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { MarketDataSource } from "../price-fetcher/price-fetcher.service";
+import { Clock } from "../common/clock";
+import {
+  CandleSource,
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import {
+  Candle,
+  CANDLE_TIMEFRAME_MINUTES,
+  resampleCandles,
+} from "../candles/candle";
+
+/**
+ * In-memory market history that is replayed tick by tick.
+ * Acts as both the clock and the data source, so analysis only ever sees
+ * data that existed at the replayed moment.
+ */
+export class ReplayMarketData implements MarketDataSource, Clock {
+  private cursor: Date;
+
+  constructor(
+    private readonly ticks: NoghreseaPrice[], // Sorted by recordedAt ASC
+    private readonly snapshots: Map<PriceSource, PriceSnapshot[]>, // Sorted by fetchedAt ASC
+    private readonly premiums: PremiumSnapshot[] = [], // Sorted by recordedAt ASC
+  ) {
+    this.cursor = ticks.length > 0 ? ticks[0].recordedAt : new Date(0);
+  }
+
+  now(): Date {
+    return this.cursor;
+  }
+
+  advanceTo(time: Date) {
+    this.cursor = time;
+  }
+
+  async getRecentNoghreseaPrices(minutes: number): Promise<NoghreseaPrice[]> {
+    return this.window(this.ticks, minutes, (p) => p.recordedAt);
+  }
+
+  async getRecentSnapshots(
+    source: PriceSource,
+    minutes: number,
+  ): Promise<PriceSnapshot[]> {
+    return this.window(
+      this.snapshots.get(source) || [],
+      minutes,
+      (s) => s.fetchedAt,
+    );
+  }
+
+  async getRecentPremiums(minutes: number): Promise<PremiumSnapshot[]> {
+    return this.window(this.premiums, minutes, (p) => p.recordedAt);
+  }
+
+  /**
+   * Candles resampled on the fly from the replayed ticks and snapshots
+   */
+  async getRecentCandles(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    minutes: number,
+  ): Promise<Candle[]> {
+    const points =
+      source === NOGHRESEA_CANDLE_SOURCE
+        ? (await this.getRecentNoghreseaPrices(minutes)).map((p) => ({
+            price: Number(p.price),
+            time: p.recordedAt,
+          }))
+        : (await this.getRecentSnapshots(source, minutes)).map((s) => ({
+            price: Number(s.price),
+            time: s.fetchedAt,
+          }));
+    return resampleCandles(points, CANDLE_TIMEFRAME_MINUTES[timeframe]);
+  }
+
+  /**
+   * Latest known price for a source at the current replay time
+   */
+  getLatestSnapshotPrice(source: PriceSource): number | null {
+    const series = this.snapshots.get(source) || [];
+    const end = this.upperBound(series, this.cursor.getTime(), (s) =>
+      s.fetchedAt.getTime(),
+    );
+    return end > 0 ? Number(series[end - 1].price) : null;
+  }
+
+  // Rows in [now - minutes, now], newest first (same order as the live queries)
+  private window<T>(rows: T[], minutes: number, timeOf: (row: T) => Date): T[] {
+    const nowMs = this.cursor.getTime();
+    const sinceMs = nowMs - minutes * 60 * 1000;
+    const end = this.upperBound(rows, nowMs, (r) => timeOf(r).getTime());
+    const start = this.upperBound(rows, sinceMs - 1, (r) =>
+      timeOf(r).getTime(),
+    );
+    return rows.slice(start, end).reverse();
+  }
+
+  // Index of the first row with time > value
+  private upperBound<T>(
+    rows: T[],
+    value: number,
+    timeOf: (row: T) => number,
+  ): number {
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (timeOf(rows[mid]) <= value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
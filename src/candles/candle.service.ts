@@ -0,0 +1,214 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Between } from "typeorm";
+import {
+  PriceCandle,
+  CandleTimeframe,
+  CandleSource,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import { PriceSource } from "../database/entities/price-snapshot.entity";
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { EventBus } from "../events/event-bus.service";
+import {
+  Candle,
+  PricePoint,
+  CANDLE_TIMEFRAME_MINUTES,
+  aggregateCandles,
+  bucketStart,
+  fillCandleGaps,
+  resampleCandles,
+} from "./candle";
+
+/**
+ * Candles - OHLC aggregation of every price series at 1m/5m/15m/1h/1d
+ * Each fetched price updates the open candle of every timeframe in place
+ */
+@Injectable()
+export class CandleService implements OnModuleInit {
+  private readonly logger = new Logger(CandleService.name);
+  private readonly openCandles = new Map<string, PriceCandle>(); // source:timeframe -> open candle
+  private isRecording = false;
+
+  constructor(
+    @InjectRepository(PriceCandle)
+    private candleRepo: Repository<PriceCandle>,
+    private eventBus: EventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("PriceFetched", ({ prices }) => this.record(prices));
+  }
+
+  /**
+   * Fold the latest prices into the open candles and persist them
+   */
+  async record(prices: AllPrices) {
+    if (this.isRecording) return;
+    this.isRecording = true;
+
+    try {
+      const points: { source: CandleSource; price: number; time: Date }[] = [];
+      if (prices.noghresea?.price) {
+        points.push({
+          source: NOGHRESEA_CANDLE_SOURCE,
+          price: Number(prices.noghresea.price),
+          time: prices.noghresea.recordedAt,
+        });
+      }
+      if (prices.silverOunce && !prices.silverOunceEstimated) {
+        points.push({
+          source: PriceSource.SILVER_OUNCE,
+          price: prices.silverOunce,
+          time: prices.fetchedAt,
+        });
+      }
+      if (prices.goldOunce) {
+        points.push({
+          source: PriceSource.GOLD_OUNCE,
+          price: prices.goldOunce,
+          time: prices.fetchedAt,
+        });
+      }
+      if (prices.usdtToman) {
+        points.push({
+          source: PriceSource.USDT_TOMAN,
+          price: prices.usdtToman,
+          time: prices.fetchedAt,
+        });
+      }
+
+      const updated: PriceCandle[] = [];
+      for (const point of points) {
+        for (const timeframe of Object.values(CandleTimeframe)) {
+          const candle = await this.openCandle(
+            point.source,
+            timeframe,
+            bucketStart(point.time, CANDLE_TIMEFRAME_MINUTES[timeframe]),
+            point.price,
+          );
+          candle.high = Math.max(Number(candle.high), point.price);
+          candle.low = Math.min(Number(candle.low), point.price);
+          candle.close = point.price;
+          candle.tickCount = (candle.tickCount ?? 0) + 1;
+          updated.push(candle);
+        }
+      }
+
+      if (updated.length > 0) {
+        await this.candleRepo.save(updated);
+      }
+    } catch (error: any) {
+      this.logger.error(`Candle update failed: ${error.message}`);
+      this.openCandles.clear(); // Reload from the database next tick
+    } finally {
+      this.isRecording = false;
+    }
+  }
+
+  /**
+   * Build candles of every timeframe from historical points (e.g. raw ticks
+   * about to be purged). Candles that already exist are left untouched.
+   */
+  async importPoints(
+    source: CandleSource,
+    points: PricePoint[],
+  ): Promise<void> {
+    const minutes = resampleCandles(
+      points,
+      CANDLE_TIMEFRAME_MINUTES[CandleTimeframe.M1],
+    ).filter((c) => c.tickCount > 0);
+    if (minutes.length === 0) return;
+
+    const rows: Partial<PriceCandle>[] = [];
+    for (const timeframe of Object.values(CandleTimeframe)) {
+      for (const candle of aggregateCandles(
+        minutes,
+        CANDLE_TIMEFRAME_MINUTES[timeframe],
+      )) {
+        rows.push({ ...candle, source, timeframe });
+      }
+    }
+
+    await this.candleRepo
+      .createQueryBuilder()
+      .insert()
+      .values(rows)
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * Candles for a series in [from, to], oldest first, with gaps filled
+   */
+  async getCandles(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]> {
+    const rows = await this.candleRepo.find({
+      where: { source, timeframe, openTime: Between(from, to) },
+      order: { openTime: "ASC" },
+    });
+    return fillCandleGaps(
+      rows.map((row) => this.toCandle(row)),
+      CANDLE_TIMEFRAME_MINUTES[timeframe],
+    );
+  }
+
+  async getRecentCandles(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    minutes: number,
+  ): Promise<Candle[]> {
+    const now = new Date();
+    const since = bucketStart(
+      new Date(now.getTime() - minutes * 60 * 1000),
+      CANDLE_TIMEFRAME_MINUTES[timeframe],
+    );
+    return this.getCandles(source, timeframe, since, now);
+  }
+
+  // The in-memory open candle, or the stored one after a restart, or a new one
+  private async openCandle(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    openTime: Date,
+    price: number,
+  ): Promise<PriceCandle> {
+    const key = `${source}:${timeframe}`;
+    const cached = this.openCandles.get(key);
+    if (cached && cached.openTime.getTime() === openTime.getTime()) {
+      return cached;
+    }
+
+    const candle =
+      (await this.candleRepo.findOne({
+        where: { source, timeframe, openTime },
+      })) ??
+      this.candleRepo.create({
+        source,
+        timeframe,
+        openTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        tickCount: 0,
+      });
+    this.openCandles.set(key, candle);
+    return candle;
+  }
+
+  private toCandle(row: PriceCandle): Candle {
+    return {
+      openTime: row.openTime,
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      tickCount: row.tickCount,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  aggregateCandles,
+  bucketStart,
+  Candle,
+  fillCandleGaps,
+  resampleCandles,
+} from "./candle";
+
+const at = (iso: string) => new Date(iso);
+
+function flat(openTime: string, price: number, tickCount = 1): Candle {
+  return {
+    openTime: at(openTime),
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    tickCount,
+  };
+}
+
+describe("candle", () => {
+  describe("bucketStart", () => {
+    it("aligns intraday buckets to the interval", () => {
+      expect(bucketStart(at("2026-03-10T10:07:30Z"), 5)).toEqual(
+        at("2026-03-10T10:05:00Z"),
+      );
+      expect(bucketStart(at("2026-03-10T10:59:59Z"), 60)).toEqual(
+        at("2026-03-10T10:00:00Z"),
+      );
+    });
+
+    it("starts daily buckets at Tehran midnight", () => {
+      // 20:30 UTC is 00:00 in Tehran
+      expect(bucketStart(at("2026-03-10T20:29:00Z"), 24 * 60)).toEqual(
+        at("2026-03-09T20:30:00Z"),
+      );
+      expect(bucketStart(at("2026-03-10T20:30:00Z"), 24 * 60)).toEqual(
+        at("2026-03-10T20:30:00Z"),
+      );
+    });
+  });
+
+  describe("resampleCandles", () => {
+    it("builds OHLC candles from unordered points", () => {
+      const candles = resampleCandles(
+        [
+          { price: 12, time: at("2026-03-10T10:00:40Z") },
+          { price: 10, time: at("2026-03-10T10:00:10Z") },
+          { price: 9, time: at("2026-03-10T10:00:50Z") },
+          { price: 11, time: at("2026-03-10T10:01:05Z") },
+        ],
+        1,
+      );
+
+      expect(candles).toEqual([
+        {
+          openTime: at("2026-03-10T10:00:00Z"),
+          open: 10,
+          high: 12,
+          low: 9,
+          close: 9,
+          tickCount: 3,
+        },
+        flat("2026-03-10T10:01:00Z", 11),
+      ]);
+    });
+
+    it("carries the last close through minutes without points", () => {
+      const candles = resampleCandles(
+        [
+          { price: 10, time: at("2026-03-10T10:00:10Z") },
+          { price: 13, time: at("2026-03-10T10:03:10Z") },
+        ],
+        1,
+      );
+
+      expect(candles).toEqual([
+        flat("2026-03-10T10:00:00Z", 10),
+        flat("2026-03-10T10:01:00Z", 10, 0),
+        flat("2026-03-10T10:02:00Z", 10, 0),
+        flat("2026-03-10T10:03:00Z", 13),
+      ]);
+    });
+  });
+
+  describe("aggregateCandles", () => {
+    it("merges narrow candles into wider buckets", () => {
+      const minutes: Candle[] = [
+        { ...flat("2026-03-10T10:58:00Z", 10), high: 11 },
+        { ...flat("2026-03-10T10:59:00Z", 12), low: 8 },
+        flat("2026-03-10T11:00:00Z", 14, 2),
+      ];
+
+      expect(aggregateCandles(minutes, 60)).toEqual([
+        {
+          openTime: at("2026-03-10T10:00:00Z"),
+          open: 10,
+          high: 12,
+          low: 8,
+          close: 12,
+          tickCount: 2,
+        },
+        flat("2026-03-10T11:00:00Z", 14, 2),
+      ]);
+    });
+
+    it("groups into Tehran days", () => {
+      const days = aggregateCandles(
+        [
+          flat("2026-03-10T20:00:00Z", 10),
+          flat("2026-03-10T20:30:00Z", 11),
+          flat("2026-03-11T08:00:00Z", 12),
+        ],
+        24 * 60,
+      );
+
+      expect(days.map((c) => [c.openTime.toISOString(), c.close])).toEqual([
+        ["2026-03-09T20:30:00.000Z", 10],
+        ["2026-03-10T20:30:00.000Z", 12],
+      ]);
+    });
+  });
+
+  describe("fillCandleGaps", () => {
+    it("leaves contiguous candles alone", () => {
+      const candles = [
+        flat("2026-03-10T10:00:00Z", 10),
+        flat("2026-03-10T10:05:00Z", 11),
+      ];
+      expect(fillCandleGaps(candles, 5)).toEqual(candles);
+    });
+
+    it("fills every missing interval with a flat candle", () => {
+      const filled = fillCandleGaps(
+        [flat("2026-03-10T10:00:00Z", 10), flat("2026-03-10T10:15:00Z", 11)],
+        5,
+      );
+
+      const slots = filled.map((c) => [c.openTime.toISOString(), c.tickCount]);
+      expect(slots).toEqual([
+        ["2026-03-10T10:00:00.000Z", 1],
+        ["2026-03-10T10:05:00.000Z", 0],
+        ["2026-03-10T10:10:00.000Z", 0],
+        ["2026-03-10T10:15:00.000Z", 1],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { TEHRAN_UTC_OFFSET_MINUTES } from "../common/constants";
+import { CandleTimeframe } from "../database/entities/price-candle.entity";
+
+export interface Candle {
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  tickCount: number; // 0 for gap candles carried forward from the previous close
+}
+
+export interface PricePoint {
+  price: number;
+  time: Date;
+}
+
+export const CANDLE_TIMEFRAME_MINUTES: Record<CandleTimeframe, number> = {
+  [CandleTimeframe.M1]: 1,
+  [CandleTimeframe.M5]: 5,
+  [CandleTimeframe.M15]: 15,
+  [CandleTimeframe.H1]: 60,
+  [CandleTimeframe.D1]: 24 * 60,
+};
+
+/**
+ * Start of the bucket containing `time`.
+ * Daily buckets start at Tehran midnight; shorter ones are aligned to UTC,
+ * which is the same thing for every width that divides 30 minutes.
+ */
+export function bucketStart(time: Date, intervalMinutes: number): Date {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const offsetMs =
+    intervalMinutes >= 24 * 60 ? TEHRAN_UTC_OFFSET_MINUTES * 60 * 1000 : 0;
+  return new Date(
+    Math.floor((time.getTime() + offsetMs) / intervalMs) * intervalMs -
+      offsetMs,
+  );
+}
+
+/**
+ * Resample price points into fixed-width candles, oldest first.
+ * Accepts points in any order; intervals without points repeat the last close.
+ */
+export function resampleCandles(
+  points: PricePoint[],
+  intervalMinutes: number,
+): Candle[] {
+  const sorted = [...points].sort(
+    (a, b) => a.time.getTime() - b.time.getTime(),
+  );
+
+  const candles: Candle[] = [];
+  for (const point of sorted) {
+    const openTime = bucketStart(point.time, intervalMinutes);
+    const last = candles[candles.length - 1];
+
+    if (last && last.openTime.getTime() === openTime.getTime()) {
+      last.high = Math.max(last.high, point.price);
+      last.low = Math.min(last.low, point.price);
+      last.close = point.price;
+      last.tickCount++;
+    } else {
+      candles.push({
+        openTime,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        tickCount: 1,
+      });
+    }
+  }
+
+  return fillCandleGaps(candles, intervalMinutes);
+}
+
+/**
+ * Merge consecutive candles into wider ones (e.g. 1m → 1h), oldest first
+ */
+export function aggregateCandles(
+  candles: Candle[],
+  intervalMinutes: number,
+): Candle[] {
+  const merged: Candle[] = [];
+  for (const candle of candles) {
+    const openTime = bucketStart(candle.openTime, intervalMinutes);
+    const last = merged[merged.length - 1];
+
+    if (last && last.openTime.getTime() === openTime.getTime()) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.tickCount += candle.tickCount;
+    } else {
+      merged.push({ ...candle, openTime });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Insert flat candles for intervals without ticks so series are evenly spaced
+ */
+export function fillCandleGaps(
+  candles: Candle[],
+  intervalMinutes: number,
+): Candle[] {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const filled: Candle[] = [];
+
+  for (const candle of candles) {
+    let last = filled[filled.length - 1];
+    while (
+      last &&
+      last.openTime.getTime() + intervalMs < candle.openTime.getTime()
+    ) {
+      last = {
+        openTime: new Date(last.openTime.getTime() + intervalMs),
+        open: last.close,
+        high: last.close,
+        low: last.close,
+        close: last.close,
+        tickCount: 0,
+      };
+      filled.push(last);
+    }
+    filled.push(candle);
+  }
+
+  return filled;
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { CandleService } from "./candle.service";
+import { PriceCandle } from "../database/entities/price-candle.entity";
+import { EventsModule } from "../events/events.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PriceCandle]), EventsModule],
+  providers: [CandleService],
+  exports: [CandleService],
+})
+export class CandlesModule {}
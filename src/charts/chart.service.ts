@@ -0,0 +1,235 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Between, FindOptionsWhere } from "typeorm";
+import puppeteer, { Browser } from "puppeteer";
+import {
+  PatternEvent,
+  PatternType,
+} from "../database/entities/pattern-event.entity";
+import {
+  UserTradeHistory,
+  TradeSource,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+import {
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import { PriceSource } from "../database/entities/price-snapshot.entity";
+import { CandleService } from "../candles/candle.service";
+import { bucketStart, CANDLE_TIMEFRAME_MINUTES } from "../candles/candle";
+import { calculateFairValuePrice } from "../analysis/premium";
+import {
+  ChartMarker,
+  ChartRange,
+  CHART_HEIGHT,
+  CHART_RANGE_MINUTES,
+  CHART_WIDTH,
+  buildPriceChartSvg,
+} from "./price-chart";
+
+export interface PriceChartOptions {
+  chatId?: string; // Only this chat's trades; all chats when omitted
+  tradeSource?: TradeSource;
+}
+
+const CHART_TIMEFRAME: Record<ChartRange, CandleTimeframe> = {
+  "1h": CandleTimeframe.M1,
+  "1d": CandleTimeframe.M15,
+  "1w": CandleTimeframe.H1,
+};
+
+const BULLISH_PATTERNS = [
+  PatternType.MULTI_BULLISH,
+  PatternType.RECOVERY,
+  PatternType.DROP_BOTTOM,
+  PatternType.OVERSOLD,
+];
+const BEARISH_PATTERNS = [PatternType.MULTI_BEARISH, PatternType.OVERBOUGHT];
+
+const MAX_PATTERN_LABELS = 15; // Beyond this the labels overlap into noise
+
+/**
+ * Charts - Server-side PNG price charts for Telegram
+ * Charts are drawn as SVG and rasterised by a dedicated headless browser,
+ * separate from the Noghresea session so renders never queue behind API calls
+ */
+@Injectable()
+export class ChartService implements OnModuleDestroy {
+  private readonly logger = new Logger(ChartService.name);
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private renderQueue: Promise<any> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(PatternEvent)
+    private patternEventRepo: Repository<PatternEvent>,
+    @InjectRepository(UserTradeHistory)
+    private tradeHistoryRepo: Repository<UserTradeHistory>,
+    private candleService: CandleService,
+  ) {}
+
+  async onModuleDestroy() {
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+    }
+  }
+
+  /**
+   * Noghresea price over the range with patterns, executed trades and the
+   * international silver overlay, as a PNG
+   */
+  async renderPriceChart(
+    range: ChartRange,
+    options: PriceChartOptions = {},
+  ): Promise<Buffer> {
+    const timeframe = CHART_TIMEFRAME[range];
+    const to = new Date();
+    const from = bucketStart(
+      new Date(to.getTime() - CHART_RANGE_MINUTES[range] * 60 * 1000),
+      CANDLE_TIMEFRAME_MINUTES[timeframe],
+    );
+
+    const [candles, silverCandles, usdtCandles, events, trades] =
+      await Promise.all([
+        this.candleService.getCandles(
+          NOGHRESEA_CANDLE_SOURCE,
+          timeframe,
+          from,
+          to,
+        ),
+        this.candleService.getCandles(
+          PriceSource.SILVER_OUNCE,
+          timeframe,
+          from,
+          to,
+        ),
+        this.candleService.getCandles(
+          PriceSource.USDT_TOMAN,
+          timeframe,
+          from,
+          to,
+        ),
+        this.patternEventRepo.find({
+          where: { detectedAt: Between(from, to) },
+          order: { detectedAt: "ASC" },
+        }),
+        this.tradeHistoryRepo.find({
+          where: this.tradeFilter(from, to, options),
+          order: { executedAt: "ASC" },
+        }),
+      ]);
+
+    const usdtByTime = new Map(
+      usdtCandles.map((c) => [c.openTime.getTime(), c.close]),
+    );
+    const fairValue = silverCandles
+      .filter((c) => usdtByTime.has(c.openTime.getTime()))
+      .map((c) => ({
+        time: c.openTime,
+        price: calculateFairValuePrice(
+          c.close,
+          usdtByTime.get(c.openTime.getTime())!,
+        ),
+      }));
+
+    const patterns: ChartMarker[] = events.map((e) => ({
+      time: e.detectedAt,
+      price: Number(e.noghreseaPrice),
+      kind: BULLISH_PATTERNS.includes(e.patternType)
+        ? "BULLISH"
+        : BEARISH_PATTERNS.includes(e.patternType)
+          ? "BEARISH"
+          : "NEUTRAL",
+      label:
+        events.length <= MAX_PATTERN_LABELS
+          ? e.patternType.replace(/_/g, " ")
+          : undefined,
+    }));
+
+    const svg = buildPriceChartSvg({
+      title: `Noghresea silver - last ${range}`,
+      range,
+      from,
+      to,
+      prices: candles.map((c) => ({ time: c.openTime, price: c.close })),
+      fairValue,
+      patterns,
+      trades: trades.map((t) => ({
+        time: t.executedAt,
+        price: Number(t.pricePerGram),
+        kind: t.action,
+      })),
+    });
+
+    return this.renderSvg(svg);
+  }
+
+  private tradeFilter(
+    from: Date,
+    to: Date,
+    options: PriceChartOptions,
+  ): FindOptionsWhere<UserTradeHistory> {
+    const where: FindOptionsWhere<UserTradeHistory> = {
+      status: TradeStatus.EXECUTED,
+      executedAt: Between(from, to),
+    };
+    if (options.chatId) where.telegramChatId = options.chatId;
+    if (options.tradeSource) where.source = options.tradeSource;
+    return where;
+  }
+
+  // One render at a time; each gets a fresh page on the shared browser
+  private renderSvg(svg: string): Promise<Buffer> {
+    const render = this.renderQueue.then(async () => {
+      const browser = await this.getBrowser();
+      const page = await browser.newPage();
+      try {
+        await page.setViewport({
+          width: CHART_WIDTH,
+          height: CHART_HEIGHT,
+          deviceScaleFactor: 2,
+        });
+        await page.setContent(
+          `<html><body style="margin:0">${svg}</body></html>`,
+        );
+        const png = await page.screenshot({
+          type: "png",
+          clip: { x: 0, y: 0, width: CHART_WIDTH, height: CHART_HEIGHT },
+        });
+        return Buffer.from(png);
+      } finally {
+        await page.close();
+      }
+    });
+    this.renderQueue = render.catch(() => undefined);
+    return render;
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return this.browser;
+
+    if (!this.launching) {
+      this.logger.log("🖼️ Launching headless browser for chart rendering...");
+      this.launching = puppeteer
+        .launch({
+          headless: true,
+          args: [
+            "--no-sandbox",
+            "--disable-setuid-sandbox",
+            "--disable-dev-shm-usage",
+            "--disable-gpu",
+          ],
+        })
+        .then((browser) => {
+          this.browser = browser;
+          return browser;
+        })
+        .finally(() => {
+          this.launching = null;
+        });
+    }
+    return this.launching;
+  }
+}
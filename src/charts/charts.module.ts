@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ChartService } from "./chart.service";
+import { PatternEvent } from "../database/entities/pattern-event.entity";
+import { UserTradeHistory } from "../database/entities/user-trade-history.entity";
+import { CandlesModule } from "../candles/candles.module";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PatternEvent, UserTradeHistory]),
+    CandlesModule,
+  ],
+  providers: [ChartService],
+  exports: [ChartService],
+})
+export class ChartsModule {}
@@ -0,0 +1,270 @@
+import { TEHRAN_UTC_OFFSET_MINUTES } from "../common/constants";
+import { PricePoint } from "../candles/candle";
+
+export type ChartRange = "1h" | "1d" | "1w";
+
+export const CHART_RANGE_MINUTES: Record<ChartRange, number> = {
+  "1h": 60,
+  "1d": 24 * 60,
+  "1w": 7 * 24 * 60,
+};
+
+export interface ChartMarker {
+  time: Date;
+  price: number;
+  kind: "BUY" | "SELL" | "BULLISH" | "BEARISH" | "NEUTRAL";
+  label?: string;
+}
+
+export interface PriceChartData {
+  title: string;
+  range: ChartRange;
+  from: Date;
+  to: Date;
+  prices: PricePoint[]; // Noghresea closes
+  fairValue: PricePoint[]; // International silver in the Noghresea unit
+  patterns: ChartMarker[];
+  trades: ChartMarker[];
+}
+
+export const CHART_WIDTH = 960;
+export const CHART_HEIGHT = 540;
+
+const PADDING = { top: 56, right: 24, bottom: 64, left: 84 };
+const Y_TICKS = 5;
+const X_TICKS = 6;
+
+const COLORS = {
+  background: "#ffffff",
+  grid: "#e5e7eb",
+  axis: "#6b7280",
+  text: "#111827",
+  price: "#2563eb",
+  fairValue: "#9ca3af",
+  BUY: "#16a34a",
+  SELL: "#dc2626",
+  BULLISH: "#16a34a",
+  BEARISH: "#dc2626",
+  NEUTRAL: "#f59e0b",
+};
+
+/**
+ * Render a price chart as a standalone SVG document.
+ * Pattern events are drawn as dots above the line, executed trades as
+ * triangles (▲ buy, ▼ sell); times on the x axis are Tehran time.
+ */
+export function buildPriceChartSvg(data: PriceChartData): string {
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const values = [
+    ...data.prices,
+    ...data.fairValue,
+    ...data.patterns,
+    ...data.trades,
+  ].map((p) => p.price);
+  let min = values.length > 0 ? Math.min(...values) : 0;
+  let max = values.length > 0 ? Math.max(...values) : 1;
+  if (max === min) {
+    min -= 1;
+    max += 1;
+  }
+  const margin = (max - min) * 0.05;
+  min -= margin;
+  max += margin;
+
+  const fromMs = data.from.getTime();
+  const spanMs = Math.max(data.to.getTime() - fromMs, 1);
+  const x = (time: Date) =>
+    PADDING.left + ((time.getTime() - fromMs) / spanMs) * plotWidth;
+  const y = (price: number) =>
+    PADDING.top + ((max - price) / (max - min)) * plotHeight;
+
+  const parts: string[] = [];
+  parts.push(
+    `<rect width="${CHART_WIDTH}" height="${CHART_HEIGHT}" fill="${COLORS.background}"/>`,
+    text(PADDING.left, 30, data.title, { size: 18, weight: "bold" }),
+  );
+
+  // Grid and axis labels
+  for (let i = 0; i <= Y_TICKS; i++) {
+    const price = min + ((max - min) * i) / Y_TICKS;
+    const py = y(price).toFixed(1);
+    parts.push(
+      `<line x1="${PADDING.left}" x2="${CHART_WIDTH - PADDING.right}" y1="${py}" y2="${py}" stroke="${COLORS.grid}"/>`,
+      text(PADDING.left - 8, Number(py) + 4, formatPrice(price), {
+        anchor: "end",
+        color: COLORS.axis,
+      }),
+    );
+  }
+  for (let i = 0; i <= X_TICKS; i++) {
+    const time = new Date(fromMs + (spanMs * i) / X_TICKS);
+    const px = x(time).toFixed(1);
+    parts.push(
+      `<line x1="${px}" x2="${px}" y1="${PADDING.top}" y2="${PADDING.top + plotHeight}" stroke="${COLORS.grid}"/>`,
+      text(
+        Number(px),
+        PADDING.top + plotHeight + 20,
+        formatTime(time, data.range),
+        { anchor: "middle", color: COLORS.axis },
+      ),
+    );
+  }
+
+  // Series
+  if (data.fairValue.length > 1) {
+    parts.push(
+      polyline(
+        data.fairValue,
+        x,
+        y,
+        COLORS.fairValue,
+        'stroke-dasharray="6 4"',
+      ),
+    );
+  }
+  if (data.prices.length > 1) {
+    parts.push(polyline(data.prices, x, y, COLORS.price, 'stroke-width="2"'));
+  }
+
+  // Markers
+  for (const marker of data.patterns) {
+    const px = x(marker.time);
+    const py = y(marker.price);
+    parts.push(
+      `<circle cx="${px.toFixed(1)}" cy="${py.toFixed(1)}" r="4" fill="${COLORS[marker.kind]}" stroke="#fff"/>`,
+    );
+    if (marker.label) {
+      parts.push(
+        text(px, py - 10, marker.label, {
+          anchor: "middle",
+          size: 10,
+          color: COLORS[marker.kind],
+        }),
+      );
+    }
+  }
+  for (const marker of data.trades) {
+    const px = x(marker.time);
+    const py = y(marker.price);
+    const points =
+      marker.kind === "BUY"
+        ? [
+            [px, py - 2],
+            [px - 7, py + 11],
+            [px + 7, py + 11],
+          ]
+        : [
+            [px, py + 2],
+            [px - 7, py - 11],
+            [px + 7, py - 11],
+          ];
+    parts.push(
+      `<polygon points="${points.map((p) => p.map((v) => v.toFixed(1)).join(",")).join(" ")}" fill="${COLORS[marker.kind]}" stroke="#fff"/>`,
+    );
+  }
+
+  // Legend
+  const legendY = CHART_HEIGHT - 18;
+  parts.push(
+    legendLine(PADDING.left, legendY, COLORS.price, "Noghresea"),
+    legendLine(
+      PADDING.left + 130,
+      legendY,
+      COLORS.fairValue,
+      "Intl. silver (Toman)",
+      'stroke-dasharray="6 4"',
+    ),
+    `<circle cx="${PADDING.left + 320}" cy="${legendY - 4}" r="4" fill="${COLORS.NEUTRAL}"/>`,
+    text(PADDING.left + 330, legendY, "Pattern"),
+    `<polygon points="${PADDING.left + 410},${legendY - 10} ${PADDING.left + 404},${legendY + 1} ${PADDING.left + 416},${legendY + 1}" fill="${COLORS.BUY}"/>`,
+    text(PADDING.left + 422, legendY, "Buy"),
+    `<polygon points="${PADDING.left + 470},${legendY + 1} ${PADDING.left + 464},${legendY - 10} ${PADDING.left + 476},${legendY - 10}" fill="${COLORS.SELL}"/>`,
+    text(PADDING.left + 482, legendY, "Sell"),
+  );
+
+  if (data.prices.length === 0) {
+    parts.push(
+      text(
+        PADDING.left + plotWidth / 2,
+        PADDING.top + plotHeight / 2,
+        "No price data in this range",
+        { anchor: "middle", size: 16, color: COLORS.axis },
+      ),
+    );
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${CHART_HEIGHT}" ` +
+    `font-family="DejaVu Sans, Arial, sans-serif">${parts.join("")}</svg>`
+  );
+}
+
+function polyline(
+  points: PricePoint[],
+  x: (time: Date) => number,
+  y: (price: number) => number,
+  color: string,
+  extra = "",
+): string {
+  const coords = points
+    .map((p) => `${x(p.time).toFixed(1)},${y(p.price).toFixed(1)}`)
+    .join(" ");
+  return `<polyline points="${coords}" fill="none" stroke="${color}" ${extra}/>`;
+}
+
+function legendLine(
+  px: number,
+  py: number,
+  color: string,
+  label: string,
+  extra = "",
+): string {
+  return (
+    `<line x1="${px}" x2="${px + 24}" y1="${py - 4}" y2="${py - 4}" stroke="${color}" stroke-width="2" ${extra}/>` +
+    text(px + 30, py, label)
+  );
+}
+
+function text(
+  px: number,
+  py: number,
+  content: string,
+  options: {
+    anchor?: "start" | "middle" | "end";
+    size?: number;
+    weight?: string;
+    color?: string;
+  } = {},
+): string {
+  return (
+    `<text x="${px.toFixed(1)}" y="${py.toFixed(1)}" font-size="${options.size ?? 12}" ` +
+    `text-anchor="${options.anchor ?? "start"}" font-weight="${options.weight ?? "normal"}" ` +
+    `fill="${options.color ?? COLORS.text}">${escapeXml(content)}</text>`
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatPrice(price: number): string {
+  return price >= 1000
+    ? Math.round(price).toLocaleString("en-US")
+    : price.toFixed(price >= 100 ? 1 : 2);
+}
+
+// Tehran wall-clock time; the week view shows dates, shorter ranges hours
+function formatTime(time: Date, range: ChartRange): string {
+  const iso = new Date(
+    time.getTime() + TEHRAN_UTC_OFFSET_MINUTES * 60 * 1000,
+  ).toISOString();
+  return range === "1w"
+    ? `${iso.slice(5, 10)} ${iso.slice(11, 16)}`
+    : iso.slice(11, 16);
+}
@@ -0,0 +1,12 @@
+/**
+ * Source of "now" for time-windowed analysis.
+ * Live code uses the system clock; the backtester replays history with its own.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/** Wall-clock time */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
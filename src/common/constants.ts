@@ -22,3 +22,6 @@ export const BROWSER_TIMEOUT_MS = 30000;
 
 /** Delay after solving ArvanCloud challenge */
 export const ARVAN_CHALLENGE_DELAY_MS = 3000;
+
+/** Iran Standard Time is UTC+03:30 (no daylight saving since 2022) */
+export const TEHRAN_UTC_OFFSET_MINUTES = 210;
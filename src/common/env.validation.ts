@@ -5,6 +5,7 @@ import {
   IsNumber,
   validateSync,
   IsIn,
+  Matches,
 } from "class-validator";
 
 class EnvironmentVariables {
@@ -15,6 +16,10 @@ class EnvironmentVariables {
   @IsOptional()
   TELEGRAM_CHAT_ID?: string;
 
+  @IsString()
+  @IsOptional()
+  TELEGRAM_ADMIN_CHAT_IDS?: string;
+
   @IsString()
   OPENAI_API_KEY: string;
 
@@ -50,6 +55,55 @@ class EnvironmentVariables {
   @IsString()
   @IsOptional()
   GOLD_API_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  @IsIn(["browser", "http"])
+  NOGHRESEA_TRANSPORT?: string;
+
+  @IsString()
+  @IsOptional()
+  API_KEYS?: string;
+
+  @IsNumber()
+  @IsOptional()
+  RETENTION_RAW_DAYS?: number;
+
+  @IsNumber()
+  @IsOptional()
+  RETENTION_PATTERN_DAYS?: number;
+
+  @IsNumber()
+  @IsOptional()
+  RETENTION_MINUTE_CANDLE_DAYS?: number;
+
+  @IsString()
+  @IsOptional()
+  RETENTION_ARCHIVE_DIR?: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^\d+(,\d+)*$/, {
+    message:
+      "PREDICTION_EVAL_HORIZONS must be comma-separated minutes, e.g. 60,240",
+  })
+  PREDICTION_EVAL_HORIZONS?: string;
+
+  @IsNumber()
+  @IsOptional()
+  TOKEN_EXPIRY_WARN_HOURS?: number;
+
+  @IsString()
+  @IsOptional()
+  TOKEN_ENCRYPTION_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  TOKEN_ENCRYPTION_PREVIOUS_KEYS?: string;
+
+  @IsString()
+  @IsOptional()
+  TOKEN_ENCRYPTION_KEY_FILE?: string;
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  decryptToken,
+  encryptToken,
+  generateTokenKey,
+  isEncryptedToken,
+  loadTokenKeyring,
+  rewrapToken,
+} from "./token-crypto";
+
+function envOf(vars: Record<string, string>) {
+  return (name: string) => vars[name];
+}
+
+describe("token-crypto", () => {
+  const oldKey = generateTokenKey();
+  const newKey = generateTokenKey();
+
+  it("round-trips a token without storing it in clear", () => {
+    const keyring = loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: oldKey }));
+    const stored = encryptToken("Bearer abc.def", keyring);
+
+    expect(isEncryptedToken(stored)).toBe(true);
+    expect(stored).not.toContain("abc.def");
+    expect(decryptToken(stored, keyring)).toBe("Bearer abc.def");
+  });
+
+  it("returns legacy plain-text tokens as they are", () => {
+    const keyring = loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: oldKey }));
+    expect(decryptToken("Bearer plain", keyring)).toBe("Bearer plain");
+  });
+
+  it("re-wraps under a new master key, keeping the token ciphertext", () => {
+    const before = loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: oldKey }));
+    const after = loadTokenKeyring(
+      envOf({
+        TOKEN_ENCRYPTION_KEY: newKey,
+        TOKEN_ENCRYPTION_PREVIOUS_KEYS: oldKey,
+      }),
+    );
+    const stored = encryptToken("Bearer abc.def", before);
+
+    const rewrapped = rewrapToken(stored, after);
+
+    expect(rewrapped).not.toBe(stored);
+    expect(rewrapped.split(":").pop()).toBe(stored.split(":").pop());
+    expect(rewrapToken(rewrapped, after)).toBe(rewrapped);
+    expect(decryptToken(rewrapped, after)).toBe("Bearer abc.def");
+  });
+
+  it("refuses a token wrapped with a key it no longer has", () => {
+    const before = loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: oldKey }));
+    const after = loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: newKey }));
+    const stored = encryptToken("Bearer abc.def", before);
+
+    expect(() => decryptToken(stored, after)).toThrow(/unknown key/);
+  });
+
+  it("rejects keys that are not 32 bytes", () => {
+    expect(() =>
+      loadTokenKeyring(envOf({ TOKEN_ENCRYPTION_KEY: "c2hvcnQ=" })),
+    ).toThrow(/32 bytes/);
+  });
+
+  describe("key file", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "token-key-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("creates a missing key file and reuses it", () => {
+      const keyFile = path.join(dir, "keys", "token.key");
+      const env = envOf({ TOKEN_ENCRYPTION_KEY_FILE: keyFile });
+
+      const first = loadTokenKeyring(env);
+      const second = loadTokenKeyring(env);
+
+      expect(first.source).toBe("file");
+      expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+      expect(second.current.id).toBe(first.current.id);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Envelope encryption for Noghresea access tokens at rest.
+ *
+ * Each token is encrypted with its own random data key (AES-256-GCM) and
+ * the data key is wrapped with the master key. Rotating the master key only
+ * re-wraps data keys; token ciphertexts never change.
+ *
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<token ciphertext>
+ * (both blobs base64 of iv | auth tag | ciphertext)
+ */
+
+export const ENCRYPTED_TOKEN_PREFIX = "enc:v1:";
+export const DEFAULT_TOKEN_KEY_FILE = "keys/token.key";
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface TokenKeyring {
+  current: MasterKey;
+  keys: Map<string, Buffer>; // keyId -> key, current and previous
+  source: "env" | "file";
+  keyFile?: string;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+type EnvGetter = (name: string) => string | undefined;
+
+/**
+ * Master keys from TOKEN_ENCRYPTION_KEY (+ TOKEN_ENCRYPTION_PREVIOUS_KEYS),
+ * otherwise from the key file (first line current, the rest previous).
+ * A missing key file is created with a fresh key.
+ */
+export function loadTokenKeyring(env: EnvGetter): TokenKeyring {
+  const envKey = env("TOKEN_ENCRYPTION_KEY");
+  if (envKey) {
+    const previous = (env("TOKEN_ENCRYPTION_PREVIOUS_KEYS") ?? "")
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean);
+    return buildKeyring([envKey, ...previous], "env");
+  }
+
+  const keyFile = path.resolve(
+    env("TOKEN_ENCRYPTION_KEY_FILE") || DEFAULT_TOKEN_KEY_FILE,
+  );
+  if (!fs.existsSync(keyFile)) {
+    writeKeyFile(keyFile, [generateTokenKey()]);
+  }
+  const lines = fs
+    .readFileSync(keyFile, "utf8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return { ...buildKeyring(lines, "file"), keyFile };
+}
+
+/** New random master key, base64 */
+export function generateTokenKey(): string {
+  return randomBytes(KEY_BYTES).toString("base64");
+}
+
+export function writeKeyFile(keyFile: string, keys: string[]) {
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, keys.join("\n") + "\n", { mode: 0o600 });
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(ENCRYPTED_TOKEN_PREFIX);
+}
+
+export function encryptToken(token: string, keyring: TokenKeyring): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  const payload = seal(dataKey, Buffer.from(token, "utf8"));
+  return format(keyring.current, seal(keyring.current.key, dataKey), payload);
+}
+
+/**
+ * Decrypt a stored token. Values without the prefix are legacy plain text
+ * and returned as-is.
+ */
+export function decryptToken(value: string, keyring: TokenKeyring): string {
+  if (!isEncryptedToken(value)) return value;
+
+  const { dataKey, payload } = unwrap(value, keyring);
+  return open(dataKey, payload).toString("utf8");
+}
+
+/**
+ * Re-wrap the data key under the current master key (plain text is encrypted)
+ */
+export function rewrapToken(value: string, keyring: TokenKeyring): string {
+  if (!isEncryptedToken(value)) return encryptToken(value, keyring);
+
+  const { keyId, dataKey, payload } = unwrap(value, keyring);
+  if (keyId === keyring.current.id) return value;
+  return format(keyring.current, seal(keyring.current.key, dataKey), payload);
+}
+
+function buildKeyring(
+  encodedKeys: string[],
+  source: TokenKeyring["source"],
+): TokenKeyring {
+  const keys = new Map<string, Buffer>();
+  let current: MasterKey | null = null;
+
+  for (const encoded of encodedKeys) {
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== KEY_BYTES) {
+      throw new Error(
+        `Token encryption keys must be ${KEY_BYTES} bytes, base64 encoded`,
+      );
+    }
+    const id = fingerprint(key);
+    keys.set(id, key);
+    current ??= { id, key };
+  }
+
+  if (!current) throw new Error("No token encryption key configured");
+  return { current, keys, source };
+}
+
+// Short fingerprint stored with each token so the right master key is used
+function fingerprint(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").substring(0, 8);
+}
+
+function format(master: MasterKey, wrappedKey: string, payload: string) {
+  return `${ENCRYPTED_TOKEN_PREFIX}${master.id}:${wrappedKey}:${payload}`;
+}
+
+function unwrap(value: string, keyring: TokenKeyring) {
+  const [keyId, wrappedKey, payload] = value
+    .substring(ENCRYPTED_TOKEN_PREFIX.length)
+    .split(":");
+  const master = keyring.keys.get(keyId);
+  if (!master || !wrappedKey || !payload) {
+    throw new Error(`Token encrypted with unknown key ${keyId}`);
+  }
+  return { keyId, dataKey: open(master, wrappedKey), payload };
+}
+
+function seal(key: Buffer, plain: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64",
+  );
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    raw.subarray(0, IV_BYTES),
+  );
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum AccountLinkStatus {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  REVOKED = "REVOKED",
+}
+
+/**
+ * Account Link - Which Noghresea account (phone) a Telegram chat may trade
+ * A chat only ever uses the token of its approved link; at most one
+ * approved link per chat
+ */
+@Entity("account_links")
+@Index(["telegramChatId", "phoneNumber"], { unique: true })
+@Index(["status"])
+export class AccountLink {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ name: "telegram_chat_id" })
+  telegramChatId!: string;
+
+  @Column({ name: "phone_number" })
+  phoneNumber!: string;
+
+  @Column({
+    type: "enum",
+    enum: AccountLinkStatus,
+    default: AccountLinkStatus.PENDING,
+  })
+  status!: AccountLinkStatus;
+
+  // Admin chat that decided, "admin" for self-links of admins,
+  // or "migration" for links that existed before linking was introduced
+  @Column({ type: "varchar", name: "decided_by", nullable: true })
+  decidedBy!: string | null;
+
+  @Column({ type: "timestamp", name: "decided_at", nullable: true })
+  decidedAt!: Date | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  updatedAt!: Date;
+}
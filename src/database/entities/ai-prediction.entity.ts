@@ -138,7 +138,7 @@ export class AiPrediction {
     name: "actual_price_after_5min",
     nullable: true,
   })
-  actualPriceAfter5min!: number;
+  actualPriceAfter5min!: number | null;
 
   @Column({
     type: "decimal",
@@ -147,11 +147,18 @@ export class AiPrediction {
     name: "actual_price_after_10min",
     nullable: true,
   })
-  actualPriceAfter10min!: number;
+  actualPriceAfter10min!: number | null;
 
   @Column({ name: "was_prediction_correct", nullable: true })
   wasPredictionCorrect!: boolean;
 
+  // Longer horizons: minutes after prediction -> price (null if no tick found)
+  @Column({ type: "jsonb", name: "actual_prices", nullable: true })
+  actualPrices!: Record<string, number | null> | null;
+
+  @Column({ type: "timestamp", name: "outcome_evaluated_at", nullable: true })
+  outcomeEvaluatedAt!: Date | null;
+
   @CreateDateColumn({ name: "created_at" })
   createdAt!: Date;
 
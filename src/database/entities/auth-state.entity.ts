@@ -22,7 +22,11 @@ export class AuthState {
   accessToken: string;
 
   @Column({ type: "timestamp", name: "token_expires_at", nullable: true })
-  tokenExpiresAt: Date;
+  tokenExpiresAt: Date | null;
+
+  // When the "about to expire" reminder went out for the current token
+  @Column({ type: "timestamp", name: "expiry_warned_at", nullable: true })
+  expiryWarnedAt: Date | null;
 
   @Column({ name: "is_valid", default: false })
   isValid: boolean;
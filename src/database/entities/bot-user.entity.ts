@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+export enum BotUserStatus {
+  PENDING = "PENDING", // Asked for access, waiting for an admin
+  APPROVED = "APPROVED",
+  REVOKED = "REVOKED", // Denied or revoked; further requests are ignored
+}
+
+export enum BotUserRole {
+  VIEWER = "VIEWER", // Status, History and AI Analyzer only
+  TRADER = "TRADER", // Trades their own linked account
+  ADMIN = "ADMIN", // Starts/stops the global bot and manages users
+}
+
+/**
+ * Bot User - Allow-list entry for a Telegram chat
+ * Only approved chats (and the configured admins) can use the bot
+ */
+@Entity("bot_users")
+export class BotUser {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ name: "telegram_chat_id", unique: true })
+  telegramChatId!: string;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  username!: string | null;
+
+  @Column({
+    type: "varchar",
+    length: 128,
+    name: "display_name",
+    nullable: true,
+  })
+  displayName!: string | null;
+
+  @Column({ type: "enum", enum: BotUserStatus, default: BotUserStatus.PENDING })
+  status!: BotUserStatus;
+
+  // Chats approved before roles existed keep trading
+  @Column({ type: "enum", enum: BotUserRole, default: BotUserRole.TRADER })
+  role!: BotUserRole;
+
+  // Admin chat that approved/revoked, or "migration" for pre-existing users
+  @Column({ type: "varchar", name: "decided_by", nullable: true })
+  decidedBy!: string | null;
+
+  @Column({ type: "timestamp", name: "decided_at", nullable: true })
+  decidedAt!: Date | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  updatedAt!: Date;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * DCA Plan - Recurring buy of a fixed Toman amount per chat
+ * Each period can be split into tranches spread over a window
+ */
+@Entity("dca_plans")
+@Index(["telegramChatId"])
+@Index(["enabled", "nextRunAt"])
+export class DcaPlan {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ name: "telegram_chat_id" })
+  telegramChatId!: string;
+
+  // Total spent per period, split evenly across tranches
+  @Column({ type: "decimal", precision: 20, scale: 2, name: "amount_toman" })
+  amountToman!: number;
+
+  @Column({ type: "varchar", length: 10 })
+  frequency!: "daily" | "weekly";
+
+  // 0 = Sunday ... 6 = Saturday (Tehran), weekly plans only
+  @Column({ name: "day_of_week", type: "int", nullable: true })
+  dayOfWeek!: number | null;
+
+  // "HH:MM" Tehran time
+  @Column({ name: "time_of_day", type: "varchar", length: 5 })
+  timeOfDay!: string;
+
+  @Column({ type: "int", default: 1 })
+  tranches!: number;
+
+  // Window the tranches are spread over, starting at timeOfDay
+  @Column({ name: "spread_minutes", type: "int", default: 0 })
+  spreadMinutes!: number;
+
+  // Skip rules (null = off)
+  @Column({ name: "skip_above_average_days", type: "int", nullable: true })
+  skipAboveAverageDays!: number | null;
+
+  @Column({
+    type: "decimal",
+    precision: 12,
+    scale: 2,
+    name: "max_price",
+    nullable: true,
+  })
+  maxPrice!: number | null;
+
+  @Column({ default: true })
+  enabled!: boolean;
+
+  // Next tranche due and its position within the current period
+  @Column({ type: "timestamp", name: "next_run_at" })
+  nextRunAt!: Date;
+
+  @Column({ name: "tranche_index", type: "int", default: 0 })
+  trancheIndex!: number;
+
+  @Column({ type: "timestamp", name: "last_run_at", nullable: true })
+  lastRunAt!: Date | null;
+
+  @Column({ type: "text", name: "last_result", nullable: true })
+  lastResult!: string | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+}
@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { UserTradeHistory, TradeSource } from "./user-trade-history.entity";
+
+export enum LimitOrderStatus {
+  OPEN = "OPEN", // Resting on Noghresea (or in the paper book)
+  FILLED = "FILLED",
+  CANCELLED = "CANCELLED",
+  EXPIRED = "EXPIRED",
+  FAILED = "FAILED",
+}
+
+/**
+ * Limit Order - Resting order at a target price with optional expiry
+ * Linked to the user trade history row created when it fills
+ */
+@Entity("limit_orders")
+@Index(["telegramChatId", "status"])
+@Index(["status", "expiresAt"])
+export class LimitOrder {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ name: "telegram_chat_id" })
+  telegramChatId!: string;
+
+  @Column({ type: "varchar", length: 10 })
+  action!: "BUY" | "SELL";
+
+  @Column({ type: "decimal", precision: 12, scale: 4, name: "silver_amount" })
+  silverAmount!: number;
+
+  // Same unit as UserTradeHistory.pricePerGram (Noghresea API price)
+  @Column({ type: "decimal", precision: 12, scale: 2, name: "target_price" })
+  targetPrice!: number;
+
+  @Column({
+    type: "enum",
+    enum: LimitOrderStatus,
+    default: LimitOrderStatus.OPEN,
+  })
+  status!: LimitOrderStatus;
+
+  // Where the order was placed; copied to the trade on fill
+  @Column({ type: "enum", enum: TradeSource, default: TradeSource.MANUAL })
+  source!: TradeSource;
+
+  // Paper orders rest locally and fill when the market crosses the target
+  @Column({ name: "is_paper", default: false })
+  isPaper!: boolean;
+
+  @Column({ name: "noghresea_order_id", nullable: true })
+  noghreseaOrderId!: string;
+
+  @Column({ name: "trade_id", nullable: true })
+  tradeId!: string;
+
+  @ManyToOne(() => UserTradeHistory, { nullable: true })
+  @JoinColumn({ name: "trade_id" })
+  trade!: UserTradeHistory;
+
+  @Column({ type: "timestamp", name: "expires_at", nullable: true })
+  expiresAt!: Date | null;
+
+  @Column({ type: "timestamp", name: "closed_at", nullable: true })
+  closedAt!: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  notes!: string;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+}
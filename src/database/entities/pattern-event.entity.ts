@@ -14,6 +14,8 @@ export enum PatternType {
   SUDDEN_DROP = "SUDDEN_DROP",
   SUDDEN_SPIKE = "SUDDEN_SPIKE",
   DROP_BOTTOM = "DROP_BOTTOM", // First rise after multiple drops - BUY signal
+  OVERSOLD = "OVERSOLD", // RSI low and price at/below the lower Bollinger band
+  OVERBOUGHT = "OVERBOUGHT", // RSI high and price at/above the upper Bollinger band
 }
 
 @Entity("pattern_events")
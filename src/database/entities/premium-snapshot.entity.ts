@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Premium Snapshot - Noghresea versus international silver, one row per cycle
+ * Only recorded when a real (non-estimated) silver price is available
+ */
+@Entity("premium_snapshots")
+@Index(["recordedAt"])
+export class PremiumSnapshot {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "decimal", precision: 10, scale: 4, name: "noghresea_price" })
+  noghreseaPrice!: number;
+
+  @Column({ type: "decimal", precision: 20, scale: 6, name: "silver_ounce" })
+  silverOunce!: number;
+
+  @Column({ type: "decimal", precision: 20, scale: 2, name: "usdt_toman" })
+  usdtToman!: number;
+
+  // International silver in the Noghresea API unit (price at zero premium)
+  @Column({
+    type: "decimal",
+    precision: 10,
+    scale: 4,
+    name: "fair_value_price",
+  })
+  fairValuePrice!: number;
+
+  @Column({
+    type: "decimal",
+    precision: 10,
+    scale: 4,
+    name: "premium_percent",
+  })
+  premiumPercent!: number;
+
+  @Column({ type: "timestamp", name: "recorded_at" })
+  recordedAt!: Date;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+}
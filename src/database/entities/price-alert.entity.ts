@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum AlertMetric {
+  PRICE = "PRICE", // Noghresea price (API unit)
+  CHANGE_24H = "CHANGE_24H", // Noghresea 24h change, %
+  PREMIUM = "PREMIUM", // Premium to international silver, %
+  USDT_MOVE = "USDT_MOVE", // Absolute USDT/Toman move over windowMinutes, %
+}
+
+/**
+ * Price Alert - User-defined market condition checked every cycle
+ * Fires when the condition becomes true; one-shot alerts then deactivate
+ */
+@Entity("price_alerts")
+@Index(["telegramChatId"])
+@Index(["active"])
+export class PriceAlert {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ name: "telegram_chat_id" })
+  telegramChatId!: string;
+
+  @Column({ type: "enum", enum: AlertMetric })
+  metric!: AlertMetric;
+
+  @Column({ type: "varchar", length: 10 })
+  direction!: "above" | "below";
+
+  @Column({ type: "decimal", precision: 14, scale: 4 })
+  threshold!: number;
+
+  // Lookback for USDT_MOVE
+  @Column({ name: "window_minutes", type: "int", nullable: true })
+  windowMinutes!: number | null;
+
+  // Recurring alerts re-arm once the condition clears
+  @Column({ default: false })
+  recurring!: boolean;
+
+  @Column({ default: true })
+  active!: boolean;
+
+  // Condition was true on the last evaluation (edge detection)
+  @Column({ name: "condition_met", default: false })
+  conditionMet!: boolean;
+
+  @Column({ type: "timestamp", name: "last_triggered_at", nullable: true })
+  lastTriggeredAt!: Date | null;
+
+  @Column({
+    type: "decimal",
+    precision: 14,
+    scale: 4,
+    name: "last_value",
+    nullable: true,
+  })
+  lastValue!: number | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt!: Date;
+}
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { PriceSource } from "./price-snapshot.entity";
+
+export enum CandleTimeframe {
+  M1 = "1m",
+  M5 = "5m",
+  M15 = "15m",
+  H1 = "1h",
+  D1 = "1d", // Tehran calendar day
+}
+
+export const NOGHRESEA_CANDLE_SOURCE = "NOGHRESEA";
+export type CandleSource = typeof NOGHRESEA_CANDLE_SOURCE | PriceSource;
+
+/**
+ * Price Candle - OHLC aggregate of one price series over one interval
+ * The open candle of each series is updated in place on every tick
+ */
+@Entity("price_candles")
+@Index(["source", "timeframe", "openTime"], { unique: true })
+export class PriceCandle {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar", length: 20 })
+  source!: CandleSource;
+
+  @Column({ type: "enum", enum: CandleTimeframe })
+  timeframe!: CandleTimeframe;
+
+  @Column({ type: "timestamp", name: "open_time" })
+  openTime!: Date;
+
+  @Column({ type: "decimal", precision: 20, scale: 6 })
+  open!: number;
+
+  @Column({ type: "decimal", precision: 20, scale: 6 })
+  high!: number;
+
+  @Column({ type: "decimal", precision: 20, scale: 6 })
+  low!: number;
+
+  @Column({ type: "decimal", precision: 20, scale: 6 })
+  close!: number;
+
+  @Column({ type: "int", name: "tick_count", default: 0 })
+  tickCount!: number;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  updatedAt!: Date;
+}
@@ -10,6 +10,7 @@ export enum TradeSource {
   AI = "AI", // Automated by AI
   MANUAL = "MANUAL", // User executed manually via Telegram
   API = "API", // User executed via external API
+  DCA = "DCA", // Recurring buy plan
 }
 
 export enum TradeStatus {
@@ -77,6 +78,10 @@ export class UserTradeHistory {
   @Column({ type: "enum", enum: TradeStatus, default: TradeStatus.PENDING })
   status!: TradeStatus;
 
+  // Simulated fill from paper-trading mode (no real order placed)
+  @Column({ name: "is_paper", default: false })
+  isPaper!: boolean;
+
   // Noghresea order reference
   @Column({ name: "noghresea_order_id", nullable: true })
   noghreseaOrderId!: string;
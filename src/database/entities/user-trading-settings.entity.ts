@@ -119,10 +119,82 @@ export class UserTradingSettings {
   })
   maxLossPercent!: number;
 
+  // Exit protection for silver positions (null = disabled)
+  @Column({
+    type: "decimal",
+    precision: 5,
+    scale: 2,
+    name: "stop_loss_percent",
+    nullable: true,
+  })
+  stopLossPercent!: number | null;
+
+  @Column({
+    type: "decimal",
+    precision: 5,
+    scale: 2,
+    name: "take_profit_percent",
+    nullable: true,
+  })
+  takeProfitPercent!: number | null;
+
+  @Column({
+    type: "decimal",
+    precision: 5,
+    scale: 2,
+    name: "trailing_stop_percent",
+    nullable: true,
+  })
+  trailingStopPercent!: number | null;
+
+  // Price the current silver position was entered at, and its high since
+  @Column({
+    type: "decimal",
+    precision: 12,
+    scale: 4,
+    name: "session_entry_price",
+    nullable: true,
+  })
+  sessionEntryPrice!: number | null;
+
+  @Column({
+    type: "decimal",
+    precision: 12,
+    scale: 4,
+    name: "session_peak_price",
+    nullable: true,
+  })
+  sessionPeakPrice!: number | null;
+
+  // Risk limits - auto trading is halted when any is breached (null = disabled)
+  @Column({
+    type: "decimal",
+    precision: 20,
+    scale: 2,
+    name: "daily_loss_limit_toman",
+    nullable: true,
+  })
+  dailyLossLimitToman!: number | null;
+
+  @Column({ name: "max_consecutive_losses", type: "integer", nullable: true })
+  maxConsecutiveLosses!: number | null;
+
+  @Column({ name: "max_trades_per_hour", type: "integer", nullable: true })
+  maxTradesPerHour!: number | null;
+
+  // Trades before this time are ignored by the risk checks (set on resume)
+  @Column({ type: "timestamp", name: "risk_reset_at", nullable: true })
+  riskResetAt!: Date | null;
+
   // Auto trading enabled
   @Column({ name: "auto_trading_enabled", default: true })
   autoTradingEnabled!: boolean;
 
+  // Auto trading was switched off because the Noghresea token expired;
+  // it is switched back on after the next successful login
+  @Column({ name: "auto_trading_paused_for_auth", default: false })
+  autoTradingPausedForAuth!: boolean;
+
   // Minimum confidence required to execute trade
   @Column({
     type: "decimal",
@@ -133,6 +205,32 @@ export class UserTradingSettings {
   })
   minConfidence!: number;
 
+  // Decision strategy (see StrategyRegistryService)
+  @Column({ type: "varchar", length: 30, default: "ai-gated" })
+  strategy!: string;
+
+  // Paper trading: run the live cycle against a simulated wallet
+  @Column({ name: "paper_trading_enabled", default: false })
+  paperTradingEnabled!: boolean;
+
+  @Column({
+    type: "decimal",
+    precision: 20,
+    scale: 2,
+    name: "paper_toman_balance",
+    nullable: true,
+  })
+  paperTomanBalance!: number;
+
+  @Column({
+    type: "decimal",
+    precision: 12,
+    scale: 4,
+    name: "paper_silver_balance",
+    nullable: true,
+  })
+  paperSilverBalance!: number;
+
   @CreateDateColumn({ name: "created_at" })
   createdAt!: Date;
 
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import {
+  ENCRYPTED_TOKEN_PREFIX,
+  decryptToken,
+  encryptToken,
+  loadTokenKeyring,
+} from "../../common/token-crypto";
+
+/**
+ * Encrypt access tokens that were stored as plain text.
+ * Runs before schema sync, so a fresh database has no table yet.
+ */
+export class EncryptAuthTokens1792281600000 implements MigrationInterface {
+  name = "EncryptAuthTokens1792281600000";
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable("auth_state"))) return;
+
+    const keyring = loadTokenKeyring((name) => process.env[name]);
+    const rows: { id: string; access_token: string }[] =
+      await queryRunner.query(
+        `SELECT id, access_token FROM auth_state
+          WHERE access_token IS NOT NULL AND access_token NOT LIKE $1`,
+        [`${ENCRYPTED_TOKEN_PREFIX}%`],
+      );
+
+    for (const row of rows) {
+      await queryRunner.query(
+        `UPDATE auth_state SET access_token = $1 WHERE id = $2`,
+        [encryptToken(row.access_token, keyring), row.id],
+      );
+    }
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable("auth_state"))) return;
+
+    const keyring = loadTokenKeyring((name) => process.env[name]);
+    const rows: { id: string; access_token: string }[] =
+      await queryRunner.query(
+        `SELECT id, access_token FROM auth_state WHERE access_token LIKE $1`,
+        [`${ENCRYPTED_TOKEN_PREFIX}%`],
+      );
+
+    for (const row of rows) {
+      await queryRunner.query(
+        `UPDATE auth_state SET access_token = $1 WHERE id = $2`,
+        [decryptToken(row.access_token, keyring), row.id],
+      );
+    }
+  }
+}
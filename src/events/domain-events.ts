@@ -0,0 +1,98 @@
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
+import { MultiFactorAnalysis } from "../analysis/multi-factor-analysis.service";
+import { AiDecision } from "../ai-decision/ai-decision.service";
+import { StrategyDecision } from "../strategy/trading-strategy.interface";
+import { WalletState } from "../trade-executor/trade-executor.service";
+import { ProtectionTrigger } from "../trade-executor/position-protection.service";
+import { RiskBreach } from "../trade-executor/risk-manager.service";
+import { UserTradeHistory } from "../database/entities/user-trade-history.entity";
+import { DailySummary } from "../database/entities/daily-summary.entity";
+import { LimitOrder } from "../database/entities/limit-order.entity";
+import { DcaPlan } from "../database/entities/dca-plan.entity";
+import { PriceAlert } from "../database/entities/price-alert.entity";
+
+/**
+ * Domain events and their payloads.
+ * chatId is the user the event concerns (null when it is not user-specific).
+ */
+export interface DomainEvents {
+  PriceFetched: { prices: AllPrices };
+  MarketAnalyzed: {
+    prices: AllPrices;
+    analysis: PatternAnalysis;
+    multiFactor: MultiFactorAnalysis;
+  };
+  PatternDetected: {
+    chatId: string;
+    prices: AllPrices;
+    analysis: PatternAnalysis;
+  };
+  // A strategy's decision for the cycle's market, once per strategy and threshold
+  MarketDecisionMade: {
+    decision: StrategyDecision;
+    prices: AllPrices;
+    analysis: PatternAnalysis;
+    multiFactor: MultiFactorAnalysis;
+  };
+  DecisionMade: {
+    chatId: string;
+    decision: StrategyDecision;
+    prices: AllPrices;
+    analysis: PatternAnalysis;
+    multiFactor: MultiFactorAnalysis;
+  };
+  DecisionNearThreshold: {
+    chatId: string | null;
+    decision: AiDecision;
+    threshold: number;
+  };
+  TradeExecuted: {
+    chatId: string;
+    trade: UserTradeHistory;
+    decision?: AiDecision;
+  };
+  TradeFailed: {
+    chatId: string | null;
+    action: "BUY" | "SELL";
+    reason: string;
+    silverAmount?: number;
+    orderId?: string;
+  };
+  OrderAlert: { chatId: string; message: string };
+  LimitOrderFilled: {
+    chatId: string;
+    order: LimitOrder;
+    trade: UserTradeHistory;
+  };
+  // Expired, or cancelled/rejected by Noghresea (not user cancels)
+  LimitOrderClosed: { chatId: string; order: LimitOrder };
+  DcaSkipped: { chatId: string; plan: DcaPlan; reason: string };
+  PriceAlertTriggered: { chatId: string; alert: PriceAlert; value: number };
+  AuthExpired: { chatId: string | null };
+  AuthExpiring: { chatId: string; expiresAt: Date };
+  // The token lapsed; live auto trading was paused if it was on
+  AuthLapsed: { chatId: string; autoTradingPaused: boolean };
+  AuthRestored: { chatId: string };
+  ProtectionTriggered: {
+    chatId: string;
+    trigger: ProtectionTrigger;
+    autoTradingPaused: boolean; // Nothing is sold; the user has to act
+  };
+  RiskLimitBreached: { chatId: string; breach: RiskBreach };
+  CycleCompleted: {
+    chatId: string;
+    prices: AllPrices;
+    analysis: PatternAnalysis;
+    wallet: WalletState;
+    tradingEnabled: boolean;
+    paperMode: boolean;
+  };
+  DailySummaryGenerated: { summary: DailySummary };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+export type DomainEventHandler<T extends DomainEventName> = (
+  payload: DomainEvents[T],
+) => void | Promise<void>;
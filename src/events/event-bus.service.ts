@@ -0,0 +1,56 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  DomainEventHandler,
+  DomainEventName,
+  DomainEvents,
+} from "./domain-events";
+
+/**
+ * Event Bus - In-process pub/sub for domain events
+ * Producers emit without knowing the sinks (Telegram, persistence, stream, ...)
+ */
+@Injectable()
+export class EventBus {
+  private readonly logger = new Logger(EventBus.name);
+  private readonly handlers = new Map<
+    DomainEventName,
+    Set<DomainEventHandler<any>>
+  >();
+
+  /**
+   * Subscribe to an event; returns an unsubscribe function
+   */
+  on<T extends DomainEventName>(
+    event: T,
+    handler: DomainEventHandler<T>,
+  ): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Deliver an event to all subscribers.
+   * Resolves once every handler finished; a failing handler never affects the others or the emitter.
+   */
+  async emit<T extends DomainEventName>(
+    event: T,
+    payload: DomainEvents[T],
+  ): Promise<void> {
+    const handlers = Array.from(this.handlers.get(event) ?? []);
+    if (handlers.length === 0) return;
+
+    const results = await Promise.allSettled(
+      handlers.map(async (handler) => handler(payload)),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.logger.error(
+          `${event} handler failed: ${result.reason?.message ?? result.reason}`,
+        );
+      }
+    }
+  }
+}
@@ -1,17 +1,30 @@
 import { Controller, Get } from "@nestjs/common";
 import { InjectDataSource } from "@nestjs/typeorm";
 import { DataSource } from "typeorm";
+import {
+  RetentionService,
+  RetentionRunResult,
+  TableStats,
+} from "../retention/retention.service";
 
 @Controller("health")
 export class HealthController {
   constructor(
     @InjectDataSource()
     private dataSource: DataSource,
+    private retentionService: RetentionService,
   ) {}
 
   @Get()
   async check() {
-    const checks = {
+    const checks: {
+      status: string;
+      timestamp: string;
+      uptime: number;
+      database: string;
+      tables?: Record<string, TableStats>;
+      retention?: RetentionRunResult | null;
+    } = {
       status: "ok",
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
@@ -22,6 +35,8 @@ export class HealthController {
     try {
       await this.dataSource.query("SELECT 1");
       checks.database = "ok";
+      checks.tables = await this.retentionService.getTableStats();
+      checks.retention = this.retentionService.getLastRun();
     } catch (error) {
       checks.database = "error";
       checks.status = "degraded";
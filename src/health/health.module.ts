@@ -1,7 +1,9 @@
 import { Module } from "@nestjs/common";
 import { HealthController } from "./health.controller";
+import { RetentionModule } from "../retention/retention.module";
 
 @Module({
+  imports: [RetentionModule],
   controllers: [HealthController],
 })
 export class HealthModule {}
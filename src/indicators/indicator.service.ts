@@ -0,0 +1,153 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  AllPrices,
+  MarketDataSource,
+  PriceFetcherService,
+} from "../price-fetcher/price-fetcher.service";
+import { AnalysisContext } from "../pattern-analyzer/pattern-analyzer.service";
+import { systemClock } from "../common/clock";
+import {
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import {
+  BollingerBands,
+  MacdResult,
+  atr,
+  bollinger,
+  ema,
+  macd,
+  rsi,
+  sma,
+  timeWeightedAverage,
+} from "./indicators";
+
+export interface IndicatorSnapshot {
+  computedAt: Date;
+  candleMinutes: number;
+  candleCount: number;
+  close: number | null;
+  sma20: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: MacdResult | null;
+  bollinger: BollingerBands | null;
+  atr14: number | null;
+  twap: number | null; // VWAP-style, time-weighted over the lookback
+}
+
+/**
+ * Indicators - Technical indicators over resampled Noghresea candles
+ * Computed at most once per price tick and shared by every consumer of the cycle
+ */
+@Injectable()
+export class IndicatorService {
+  private readonly logger = new Logger(IndicatorService.name);
+  private cache: {
+    dataSource: MarketDataSource;
+    tickTime: number;
+    snapshot: IndicatorSnapshot;
+  } | null = null;
+
+  readonly CANDLE_MINUTES = 1; // CandleTimeframe.M1
+  readonly LOOKBACK_MINUTES = 90; // Enough 1m candles for MACD(12,26,9)
+
+  constructor(private priceFetcher: PriceFetcherService) {}
+
+  async getIndicators(
+    prices: AllPrices,
+    context: AnalysisContext = {},
+  ): Promise<IndicatorSnapshot> {
+    const dataSource = context.dataSource ?? this.priceFetcher;
+    const tickTime = (
+      prices.noghresea?.recordedAt ?? prices.fetchedAt
+    ).getTime();
+
+    if (
+      this.cache &&
+      this.cache.dataSource === dataSource &&
+      this.cache.tickTime === tickTime
+    ) {
+      return this.cache.snapshot;
+    }
+
+    const snapshot = await this.compute(
+      dataSource,
+      (context.clock ?? systemClock).now(),
+    );
+    this.cache = { dataSource, tickTime, snapshot };
+    return snapshot;
+  }
+
+  private async compute(
+    dataSource: MarketDataSource,
+    now: Date,
+  ): Promise<IndicatorSnapshot> {
+    const candles = await dataSource.getRecentCandles(
+      NOGHRESEA_CANDLE_SOURCE,
+      CandleTimeframe.M1,
+      this.LOOKBACK_MINUTES,
+    );
+    const closes = candles.map((c) => c.close);
+
+    const snapshot: IndicatorSnapshot = {
+      computedAt: now,
+      candleMinutes: this.CANDLE_MINUTES,
+      candleCount: candles.length,
+      close: closes.length > 0 ? closes[closes.length - 1] : null,
+      sma20: sma(closes, 20),
+      ema12: ema(closes, 12),
+      ema26: ema(closes, 26),
+      rsi14: rsi(closes, 14),
+      macd: macd(closes, 12, 26, 9),
+      bollinger: bollinger(closes, 20, 2),
+      atr14: atr(candles, 14),
+      twap: timeWeightedAverage(candles),
+    };
+
+    this.logger.debug(
+      `Indicators over ${candles.length} candles: RSI=${snapshot.rsi14?.toFixed(1) ?? "N/A"}, MACD hist=${snapshot.macd?.histogram.toFixed(3) ?? "N/A"}`,
+    );
+    return snapshot;
+  }
+}
+
+/**
+ * Plain-text indicator lines shared by the AI prompt and Telegram reports
+ */
+export function describeIndicators(snapshot: IndicatorSnapshot): string[] {
+  const fmt = (value: number | null, digits = 2) =>
+    value === null ? "N/A" : value.toFixed(digits);
+  const lines: string[] = [];
+
+  lines.push(
+    `RSI(14): ${fmt(snapshot.rsi14, 1)}${
+      snapshot.rsi14 === null
+        ? ""
+        : snapshot.rsi14 >= 70
+          ? " (overbought)"
+          : snapshot.rsi14 <= 30
+            ? " (oversold)"
+            : ""
+    }`,
+  );
+  lines.push(
+    snapshot.macd
+      ? `MACD(12,26,9): ${fmt(snapshot.macd.macd, 3)} / signal ${fmt(snapshot.macd.signal, 3)} / hist ${fmt(snapshot.macd.histogram, 3)}`
+      : "MACD(12,26,9): N/A",
+  );
+  lines.push(
+    `SMA(20): ${fmt(snapshot.sma20)} | EMA(12): ${fmt(snapshot.ema12)} | EMA(26): ${fmt(snapshot.ema26)}`,
+  );
+  lines.push(
+    snapshot.bollinger
+      ? `Bollinger(20,2): ${fmt(snapshot.bollinger.lower)} - ${fmt(snapshot.bollinger.upper)} (%B ${fmt(snapshot.bollinger.percentB)})`
+      : "Bollinger(20,2): N/A",
+  );
+  lines.push(
+    `ATR(14): ${fmt(snapshot.atr14, 3)} | TWAP: ${fmt(snapshot.twap)}`,
+  );
+
+  return lines;
+}
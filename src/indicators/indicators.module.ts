@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { IndicatorService } from "./indicator.service";
+import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
+
+@Module({
+  imports: [PriceFetcherModule],
+  providers: [IndicatorService],
+  exports: [IndicatorService],
+})
+export class IndicatorsModule {}
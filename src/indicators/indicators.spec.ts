@@ -0,0 +1,128 @@
+import {
+  atr,
+  bollinger,
+  ema,
+  emaSeries,
+  macd,
+  rsi,
+  sma,
+  timeWeightedAverage,
+} from "./indicators";
+import { Candle } from "../candles/candle";
+
+function candle(high: number, low: number, close: number): Candle {
+  return {
+    openTime: new Date(0),
+    open: close,
+    high,
+    low,
+    close,
+    tickCount: 1,
+  };
+}
+
+describe("indicators", () => {
+  describe("sma", () => {
+    it("averages the last period values", () => {
+      expect(sma([1, 2, 3, 4, 5], 3)).toBe(4);
+    });
+
+    it("needs a full window", () => {
+      expect(sma([1, 2], 3)).toBeNull();
+      expect(sma([1, 2], 0)).toBeNull();
+    });
+  });
+
+  describe("ema", () => {
+    it("seeds with the SMA, then weights values by 2 / (period + 1)", () => {
+      // Seed (1 + 2 + 3) / 3 = 2, then 4 * 0.5 + 2 * 0.5 = 3
+      expect(emaSeries([1, 2, 3, 4], 3)).toEqual([2, 3]);
+      expect(ema([1, 2, 3, 4], 3)).toBe(3);
+    });
+
+    it("needs at least period values", () => {
+      expect(emaSeries([1, 2], 3)).toEqual([]);
+      expect(ema([1, 2], 3)).toBeNull();
+    });
+  });
+
+  describe("rsi", () => {
+    it("is 100 after only gains and 0 after only losses", () => {
+      expect(rsi([1, 2, 3, 4, 5], 4)).toBe(100);
+      expect(rsi([5, 4, 3, 2, 1], 4)).toBe(0);
+    });
+
+    it("is 50 for a flat series", () => {
+      expect(rsi([3, 3, 3, 3, 3], 4)).toBe(50);
+    });
+
+    it("balances equal average gains and losses", () => {
+      expect(rsi([10, 11, 10, 11, 10], 4)).toBeCloseTo(50);
+    });
+
+    it("needs period + 1 values", () => {
+      expect(rsi([1, 2, 3, 4], 4)).toBeNull();
+    });
+  });
+
+  describe("macd", () => {
+    it("is flat for a constant series", () => {
+      expect(macd(Array(40).fill(100))).toEqual({
+        macd: 0,
+        signal: 0,
+        histogram: 0,
+      });
+    });
+
+    it("turns positive in an uptrend", () => {
+      const rising = Array.from({ length: 40 }, (_, i) => 100 + i);
+      expect(macd(rising)?.macd).toBeGreaterThan(0);
+    });
+
+    it("needs enough values for the slow EMA and the signal line", () => {
+      expect(macd(Array(26).fill(100))).toBeNull();
+      expect(macd(Array(34).fill(100))).not.toBeNull();
+    });
+  });
+
+  describe("bollinger", () => {
+    it("puts the bands two standard deviations around the SMA", () => {
+      // Mean 5, population standard deviation 2
+      const bands = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8);
+      expect(bands).toMatchObject({ middle: 5, upper: 9, lower: 1 });
+      expect(bands?.percentB).toBe(1);
+      expect(bands?.bandwidthPercent).toBe(160);
+    });
+
+    it("puts the last price in the middle when the bands collapse", () => {
+      expect(bollinger([5, 5, 5], 3)?.percentB).toBe(0.5);
+    });
+  });
+
+  describe("atr", () => {
+    it("counts gaps from the previous close in the true range", () => {
+      // True ranges: max(2, 3, 1) = 3, then max(1, 1, 0) = 1
+      const candles = [
+        candle(10, 9, 10),
+        candle(13, 11, 12),
+        candle(12, 11, 11),
+      ];
+      expect(atr(candles, 2)).toBe(2);
+    });
+
+    it("needs period + 1 candles", () => {
+      expect(atr([candle(10, 9, 10), candle(11, 10, 11)], 2)).toBeNull();
+    });
+  });
+
+  describe("timeWeightedAverage", () => {
+    it("weights every candle's typical price equally", () => {
+      const candles = [candle(12, 6, 9), candle(20, 14, 17)];
+      expect(timeWeightedAverage(candles)).toBe(13);
+    });
+
+    it("is null without candles", () => {
+      expect(timeWeightedAverage([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Candle } from "../candles/candle";
+
+export interface MacdResult {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+  percentB: number; // 0 = lower band, 1 = upper band
+  bandwidthPercent: number;
+}
+
+/** Simple moving average of the last `period` values */
+export function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  const window = values.slice(-period);
+  return window.reduce((a, b) => a + b, 0) / period;
+}
+
+/** Full EMA series, seeded with the SMA of the first `period` values */
+export function emaSeries(values: number[], period: number): number[] {
+  if (period <= 0 || values.length < period) return [];
+
+  const k = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  const series = [ema];
+  for (const value of values.slice(period)) {
+    ema = value * k + ema * (1 - k);
+    series.push(ema);
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number | null {
+  const series = emaSeries(values, period);
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+/** Wilder's RSI (0-100) */
+export function rsi(values: number[], period: number = 14): number | null {
+  if (values.length < period + 1) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+export function macd(
+  values: number[],
+  fast: number = 12,
+  slow: number = 26,
+  signalPeriod: number = 9,
+): MacdResult | null {
+  const fastSeries = emaSeries(values, fast);
+  const slowSeries = emaSeries(values, slow);
+  if (slowSeries.length === 0) return null;
+
+  // Align both series on the slow EMA's first value
+  const offset = slow - fast;
+  const macdLine = slowSeries.map((s, i) => fastSeries[i + offset] - s);
+  const signalSeries = emaSeries(macdLine, signalPeriod);
+  if (signalSeries.length === 0) return null;
+
+  const macdValue = macdLine[macdLine.length - 1];
+  const signal = signalSeries[signalSeries.length - 1];
+  return { macd: macdValue, signal, histogram: macdValue - signal };
+}
+
+export function bollinger(
+  values: number[],
+  period: number = 20,
+  stdDevs: number = 2,
+): BollingerBands | null {
+  const middle = sma(values, period);
+  if (middle === null) return null;
+
+  const window = values.slice(-period);
+  const stdDev = Math.sqrt(
+    window.reduce((sum, v) => sum + Math.pow(v - middle, 2), 0) / period,
+  );
+  const upper = middle + stdDevs * stdDev;
+  const lower = middle - stdDevs * stdDev;
+  const last = values[values.length - 1];
+
+  return {
+    upper,
+    middle,
+    lower,
+    percentB: upper === lower ? 0.5 : (last - lower) / (upper - lower),
+    bandwidthPercent: middle ? ((upper - lower) / middle) * 100 : 0,
+  };
+}
+
+/** Wilder's Average True Range */
+export function atr(candles: Candle[], period: number = 14): number | null {
+  if (candles.length < period + 1) return null;
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    trueRanges.push(
+      Math.max(
+        high - low,
+        Math.abs(high - prevClose),
+        Math.abs(low - prevClose),
+      ),
+    );
+  }
+
+  let value = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (const tr of trueRanges.slice(period)) {
+    value = (value * (period - 1) + tr) / period;
+  }
+  return value;
+}
+
+/**
+ * VWAP-style average. Noghresea exposes no traded volume, so each price is
+ * weighted by time: every gap-filled candle's typical price counts equally.
+ */
+export function timeWeightedAverage(candles: Candle[]): number | null {
+  if (candles.length === 0) return null;
+  const total = candles.reduce(
+    (sum, c) => sum + (c.high + c.low + c.close) / 3,
+    0,
+  );
+  return total / candles.length;
+}
@@ -1,8 +1,23 @@
 import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
 import puppeteer, { Browser, Page } from "puppeteer";
+import {
+  NoghreseaMethod,
+  NoghreseaSession,
+  NoghreseaTransport,
+} from "./noghresea-transport.interface";
 
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+/**
+ * Browser Session - Headless Chrome that solves the ArvanCloud challenge
+ * and makes every request from inside the page, one at a time
+ */
 @Injectable()
-export class BrowserSessionService implements OnModuleDestroy {
+export class BrowserSessionService
+  implements NoghreseaTransport, OnModuleDestroy
+{
+  readonly name = "browser";
   private readonly logger = new Logger(BrowserSessionService.name);
   private browser: Browser | null = null;
   private page: Page | null = null;
@@ -67,9 +82,7 @@ export class BrowserSessionService implements OnModuleDestroy {
       this.page = await this.browser.newPage();
 
       // Set a realistic user agent
-      await this.page.setUserAgent(
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-      );
+      await this.page.setUserAgent(USER_AGENT);
 
       // Navigate to noghresea to get cookies
       this.logger.log("🔐 Solving ArvanCloud challenge...");
@@ -106,16 +119,49 @@ export class BrowserSessionService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Cookies of the solved challenge, for clients that talk to noghresea.ir
+   * directly. `fresh` relaunches the browser to solve it again.
+   */
+  async getSession(fresh = false): Promise<NoghreseaSession> {
+    return this.enqueue(async () => {
+      if (fresh) this.isInitialized = false;
+      if (!this.isInitialized || !this.page) {
+        const initialized = await this.initBrowser();
+        if (!initialized || !this.page) {
+          throw new Error("Failed to initialize browser");
+        }
+      }
+
+      const cookies = await this.page.cookies(
+        "https://noghresea.ir",
+        "https://api.noghresea.ir",
+      );
+      return {
+        cookies: cookies.map(({ name, value, domain }) => ({
+          name,
+          value,
+          domain,
+        })),
+        userAgent: USER_AGENT,
+      };
+    });
+  }
+
   async makeRequest(
     url: string,
-    method: "GET" | "POST" = "GET",
+    method: NoghreseaMethod = "GET",
     body?: any,
     authToken?: string,
   ): Promise<any> {
-    // Queue requests to prevent concurrent browser access
+    return this.enqueue(() => this.doMakeRequest(url, method, body, authToken));
+  }
+
+  // Queue page work to prevent concurrent browser access
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
     return new Promise((resolve, reject) => {
       this.requestQueue = this.requestQueue
-        .then(() => this.doMakeRequest(url, method, body, authToken))
+        .then(task)
         .then(resolve)
         .catch(reject);
     });
@@ -123,7 +169,7 @@ export class BrowserSessionService implements OnModuleDestroy {
 
   private async doMakeRequest(
     url: string,
-    method: "GET" | "POST" = "GET",
+    method: NoghreseaMethod = "GET",
     body?: any,
     authToken?: string,
   ): Promise<any> {
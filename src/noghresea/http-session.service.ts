@@ -0,0 +1,137 @@
+import { Injectable, Logger } from "@nestjs/common";
+import axios from "axios";
+import { BrowserSessionService } from "./browser-session.service";
+import {
+  NoghreseaMethod,
+  NoghreseaSession,
+  NoghreseaTransport,
+} from "./noghresea-transport.interface";
+
+/**
+ * HTTP Session - Talks to noghresea.ir directly with the cookies the browser
+ * got once for the ArvanCloud challenge. When the challenge comes back, the
+ * browser solves it again and serves that request itself.
+ */
+@Injectable()
+export class HttpSessionService implements NoghreseaTransport {
+  readonly name = "http";
+  private readonly logger = new Logger(HttpSessionService.name);
+  private session: NoghreseaSession | null = null;
+  private sessionPromise: Promise<NoghreseaSession> | null = null;
+
+  constructor(private browserSession: BrowserSessionService) {}
+
+  async makeRequest(
+    url: string,
+    method: NoghreseaMethod = "GET",
+    body?: any,
+    authToken?: string,
+  ): Promise<any> {
+    const session = await this.getSession();
+
+    const response = await axios.request<string>({
+      url,
+      method,
+      data: body && method === "POST" ? JSON.stringify(body) : undefined,
+      headers: this.buildHeaders(url, session, authToken),
+      responseType: "text",
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+      timeout: 15000,
+    });
+
+    const text = typeof response.data === "string" ? response.data : "";
+    if (this.isChallenge(response.status, text)) {
+      this.logger.warn(
+        `🛡️ ArvanCloud challenge on ${url} - falling back to the browser`,
+      );
+      // Both run on the browser's queue: solve again, then make the request
+      this.session = null;
+      this.sessionPromise = this.browserSession.getSession(true);
+      return this.browserSession.makeRequest(url, method, body, authToken);
+    }
+
+    this.storeCookies(url, response.headers["set-cookie"]);
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private async getSession(): Promise<NoghreseaSession> {
+    if (this.session) return this.session;
+
+    this.sessionPromise ??= this.browserSession.getSession();
+    try {
+      this.session = await this.sessionPromise;
+      this.logger.log(
+        `🍪 Using ${this.session.cookies.length} browser cookies for direct requests`,
+      );
+      return this.session;
+    } finally {
+      this.sessionPromise = null;
+    }
+  }
+
+  private buildHeaders(
+    url: string,
+    session: NoghreseaSession,
+    authToken?: string,
+  ): Record<string, string> {
+    const host = new URL(url).hostname;
+    const cookies = session.cookies
+      .filter((c) => this.cookieMatches(host, c.domain))
+      .filter((c) => c.name !== "accessToken")
+      .map((c) => `${c.name}=${c.value}`);
+    // Noghresea reads the token from the header and the cookie, like in the browser
+    if (authToken) cookies.push(`accessToken=${authToken}`);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/plain, */*",
+      "User-Agent": session.userAgent,
+      Origin: "https://noghresea.ir",
+      Referer: "https://noghresea.ir/",
+    };
+    if (cookies.length > 0) headers["Cookie"] = cookies.join("; ");
+    if (authToken) headers["Authorization"] = authToken;
+    return headers;
+  }
+
+  private cookieMatches(host: string, domain: string): boolean {
+    const bare = domain.replace(/^\./, "");
+    return host === bare || host.endsWith(`.${bare}`);
+  }
+
+  // Keep cookies ArvanCloud refreshes along the way
+  private storeCookies(url: string, setCookie?: string[]) {
+    if (!this.session || !setCookie) return;
+
+    for (const header of setCookie) {
+      const [pair, ...attributes] = header.split(";");
+      const eq = pair.indexOf("=");
+      if (eq <= 0) continue;
+      const name = pair.slice(0, eq).trim();
+      const value = pair.slice(eq + 1).trim();
+      const domain =
+        attributes
+          .map((a) => a.trim())
+          .find((a) => a.toLowerCase().startsWith("domain="))
+          ?.slice("domain=".length) ?? new URL(url).hostname;
+
+      this.session.cookies = [
+        ...this.session.cookies.filter(
+          (c) => !(c.name === name && c.domain === domain),
+        ),
+        { name, value, domain },
+      ];
+    }
+  }
+
+  private isChallenge(status: number, text: string): boolean {
+    if (text.includes("__arcsjs")) return true;
+    return (status === 403 || status === 503) && /<html/i.test(text);
+  }
+}
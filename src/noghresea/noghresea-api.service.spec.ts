@@ -0,0 +1,153 @@
+import { Logger } from "@nestjs/common";
+import { Repository } from "typeorm";
+import { NoghreseaApiService } from "./noghresea-api.service";
+import { NoghreseaAuthService } from "./noghresea-auth.service";
+import { NoghreseaTransportService } from "./noghresea-transport.service";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { EventBus } from "../events/event-bus.service";
+
+const TOKENS: Record<string, string> = {
+  "chat-a": "token-a",
+  "chat-b": "token-b",
+};
+
+// Each token sees its own account, so a swapped token shows up in the results
+const BALANCES: Record<string, { toman: number; silverMg: number }> = {
+  "token-a": { toman: 1_000_000, silverMg: 2_000 },
+  "token-b": { toman: 5_000_000, silverMg: 7_500 },
+};
+
+interface SentRequest {
+  url: string;
+  method?: string;
+  body?: any;
+  authToken?: string;
+  respond: () => void;
+}
+
+describe("NoghreseaApiService", () => {
+  let sent: SentRequest[];
+  let service: NoghreseaApiService;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    sent = [];
+
+    const authService = {
+      isAuthenticated: (chatId?: string) => !!chatId && chatId in TOKENS,
+      getToken: (chatId?: string) => (chatId ? (TOKENS[chatId] ?? null) : null),
+      invalidateToken: jest.fn(),
+    } as unknown as NoghreseaAuthService;
+
+    // Requests stay in flight until the test answers them, in any order
+    const transport = {
+      name: "stub",
+      makeRequest: (
+        url: string,
+        method?: string,
+        body?: any,
+        authToken?: string,
+      ) =>
+        new Promise((resolve) => {
+          sent.push({
+            url,
+            method,
+            body,
+            authToken,
+            respond: () => resolve(respondAs(url, authToken)),
+          });
+        }),
+    } as unknown as NoghreseaTransportService;
+
+    service = new NoghreseaApiService(
+      authService,
+      transport,
+      {} as Repository<NoghreseaPrice>,
+      { emit: jest.fn() } as unknown as EventBus,
+    );
+  });
+
+  function respondAs(url: string, authToken?: string): any {
+    const account = authToken ? BALANCES[authToken] : undefined;
+    if (!account) return { message: "login required" };
+
+    if (url.endsWith("/api/account/getBalances")) {
+      return [
+        { asset: "IRT", balance: account.toman, blocked: 0 },
+        { asset: "SILVER", balance: account.silverMg, blocked: 0 },
+      ];
+    }
+    if (url.includes("/api/order/getOrders")) {
+      return { orders: [{ id: `order-of-${authToken}` }] };
+    }
+    return { message: "ok", orderId: `order-of-${authToken}` };
+  }
+
+  // Let every pending call reach the transport before answering
+  async function flush() {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+  }
+
+  it("sends each chat's own token", async () => {
+    const inventoryA = service.getInventory("chat-a");
+    await flush();
+    sent[0].respond();
+    const inventoryB = service.getInventory("chat-b");
+    await flush();
+    sent[1].respond();
+
+    expect(sent.map((r) => r.authToken)).toEqual(["token-a", "token-b"]);
+    expect(await inventoryA).toMatchObject({
+      tomanBalance: 1_000_000,
+      silverBalance: 2,
+    });
+    expect(await inventoryB).toMatchObject({
+      tomanBalance: 5_000_000,
+      silverBalance: 7.5,
+    });
+  });
+
+  it("keeps tokens apart when requests of two chats interleave", async () => {
+    const results = Promise.all([
+      service.getInventory("chat-a"),
+      service.createBuyOrder("chat-b", 100_000, 1_500),
+      service.getOrderHistory("chat-a"),
+      service.getInventory("chat-b"),
+      service.createSellOrder("chat-a", 100_000, 500),
+      service.getOrderHistory("chat-b"),
+    ]);
+    await flush();
+
+    const seen = sent.map(
+      (r) => `${new URL(r.url).pathname} ${r.body?.type ?? ""} ${r.authToken}`,
+    );
+    expect(seen.sort()).toEqual([
+      "/api/account/getBalances  token-a",
+      "/api/account/getBalances  token-b",
+      "/api/order/createOrder buy token-b",
+      "/api/order/createOrder sell token-a",
+      "/api/order/getOrders  token-a",
+      "/api/order/getOrders  token-b",
+    ]);
+
+    // Answer newest first so no response lines up with request order
+    [...sent].reverse().forEach((r) => r.respond());
+    const [inventoryA, buyB, historyA, inventoryB, sellA, historyB] =
+      await results;
+
+    expect(inventoryA?.tomanBalance).toBe(1_000_000);
+    expect(inventoryB?.tomanBalance).toBe(5_000_000);
+    expect(buyB?.orderId).toBe("order-of-token-b");
+    expect(sellA?.orderId).toBe("order-of-token-a");
+    expect(historyA?.[0].id).toBe("order-of-token-a");
+    expect(historyB?.[0].id).toBe("order-of-token-b");
+  });
+
+  it("does not send a request for a chat without a token", async () => {
+    const inventory = await service.getInventory("chat-c");
+
+    expect(inventory).toBeNull();
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -1,10 +1,10 @@
-import { Injectable, Logger, Inject, forwardRef } from "@nestjs/common";
+import { Injectable, Logger } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { Repository } from "typeorm";
 import { NoghreseaAuthService } from "./noghresea-auth.service";
-import { BrowserSessionService } from "./browser-session.service";
+import { NoghreseaTransportService } from "./noghresea-transport.service";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
-import { TelegramBotService } from "../telegram-bot/telegram-bot.service";
+import { EventBus } from "../events/event-bus.service";
 
 export interface SilverPriceResponse {
   price: string;
@@ -40,6 +40,7 @@ export interface BalanceItem {
 
 export interface OrderHistoryItem {
   id: string;
+  _id?: string;
   type: "buy" | "sell";
   price: number;
   volume: number;
@@ -78,51 +79,36 @@ export class NoghreseaApiService {
 
   constructor(
     private authService: NoghreseaAuthService,
-    private browserSession: BrowserSessionService,
+    private transport: NoghreseaTransportService,
     @InjectRepository(NoghreseaPrice)
     private noghreseaPriceRepo: Repository<NoghreseaPrice>,
-    @Inject(forwardRef(() => TelegramBotService))
-    private telegramBot: TelegramBotService,
+    private eventBus: EventBus,
   ) {}
 
-  // Track active chat ID for API operations
-  private activeChatId: string | null = null;
-
-  setActiveChatId(chatId: string) {
-    this.activeChatId = chatId;
-  }
-
-  getActiveChatId(): string | null {
-    return this.activeChatId;
-  }
-
-  private async handleAuthError() {
-    if (this.activeChatId) {
-      await this.authService.invalidateToken(this.activeChatId);
-    }
-    await this.telegramBot.sendAuthRequired();
+  private async handleAuthError(chatId: string) {
+    await this.authService.invalidateToken(chatId);
+    await this.eventBus.emit("AuthExpired", { chatId });
   }
 
   /**
-   * Make an authenticated API request with automatic auth error handling
+   * Make an authenticated API request with automatic auth error handling.
+   * Always uses the token of the given chat - there is no shared "current user".
    */
   private async makeAuthenticatedRequest<T>(
+    chatId: string,
     endpoint: string,
     method: "GET" | "POST" = "GET",
     body?: any,
   ): Promise<T | null> {
-    if (
-      !this.activeChatId ||
-      !this.authService.isAuthenticated(this.activeChatId)
-    ) {
-      this.logger.warn(`${endpoint}: Not authenticated or no active chat`);
+    if (!this.authService.isAuthenticated(chatId)) {
+      this.logger.warn(`${endpoint}: Chat ${chatId} is not authenticated`);
       return null;
     }
 
-    const token = this.authService.getToken(this.activeChatId);
+    const token = this.authService.getToken(chatId);
 
     try {
-      const response = await this.browserSession.makeRequest(
+      const response = await this.transport.makeRequest(
         `${this.baseUrl}${endpoint}`,
         method,
         body,
@@ -145,7 +131,7 @@ export class NoghreseaApiService {
           this.logger.warn(
             "🔐 Token rejected by API, requesting re-authentication...",
           );
-          await this.handleAuthError();
+          await this.handleAuthError(chatId);
           return null;
         }
       }
@@ -159,7 +145,7 @@ export class NoghreseaApiService {
 
   async getSilverPrice(): Promise<SilverPriceResponse | null> {
     try {
-      const response = await this.browserSession.makeRequest(
+      const response = await this.transport.makeRequest(
         `${this.baseUrl}/api/market/getSilverPrice`,
         "GET",
       );
@@ -170,14 +156,16 @@ export class NoghreseaApiService {
     }
   }
 
-  async getWallet(): Promise<WalletResponse | null> {
+  async getWallet(chatId: string): Promise<WalletResponse | null> {
     return this.makeAuthenticatedRequest<WalletResponse>(
+      chatId,
       "/api/account/getWallet",
     );
   }
 
-  async getInventory(): Promise<InventoryResponse | null> {
+  async getInventory(chatId: string): Promise<InventoryResponse | null> {
     const response = await this.makeAuthenticatedRequest<BalanceItem[]>(
+      chatId,
       "/api/account/getBalances",
     );
 
@@ -212,16 +200,25 @@ export class NoghreseaApiService {
     return null;
   }
 
-  async getOrderHistory(limit: number = 20): Promise<OrderHistoryItem[]> {
+  /**
+   * Recent orders, newest first (page 1 is the newest). Null when the request
+   * failed or the chat is not authenticated - an empty list means no orders.
+   */
+  async getOrderHistory(
+    chatId: string,
+    limit: number = 20,
+    page: number = 1,
+  ): Promise<OrderHistoryItem[] | null> {
     const response = await this.makeAuthenticatedRequest<
       { orders?: OrderHistoryItem[] } | OrderHistoryItem[]
-    >(`/api/order/getOrders?limit=${limit}`);
+    >(chatId, `/api/order/getOrders?limit=${limit}&page=${page}`);
     if (Array.isArray(response)) return response;
-    return response?.orders || [];
+    return Array.isArray(response?.orders) ? response.orders : null;
   }
 
-  async getUserData(): Promise<UserDataResponse | null> {
+  async getUserData(chatId: string): Promise<UserDataResponse | null> {
     return this.makeAuthenticatedRequest<UserDataResponse>(
+      chatId,
       "/api/account/getUserData",
     );
   }
@@ -230,7 +227,7 @@ export class NoghreseaApiService {
     period: "day" | "week" | "month",
   ): Promise<HistoricalPrice[]> {
     try {
-      const response = await this.browserSession.makeRequest(
+      const response = await this.transport.makeRequest(
         `${this.publicBaseUrl}/api/silverPrice/${period}`,
         "GET",
       );
@@ -242,51 +239,72 @@ export class NoghreseaApiService {
   }
 
   async createBuyOrder(
+    chatId: string,
     price: number,
     volume: number,
   ): Promise<OrderResponse | null> {
-    if (!this.authService.isAuthenticated()) {
-      await this.telegramBot.sendAuthRequired();
-      return null;
-    }
-    const token = this.authService.getToken();
-    try {
-      const response = await this.browserSession.makeRequest(
-        `${this.baseUrl}/api/order/createOrder`,
-        "POST",
-        { price, type: "buy", volume, hasInsurance: true },
-        token || undefined,
-      );
-      this.logger.log(`✅ BUY order created: ${volume}g @ ${price}`);
-      return response;
-    } catch (error: any) {
-      this.logger.error("Failed to create buy order", error.message);
-      return null;
-    }
+    return this.createOrder(chatId, {
+      price,
+      type: "buy",
+      volume,
+      hasInsurance: true,
+    });
   }
 
   async createSellOrder(
+    chatId: string,
     price: number,
     volume: number,
   ): Promise<OrderResponse | null> {
-    if (!this.authService.isAuthenticated()) {
-      await this.telegramBot.sendAuthRequired();
+    return this.createOrder(chatId, { price, type: "sell", volume });
+  }
+
+  /**
+   * Cancel a resting order. True when Noghresea acknowledged the cancel.
+   */
+  async cancelOrder(chatId: string, orderId: string): Promise<boolean> {
+    const response = await this.makeAuthenticatedRequest<{
+      message?: string;
+      success?: boolean;
+    }>(chatId, "/api/order/cancelOrder", "POST", { orderId });
+    if (!response || response.success === false) {
+      this.logger.error(
+        `Failed to cancel order ${orderId} for ${chatId}: ${response?.message || "no response"}`,
+      );
+      return false;
+    }
+    this.logger.log(`🗑️ Order ${orderId} cancelled for ${chatId}`);
+    return true;
+  }
+
+  private async createOrder(
+    chatId: string,
+    order: { price: number; type: "buy" | "sell"; volume: number } & Record<
+      string,
+      unknown
+    >,
+  ): Promise<OrderResponse | null> {
+    if (!this.authService.isAuthenticated(chatId)) {
+      await this.eventBus.emit("AuthExpired", { chatId });
       return null;
     }
-    const token = this.authService.getToken();
-    try {
-      const response = await this.browserSession.makeRequest(
-        `${this.baseUrl}/api/order/createOrder`,
-        "POST",
-        { price, type: "sell", volume },
-        token || undefined,
+
+    const response = await this.makeAuthenticatedRequest<OrderResponse>(
+      chatId,
+      "/api/order/createOrder",
+      "POST",
+      order,
+    );
+    if (response?.orderId) {
+      this.logger.log(
+        `✅ ${order.type.toUpperCase()} order created for ${chatId}: ${order.volume} @ ${order.price}`,
+      );
+    } else {
+      this.logger.error(
+        `Failed to create ${order.type} order for ${chatId}: ${response?.message || "no response"}`,
       );
-      this.logger.log(`✅ SELL order created: ${volume}g @ ${price}`);
-      return response;
-    } catch (error: any) {
-      this.logger.error("Failed to create sell order", error.message);
-      return null;
     }
+    return response;
   }
 
   async fetchAndStorePriceSnapshot(): Promise<NoghreseaPrice | null> {
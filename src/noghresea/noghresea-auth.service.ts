@@ -1,18 +1,16 @@
-import {
-  Injectable,
-  Logger,
-  Inject,
-  forwardRef,
-  OnModuleInit,
-} from "@nestjs/common";
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository } from "typeorm";
+import { IsNull, Repository } from "typeorm";
 import { AuthState } from "../database/entities/auth-state.entity";
-import { BrowserSessionService } from "./browser-session.service";
+import { NoghreseaTransportService } from "./noghresea-transport.service";
+import { TokenCipherService } from "./token-cipher.service";
+import { EventBus } from "../events/event-bus.service";
+import { AccessService } from "../access/access.service";
 
 // Per-user auth state (in-memory)
 interface UserAuthState {
   accessToken: string | null;
+  expiresAt: Date | null; // From the token's JWT exp claim
   phoneNumber: string | null;
   awaitingPhone: boolean;
   awaitingOtp: boolean;
@@ -29,19 +27,55 @@ export class NoghreseaAuthService implements OnModuleInit {
   constructor(
     @InjectRepository(AuthState)
     private authStateRepo: Repository<AuthState>,
-    @Inject(forwardRef(() => BrowserSessionService))
-    private browserSession: BrowserSessionService,
+    private transport: NoghreseaTransportService,
+    private tokenCipher: TokenCipherService,
+    private eventBus: EventBus,
+    private accessService: AccessService,
   ) {}
 
   async onModuleInit() {
     // No longer load global token - each user manages their own
     this.logger.log("NoghreseaAuthService initialized - per-user auth enabled");
+    await this.backfillTokenExpiry();
+  }
+
+  /**
+   * Tokens stored before expiry tracking have no tokenExpiresAt, so the
+   * expiry watcher would never see them. Read it from the token once.
+   */
+  private async backfillTokenExpiry() {
+    const missing = await this.authStateRepo.find({
+      where: { isValid: true, tokenExpiresAt: IsNull() },
+    });
+    let filled = 0;
+    for (const auth of missing) {
+      try {
+        if (!auth.accessToken) continue;
+        const expiresAt = this.decodeExpiry(
+          this.tokenCipher.decrypt(auth.accessToken),
+        );
+        if (!expiresAt) continue;
+        await this.authStateRepo.update(
+          { id: auth.id },
+          { tokenExpiresAt: expiresAt },
+        );
+        filled++;
+      } catch (e: any) {
+        this.logger.warn(
+          `Could not read token expiry for ${auth.phoneNumber}: ${e.message}`,
+        );
+      }
+    }
+    if (filled > 0) {
+      this.logger.log(`⌛ Backfilled token expiry for ${filled} account(s)`);
+    }
   }
 
   private getUserState(chatId: string): UserAuthState {
     if (!this.userStates.has(chatId)) {
       this.userStates.set(chatId, {
         accessToken: null,
+        expiresAt: null,
         phoneNumber: null,
         awaitingPhone: false,
         awaitingOtp: false,
@@ -50,37 +84,36 @@ export class NoghreseaAuthService implements OnModuleInit {
     return this.userStates.get(chatId)!;
   }
 
+  /**
+   * Load the token of the account this chat is linked to (approved links only)
+   */
   async loadUserAuth(chatId: string): Promise<void> {
     try {
-      // First try to find by chat ID
-      let auth = await this.authStateRepo.findOne({
-        where: { telegramChatId: chatId, isValid: true },
-      });
-
-      // If not found by chat ID, try to find any valid auth (for backward compatibility)
-      if (!auth) {
-        auth = await this.authStateRepo.findOne({
-          where: { isValid: true },
-          order: { updatedAt: "DESC" },
-        });
-        if (auth) {
-          this.logger.log(
-            `📱 Found valid auth for phone ${auth.phoneNumber}, linking to chat ${chatId}`,
-          );
-          // Update the telegram chat ID to current one
-          auth.telegramChatId = chatId;
-          await this.authStateRepo.save(auth);
-        }
+      const state = this.getUserState(chatId);
+      const link = await this.accessService.getApprovedLink(chatId);
+      if (!link) {
+        state.accessToken = null;
+        state.expiresAt = null;
+        return;
       }
 
-      const state = this.getUserState(chatId);
+      const auth = await this.authStateRepo.findOne({
+        where: { phoneNumber: link.phoneNumber, isValid: true },
+      });
       if (auth && auth.isValid && auth.accessToken) {
-        state.accessToken = auth.accessToken;
+        const token = this.tokenCipher.decrypt(auth.accessToken);
+        const expiresAt = auth.tokenExpiresAt ?? this.decodeExpiry(token);
         state.phoneNumber = auth.phoneNumber;
+        if (expiresAt && expiresAt.getTime() <= Date.now()) {
+          this.logger.warn(`⌛ Stored token for chat ${chatId} has expired`);
+          return;
+        }
+        state.accessToken = token;
+        state.expiresAt = expiresAt;
         this.logger.log(`✅ Loaded auth for chat ${chatId}`);
       }
-    } catch (e) {
-      this.logger.warn(`Could not load auth for chat ${chatId}`);
+    } catch (e: any) {
+      this.logger.warn(`Could not load auth for chat ${chatId}: ${e.message}`);
     }
   }
 
@@ -116,20 +149,26 @@ export class NoghreseaAuthService implements OnModuleInit {
 
   async sendOtp(chatId: string, phoneNumber?: string): Promise<boolean> {
     const state = this.getUserState(chatId);
-    const phone = phoneNumber || state.phoneNumber;
+    const phone =
+      phoneNumber ||
+      state.phoneNumber ||
+      (await this.accessService.getApprovedLink(chatId))?.phoneNumber;
 
     if (!phone) {
       this.logger.error(`No phone number provided for OTP (chat: ${chatId})`);
       return false;
     }
+    if (!(await this.accessService.isLinkApproved(chatId, phone))) {
+      this.logger.warn(`OTP refused: chat ${chatId} is not linked to ${phone}`);
+      return false;
+    }
 
     state.phoneNumber = phone;
 
     try {
       this.logger.log(`Sending OTP request to ${phone} for chat ${chatId}...`);
 
-      // Use browser session to bypass ArvanCloud protection
-      const response = await this.browserSession.makeRequest(
+      const response = await this.transport.makeRequest(
         `${this.baseUrl}/api/auth/sentOTP`,
         "POST",
         { phoneNumber: phone },
@@ -161,23 +200,24 @@ export class NoghreseaAuthService implements OnModuleInit {
       );
       return false;
     }
+    if (!(await this.accessService.isLinkApproved(chatId, phoneNumber))) {
+      this.logger.warn(
+        `OTP verification refused: chat ${chatId} is not linked to ${phoneNumber}`,
+      );
+      return false;
+    }
 
     try {
-      // Use browser session to bypass ArvanCloud protection
-      const response = await this.browserSession.makeRequest(
+      const response = await this.transport.makeRequest(
         `${this.baseUrl}/api/auth/verifyOTP`,
         "POST",
         { otp, phoneNumber, source: "" },
       );
 
       if (response.accessToken) {
+        const expiresAt = this.decodeExpiry(response.accessToken);
         state.accessToken = response.accessToken;
-
-        // Decode JWT to get expiry
-        const payload = JSON.parse(
-          Buffer.from(response.accessToken.split(".")[1], "base64").toString(),
-        );
-        const expiresAt = new Date(payload.exp * 1000);
+        state.expiresAt = expiresAt;
 
         // Save to DB - use phone number as primary identifier
         let auth = await this.authStateRepo.findOne({
@@ -201,14 +241,16 @@ export class NoghreseaAuthService implements OnModuleInit {
           auth.telegramChatId = chatId;
         }
 
-        auth.accessToken = state.accessToken!;
+        auth.accessToken = this.tokenCipher.encrypt(state.accessToken!);
         auth.tokenExpiresAt = expiresAt;
+        auth.expiryWarnedAt = null;
         auth.isValid = true;
         await this.authStateRepo.save(auth);
 
         this.logger.log(
-          `✅ Authentication successful for chat ${chatId}, expires: ${expiresAt.toISOString()}`,
+          `✅ Authentication successful for chat ${chatId}, expires: ${expiresAt?.toISOString() ?? "unknown"}`,
         );
+        await this.eventBus.emit("AuthRestored", { chatId });
         return true;
       }
       return false;
@@ -226,12 +268,23 @@ export class NoghreseaAuthService implements OnModuleInit {
     return this.getUserState(chatId).accessToken;
   }
 
+  /**
+   * A token is usable until its expiry; lapsed tokens count as logged out
+   */
   isAuthenticated(chatId?: string): boolean {
     if (!chatId) return false;
     const state = this.getUserState(chatId);
+    if (state.expiresAt && state.expiresAt.getTime() <= Date.now()) {
+      return false;
+    }
     return !!state.accessToken;
   }
 
+  getTokenExpiry(chatId?: string): Date | null {
+    if (!chatId) return null;
+    return this.getUserState(chatId).expiresAt;
+  }
+
   async isPhoneNumberAuthorized(phoneNumber: string): Promise<boolean> {
     try {
       const auth = await this.authStateRepo.findOne({
@@ -258,6 +311,7 @@ export class NoghreseaAuthService implements OnModuleInit {
     const phoneNumber = state.phoneNumber;
 
     state.accessToken = null;
+    state.expiresAt = null;
     state.phoneNumber = null;
     state.awaitingOtp = false;
     state.awaitingPhone = false;
@@ -277,4 +331,45 @@ export class NoghreseaAuthService implements OnModuleInit {
       this.logger.warn(`Token invalidated for chat ${chatId}`);
     }
   }
+
+  /**
+   * Drop the chat's in-memory session (link revoked or access removed).
+   * The stored token stays valid for other chats linked to the same phone.
+   */
+  forgetChat(chatId: string) {
+    this.userStates.delete(chatId);
+  }
+
+  /**
+   * Drop a lapsed token. Unlike invalidateToken the phone number is kept,
+   * so a one-tap "Send OTP" can log the user back in.
+   */
+  async expireToken(chatId: string) {
+    const state = this.getUserState(chatId);
+    state.accessToken = null;
+    state.expiresAt = null;
+    state.awaitingOtp = false;
+
+    await this.authStateRepo.update(
+      state.phoneNumber
+        ? { phoneNumber: state.phoneNumber }
+        : { telegramChatId: chatId },
+      { isValid: false },
+    );
+    this.logger.warn(`⌛ Token expired for chat ${chatId}`);
+  }
+
+  // exp claim of the JWT, null if the token carries none
+  private decodeExpiry(token: string): Date | null {
+    try {
+      const payload = JSON.parse(
+        Buffer.from(token.split(".")[1], "base64url").toString(),
+      );
+      return typeof payload.exp === "number"
+        ? new Date(payload.exp * 1000)
+        : null;
+    } catch {
+      return null;
+    }
+  }
 }
@@ -0,0 +1,25 @@
+export type NoghreseaMethod = "GET" | "POST";
+
+/**
+ * How requests reach noghresea.ir through the ArvanCloud challenge.
+ * Responses are parsed JSON, or the raw text when the body is not JSON.
+ */
+export interface NoghreseaTransport {
+  readonly name: string;
+
+  makeRequest(
+    url: string,
+    method?: NoghreseaMethod,
+    body?: any,
+    authToken?: string,
+  ): Promise<any>;
+}
+
+// Cookies that passed the challenge, plus the user agent they were issued to
+export interface NoghreseaSession {
+  cookies: { name: string; value: string; domain: string }[];
+  userAgent: string;
+}
+
+export const NOGHRESEA_TRANSPORTS = ["browser", "http"] as const;
+export type NoghreseaTransportName = (typeof NOGHRESEA_TRANSPORTS)[number];
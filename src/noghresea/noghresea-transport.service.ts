@@ -0,0 +1,53 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { BrowserSessionService } from "./browser-session.service";
+import { HttpSessionService } from "./http-session.service";
+import {
+  NoghreseaMethod,
+  NoghreseaTransport,
+  NoghreseaTransportName,
+} from "./noghresea-transport.interface";
+
+/**
+ * Noghresea Transport - Sends Noghresea requests through the transport
+ * selected by NOGHRESEA_TRANSPORT (browser by default)
+ */
+@Injectable()
+export class NoghreseaTransportService implements NoghreseaTransport {
+  private readonly logger = new Logger(NoghreseaTransportService.name);
+  private readonly transport: NoghreseaTransport;
+
+  constructor(
+    private configService: ConfigService,
+    browserSession: BrowserSessionService,
+    httpSession: HttpSessionService,
+  ) {
+    const transports: Record<NoghreseaTransportName, NoghreseaTransport> = {
+      browser: browserSession,
+      http: httpSession,
+    };
+    const selected = this.configService.get<string>(
+      "NOGHRESEA_TRANSPORT",
+      "browser",
+    ) as NoghreseaTransportName;
+
+    this.transport = transports[selected] ?? browserSession;
+    if (!transports[selected]) {
+      this.logger.warn(`Unknown transport "${selected}", using browser`);
+    }
+    this.logger.log(`🚚 Noghresea requests go through ${this.transport.name}`);
+  }
+
+  get name(): string {
+    return this.transport.name;
+  }
+
+  makeRequest(
+    url: string,
+    method: NoghreseaMethod = "GET",
+    body?: any,
+    authToken?: string,
+  ): Promise<any> {
+    return this.transport.makeRequest(url, method, body, authToken);
+  }
+}
@@ -1,18 +1,35 @@
-import { Module, forwardRef } from "@nestjs/common";
+import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 import { NoghreseaApiService } from "./noghresea-api.service";
 import { NoghreseaAuthService } from "./noghresea-auth.service";
 import { BrowserSessionService } from "./browser-session.service";
+import { HttpSessionService } from "./http-session.service";
+import { NoghreseaTransportService } from "./noghresea-transport.service";
+import { TokenCipherService } from "./token-cipher.service";
 import { AuthState } from "../database/entities/auth-state.entity";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
-import { TelegramBotModule } from "../telegram-bot/telegram-bot.module";
+import { EventsModule } from "../events/events.module";
+import { AccessModule } from "../access/access.module";
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([AuthState, NoghreseaPrice]),
-    forwardRef(() => TelegramBotModule),
+    EventsModule,
+    AccessModule,
+  ],
+  providers: [
+    NoghreseaApiService,
+    NoghreseaAuthService,
+    BrowserSessionService,
+    HttpSessionService,
+    NoghreseaTransportService,
+    TokenCipherService,
+  ],
+  exports: [
+    NoghreseaApiService,
+    NoghreseaAuthService,
+    BrowserSessionService,
+    NoghreseaTransportService,
   ],
-  providers: [NoghreseaApiService, NoghreseaAuthService, BrowserSessionService],
-  exports: [NoghreseaApiService, NoghreseaAuthService, BrowserSessionService],
 })
 export class NoghreseaModule {}
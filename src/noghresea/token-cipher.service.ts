@@ -0,0 +1,35 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  TokenKeyring,
+  decryptToken,
+  encryptToken,
+  loadTokenKeyring,
+} from "../common/token-crypto";
+
+/**
+ * Token Cipher - Encrypts Noghresea access tokens before they hit the database
+ * Master key from TOKEN_ENCRYPTION_KEY or the local key file
+ */
+@Injectable()
+export class TokenCipherService {
+  private readonly logger = new Logger(TokenCipherService.name);
+  private readonly keyring: TokenKeyring;
+
+  constructor(private configService: ConfigService) {
+    this.keyring = loadTokenKeyring((name) => this.configService.get(name));
+    this.logger.log(
+      `🔑 Token encryption key ${this.keyring.current.id} loaded from ${
+        this.keyring.source === "env" ? "environment" : this.keyring.keyFile
+      }`,
+    );
+  }
+
+  encrypt(token: string): string {
+    return encryptToken(token, this.keyring);
+  }
+
+  decrypt(stored: string): string {
+    return decryptToken(stored, this.keyring);
+  }
+}
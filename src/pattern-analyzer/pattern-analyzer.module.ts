@@ -4,12 +4,14 @@ import { PatternAnalyzerService } from "./pattern-analyzer.service";
 import { PatternEvent } from "../database/entities/pattern-event.entity";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
 import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
+import { IndicatorsModule } from "../indicators/indicators.module";
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([PatternEvent]),
     NoghreseaModule,
     PriceFetcherModule,
+    IndicatorsModule,
   ],
   providers: [PatternAnalyzerService],
   exports: [PatternAnalyzerService],
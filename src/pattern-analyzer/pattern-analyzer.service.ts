@@ -5,12 +5,17 @@ import {
   PatternEvent,
   PatternType,
 } from "../database/entities/pattern-event.entity";
-import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
 import {
   PriceFetcherService,
   AllPrices,
+  MarketDataSource,
 } from "../price-fetcher/price-fetcher.service";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { Clock, systemClock } from "../common/clock";
+import {
+  IndicatorService,
+  IndicatorSnapshot,
+} from "../indicators/indicator.service";
 
 export interface PatternAnalysis {
   detected: boolean;
@@ -25,6 +30,15 @@ export interface DetectedPattern {
   description: string;
 }
 
+/**
+ * Optional overrides for running analysis outside the live cycle (e.g. backtests)
+ */
+export interface AnalysisContext {
+  dataSource?: MarketDataSource; // Defaults to live DB history
+  clock?: Clock; // Defaults to the system clock
+  persist?: boolean; // Save detected PatternEvents (default true)
+}
+
 @Injectable()
 export class PatternAnalyzerService {
   private readonly logger = new Logger(PatternAnalyzerService.name);
@@ -32,12 +46,16 @@ export class PatternAnalyzerService {
   constructor(
     @InjectRepository(PatternEvent)
     private patternEventRepo: Repository<PatternEvent>,
-    private noghreseaApi: NoghreseaApiService,
     private priceFetcher: PriceFetcherService,
+    private indicatorService: IndicatorService,
   ) {}
 
-  async analyze(prices: AllPrices): Promise<PatternAnalysis> {
-    const recentPrices = await this.noghreseaApi.getRecentPrices(10); // Last 10 minutes
+  async analyze(
+    prices: AllPrices,
+    context: AnalysisContext = {},
+  ): Promise<PatternAnalysis> {
+    const dataSource = context.dataSource ?? this.priceFetcher;
+    const recentPrices = await dataSource.getRecentNoghreseaPrices(10); // Last 10 minutes
     const patterns: DetectedPattern[] = [];
 
     this.logger.debug(
@@ -77,6 +95,7 @@ export class PatternAnalyzerService {
     const marketCorrelation = await this.detectMarketCorrelation(
       prices,
       recentPrices,
+      dataSource,
     );
     if (marketCorrelation) patterns.push(marketCorrelation);
 
@@ -88,12 +107,28 @@ export class PatternAnalyzerService {
     const dropBottom = this.detectDropBottom(recentPrices);
     if (dropBottom) patterns.push(dropBottom);
 
+    // Check for RSI/Bollinger extremes on resampled candles
+    const indicators = await this.indicatorService.getIndicators(
+      prices,
+      context,
+    );
+    const extreme = this.detectIndicatorExtreme(indicators);
+    if (extreme) patterns.push(extreme);
+
     // Calculate overall analysis
     const analysis = this.calculateOverallAnalysis(patterns, recentPrices);
 
     // Save significant patterns (only when confidence >= 70% - lowered for better tracking)
-    if (analysis.detected && analysis.overallConfidence >= 70) {
-      await this.savePatternEvent(analysis, prices);
+    if (
+      analysis.detected &&
+      analysis.overallConfidence >= 70 &&
+      context.persist !== false
+    ) {
+      await this.savePatternEvent(
+        analysis,
+        prices,
+        (context.clock ?? systemClock).now(),
+      );
     }
 
     return analysis;
@@ -186,11 +221,12 @@ export class PatternAnalyzerService {
   private async detectMarketCorrelation(
     prices: AllPrices,
     recentNoghresea: NoghreseaPrice[],
+    dataSource: MarketDataSource,
   ): Promise<DetectedPattern | null> {
     if (!prices.silverOunce || recentNoghresea.length < 3) return null;
 
     // Get recent silver ounce prices
-    const recentSilverOunce = await this.priceFetcher.getRecentSnapshots(
+    const recentSilverOunce = await dataSource.getRecentSnapshots(
       "SILVER_OUNCE" as any,
       5,
     );
@@ -323,6 +359,35 @@ export class PatternAnalyzerService {
     return null;
   }
 
+  /**
+   * Detect OVERSOLD / OVERBOUGHT - RSI extreme confirmed by the price
+   * closing outside its Bollinger band
+   */
+  private detectIndicatorExtreme(
+    indicators: IndicatorSnapshot,
+  ): DetectedPattern | null {
+    const { rsi14, bollinger } = indicators;
+    if (rsi14 === null || !bollinger) return null;
+
+    if (rsi14 <= 30 && bollinger.percentB <= 0) {
+      return {
+        type: PatternType.OVERSOLD,
+        confidence: Math.min(55 + (30 - rsi14) * 1.5, 85),
+        description: `Oversold: RSI ${rsi14.toFixed(1)}, price below lower Bollinger band`,
+      };
+    }
+
+    if (rsi14 >= 70 && bollinger.percentB >= 1) {
+      return {
+        type: PatternType.OVERBOUGHT,
+        confidence: Math.min(55 + (rsi14 - 70) * 1.5, 85),
+        description: `Overbought: RSI ${rsi14.toFixed(1)}, price above upper Bollinger band`,
+      };
+    }
+
+    return null;
+  }
+
   private calculateOverallAnalysis(
     patterns: DetectedPattern[],
     recentPrices: NoghreseaPrice[],
@@ -369,6 +434,10 @@ export class PatternAnalyzerService {
     const hasDropBottom = patterns.some(
       (p) => p.type === PatternType.DROP_BOTTOM,
     );
+    const hasOversold = patterns.some((p) => p.type === PatternType.OVERSOLD);
+    const hasOverbought = patterns.some(
+      (p) => p.type === PatternType.OVERBOUGHT,
+    );
 
     // Decision logic - ORDER MATTERS! Check most actionable patterns first
 
@@ -401,6 +470,12 @@ export class PatternAnalyzerService {
     else if (hasSuddenDrop && hasManipulation) {
       suggestion = "HOLD"; // Wait for bottom
     }
+    // 8. Indicator extremes only when no tick pattern decided
+    else if (hasOversold && !hasMultiBearish) {
+      suggestion = "BUY";
+    } else if (hasOverbought && !hasMultiBullish) {
+      suggestion = "SELL";
+    }
 
     return {
       detected: true,
@@ -410,7 +485,11 @@ export class PatternAnalyzerService {
     };
   }
 
-  private async savePatternEvent(analysis: PatternAnalysis, prices: AllPrices) {
+  private async savePatternEvent(
+    analysis: PatternAnalysis,
+    prices: AllPrices,
+    detectedAt: Date,
+  ) {
     const mainPattern = analysis.patterns.reduce((prev, curr) =>
       curr.confidence > prev.confidence ? curr : prev,
     );
@@ -426,7 +505,7 @@ export class PatternAnalyzerService {
         patterns: analysis.patterns,
         suggestion: analysis.suggestion,
       },
-      detectedAt: new Date(),
+      detectedAt,
     });
 
     await this.patternEventRepo.save(event);
@@ -4,10 +4,16 @@ import { PriceFetcherService } from "./price-fetcher.service";
 import { WallexService } from "./sources/wallex.service";
 import { MetalsService } from "./sources/metals.service";
 import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
+import { CandlesModule } from "../candles/candles.module";
 
 @Module({
-  imports: [TypeOrmModule.forFeature([PriceSnapshot]), NoghreseaModule],
+  imports: [
+    TypeOrmModule.forFeature([PriceSnapshot, PremiumSnapshot]),
+    NoghreseaModule,
+    CandlesModule,
+  ],
   providers: [PriceFetcherService, WallexService, MetalsService],
   exports: [PriceFetcherService, WallexService, MetalsService],
 })
@@ -9,17 +9,48 @@ import {
   PriceSource,
 } from "../database/entities/price-snapshot.entity";
 import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import {
+  CandleSource,
+  CandleTimeframe,
+} from "../database/entities/price-candle.entity";
+import { CandleService } from "../candles/candle.service";
+import { Candle } from "../candles/candle";
+import {
+  calculateFairValuePrice,
+  calculatePremiumPercent,
+} from "../analysis/premium";
 
 export interface AllPrices {
   noghresea: NoghreseaPrice | null;
   silverOunce: number | null;
+  silverOunceEstimated: boolean; // Derived from Noghresea, not a real quote
   goldOunce: number | null;
   usdtToman: number | null;
   fetchedAt: Date;
 }
 
+/**
+ * Read access to recent market history, newest first.
+ * Implemented by PriceFetcherService for live data and by the backtester for replays.
+ */
+export interface MarketDataSource {
+  getRecentNoghreseaPrices(minutes: number): Promise<NoghreseaPrice[]>;
+  getRecentSnapshots(
+    source: PriceSource,
+    minutes: number,
+  ): Promise<PriceSnapshot[]>;
+  getRecentPremiums(minutes: number): Promise<PremiumSnapshot[]>;
+  // Oldest first, gaps filled
+  getRecentCandles(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    minutes: number,
+  ): Promise<Candle[]>;
+}
+
 @Injectable()
-export class PriceFetcherService {
+export class PriceFetcherService implements MarketDataSource {
   private readonly logger = new Logger(PriceFetcherService.name);
   private lastPrices: AllPrices | null = null;
 
@@ -27,8 +58,11 @@ export class PriceFetcherService {
     private wallexService: WallexService,
     private metalsService: MetalsService,
     private noghreseaApi: NoghreseaApiService,
+    private candleService: CandleService,
     @InjectRepository(PriceSnapshot)
     private priceSnapshotRepo: Repository<PriceSnapshot>,
+    @InjectRepository(PremiumSnapshot)
+    private premiumSnapshotRepo: Repository<PremiumSnapshot>,
   ) {}
 
   async fetchAllPrices(): Promise<AllPrices> {
@@ -108,6 +142,7 @@ export class PriceFetcherService {
     this.lastPrices = {
       noghresea,
       silverOunce,
+      silverOunceEstimated: silverIsEstimated,
       goldOunce: metals?.goldOunce || null,
       usdtToman: wallex?.usdtToman || null,
       fetchedAt,
@@ -118,13 +153,60 @@ export class PriceFetcherService {
       `💰 Prices: Noghresea=${noghresea?.price?.toFixed(2)}, Silver=$${silverOunce?.toFixed(2)}${silverSource}, Gold=$${this.lastPrices.goldOunce?.toFixed(2) || "N/A"}, USDT=${wallex?.usdtToman}`,
     );
 
+    await this.storePremium(this.lastPrices);
+
     return this.lastPrices;
   }
 
+  /**
+   * Record the fair value and premium for this cycle.
+   * Skipped when silver is estimated, since that estimate is itself derived
+   * from the Noghresea price and would make the premium a constant.
+   */
+  private async storePremium(prices: AllPrices) {
+    if (
+      !prices.noghresea?.price ||
+      !prices.silverOunce ||
+      prices.silverOunceEstimated ||
+      !prices.usdtToman
+    ) {
+      return;
+    }
+
+    const noghreseaPrice = Number(prices.noghresea.price);
+    try {
+      await this.premiumSnapshotRepo.save(
+        this.premiumSnapshotRepo.create({
+          noghreseaPrice,
+          silverOunce: prices.silverOunce,
+          usdtToman: prices.usdtToman,
+          fairValuePrice: calculateFairValuePrice(
+            prices.silverOunce,
+            prices.usdtToman,
+          ),
+          premiumPercent: calculatePremiumPercent(
+            noghreseaPrice,
+            prices.silverOunce,
+            prices.usdtToman,
+          ),
+          recordedAt: prices.fetchedAt,
+        }),
+      );
+    } catch (error: any) {
+      this.logger.warn(`Failed to store premium snapshot: ${error.message}`);
+    }
+  }
+
   getLastPrices(): AllPrices | null {
     return this.lastPrices;
   }
 
+  async getRecentNoghreseaPrices(
+    minutes: number = 30,
+  ): Promise<NoghreseaPrice[]> {
+    return this.noghreseaApi.getRecentPrices(minutes);
+  }
+
   async getRecentSnapshots(
     source: PriceSource,
     minutes: number = 30,
@@ -137,4 +219,21 @@ export class PriceFetcherService {
       .orderBy("p.fetchedAt", "DESC")
       .getMany();
   }
+
+  async getRecentPremiums(minutes: number = 30): Promise<PremiumSnapshot[]> {
+    const since = new Date(Date.now() - minutes * 60 * 1000);
+    return this.premiumSnapshotRepo
+      .createQueryBuilder("p")
+      .where("p.recordedAt >= :since", { since })
+      .orderBy("p.recordedAt", "DESC")
+      .getMany();
+  }
+
+  async getRecentCandles(
+    source: CandleSource,
+    timeframe: CandleTimeframe,
+    minutes: number,
+  ): Promise<Candle[]> {
+    return this.candleService.getRecentCandles(source, timeframe, minutes);
+  }
 }
@@ -1,7 +1,7 @@
 import { Injectable, Logger } from "@nestjs/common";
 import axios from "axios";
 import * as https from "https";
-import { GRAMS_PER_OUNCE, GRAMS_PER_MESGHAL } from "../../common/constants";
+import { noghreseaToUsdPerOunce } from "../../analysis/premium";
 
 export interface MetalPrices {
   silverOunce: number; // USD per ounce
@@ -143,26 +143,9 @@ export class MetalsService {
     noghreseaPrice: number,
     usdtToman: number,
   ): number {
-    // Noghresea price appears to be in Toman per 0.1 gram (decigram)
-    // So 790.93 means 790.93 Toman per 0.1 gram = 7909.3 Toman per gram
-    // But actually, checking real silver prices (~$32/oz), let's verify:
-    // Expected: $32/oz = $1.03/gram = 166,570 Toman/gram (at 161,816 rate)
-    // If Noghresea shows 790.93, and intl is ~$32:
-    // 790.93 * X / 161816 * 31.1035 / 1.17 = 32
-    // Solving: X ≈ 230 (so price is in units of 230 Toman, or roughly Toman per 0.004g)
-
-    // Let's just use a simpler approach - the Noghresea price is per some unit
-    // We'll reverse engineer based on expected international price ratio
-    // Iranian silver typically trades at ~120-150% of international price
-
-    // Simpler: assume 790.93 is in "Hezar Toman" (thousand Tomans) per Mesghal
-    const pricePerMesghalToman = noghreseaPrice * 1000; // thousand Tomans
-    const pricePerGramToman = pricePerMesghalToman / GRAMS_PER_MESGHAL;
-    const pricePerGramUsd = pricePerGramToman / usdtToman;
-    const pricePerOunceUsd = pricePerGramUsd * GRAMS_PER_OUNCE;
-
     // Remove the Iranian markup (typically 20-30%)
-    const estimatedInternational = pricePerOunceUsd / 1.25;
+    const estimatedInternational =
+      noghreseaToUsdPerOunce(noghreseaPrice, usdtToman) / 1.25;
 
     return estimatedInternational;
   }
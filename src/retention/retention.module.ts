@@ -0,0 +1,25 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { RetentionService } from "./retention.service";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { PatternEvent } from "../database/entities/pattern-event.entity";
+import { PriceCandle } from "../database/entities/price-candle.entity";
+import { CandlesModule } from "../candles/candles.module";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      NoghreseaPrice,
+      PriceSnapshot,
+      PremiumSnapshot,
+      PatternEvent,
+      PriceCandle,
+    ]),
+    CandlesModule,
+  ],
+  providers: [RetentionService],
+  exports: [RetentionService],
+})
+export class RetentionModule {}
@@ -0,0 +1,276 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Cron } from "@nestjs/schedule";
+import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
+import { DataSource, Repository, Between, LessThan } from "typeorm";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { gzipSync } from "zlib";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { PriceSnapshot } from "../database/entities/price-snapshot.entity";
+import { PremiumSnapshot } from "../database/entities/premium-snapshot.entity";
+import { PatternEvent } from "../database/entities/pattern-event.entity";
+import {
+  PriceCandle,
+  CandleSource,
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import { CandleService } from "../candles/candle.service";
+import { PricePoint, bucketStart } from "../candles/candle";
+import { TEHRAN_UTC_OFFSET_MINUTES } from "../common/constants";
+
+export interface TableStats {
+  rows: number; // Planner estimate, cheap on large tables
+  sizeBytes: number;
+}
+
+export interface RetentionRunResult {
+  startedAt: Date;
+  finishedAt: Date;
+  deleted: Record<string, number>;
+  error?: string;
+}
+
+interface RetentionTarget {
+  table: string;
+  repo: Repository<any>;
+  timeColumn: string;
+  days: number;
+  // Points to fold into candles before the rows are deleted
+  toPoints?: (rows: any[]) => Map<CandleSource, PricePoint[]>;
+}
+
+const DAY_MINUTES = 24 * 60;
+const DAY_MS = DAY_MINUTES * 60 * 1000;
+
+/**
+ * Retention - Keeps high-frequency tables bounded
+ * Rows past their retention window are folded into candles, appended to
+ * gzipped JSON-lines archives and deleted, one Tehran day at a time
+ */
+@Injectable()
+export class RetentionService {
+  private readonly logger = new Logger(RetentionService.name);
+  private isRunning = false;
+  private lastRun: RetentionRunResult | null = null;
+
+  readonly MONITORED_TABLES = [
+    "noghresea_prices",
+    "price_snapshots",
+    "premium_snapshots",
+    "price_candles",
+    "pattern_events",
+    "ai_predictions",
+  ];
+
+  constructor(
+    private configService: ConfigService,
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @InjectRepository(NoghreseaPrice)
+    private noghreseaPriceRepo: Repository<NoghreseaPrice>,
+    @InjectRepository(PriceSnapshot)
+    private priceSnapshotRepo: Repository<PriceSnapshot>,
+    @InjectRepository(PremiumSnapshot)
+    private premiumSnapshotRepo: Repository<PremiumSnapshot>,
+    @InjectRepository(PatternEvent)
+    private patternEventRepo: Repository<PatternEvent>,
+    @InjectRepository(PriceCandle)
+    private candleRepo: Repository<PriceCandle>,
+    private candleService: CandleService,
+  ) {}
+
+  /**
+   * Daily retention pass (04:00 server time, after the nightly summary)
+   */
+  @Cron("0 0 4 * * *")
+  async runRetention(): Promise<RetentionRunResult | null> {
+    if (this.isRunning) return null;
+    this.isRunning = true;
+
+    const result: RetentionRunResult = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      deleted: {},
+    };
+
+    try {
+      for (const target of this.targets()) {
+        result.deleted[target.table] = await this.applyTarget(target);
+      }
+
+      const minuteCandleDays = this.getDays("RETENTION_MINUTE_CANDLE_DAYS", 90);
+      const candles = await this.candleRepo.delete({
+        timeframe: CandleTimeframe.M1,
+        openTime: LessThan(this.cutoff(minuteCandleDays)),
+      });
+      result.deleted["price_candles(1m)"] = candles.affected ?? 0;
+
+      this.logger.log(
+        `🧹 Retention done: ${Object.entries(result.deleted)
+          .map(([table, count]) => `${table}=${count}`)
+          .join(", ")}`,
+      );
+    } catch (error: any) {
+      result.error = error.message;
+      this.logger.error(`Retention failed: ${error.message}`);
+    } finally {
+      result.finishedAt = new Date();
+      this.lastRun = result;
+      this.isRunning = false;
+    }
+
+    return result;
+  }
+
+  getLastRun(): RetentionRunResult | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Row estimates and on-disk size (including indexes) per monitored table
+   */
+  async getTableStats(): Promise<Record<string, TableStats>> {
+    const rows: { table: string; rows: string; bytes: string }[] =
+      await this.dataSource.query(
+        `SELECT relname AS "table",
+                n_live_tup AS "rows",
+                pg_total_relation_size(relid) AS "bytes"
+           FROM pg_stat_user_tables
+          WHERE relname = ANY($1)`,
+        [this.MONITORED_TABLES],
+      );
+
+    const stats: Record<string, TableStats> = {};
+    for (const row of rows) {
+      stats[row.table] = {
+        rows: Number(row.rows),
+        sizeBytes: Number(row.bytes),
+      };
+    }
+    return stats;
+  }
+
+  private targets(): RetentionTarget[] {
+    const rawDays = this.getDays("RETENTION_RAW_DAYS", 14);
+
+    return [
+      {
+        table: "noghresea_prices",
+        repo: this.noghreseaPriceRepo,
+        timeColumn: "recordedAt",
+        days: rawDays,
+        toPoints: (rows: NoghreseaPrice[]) =>
+          new Map([
+            [
+              NOGHRESEA_CANDLE_SOURCE,
+              rows.map((r) => ({ price: Number(r.price), time: r.recordedAt })),
+            ],
+          ]),
+      },
+      {
+        table: "price_snapshots",
+        repo: this.priceSnapshotRepo,
+        timeColumn: "fetchedAt",
+        days: rawDays,
+        toPoints: (rows: PriceSnapshot[]) => {
+          const bySource = new Map<CandleSource, PricePoint[]>();
+          for (const r of rows) {
+            if (!bySource.has(r.source)) bySource.set(r.source, []);
+            bySource
+              .get(r.source)!
+              .push({ price: Number(r.price), time: r.fetchedAt });
+          }
+          return bySource;
+        },
+      },
+      {
+        table: "premium_snapshots",
+        repo: this.premiumSnapshotRepo,
+        timeColumn: "recordedAt",
+        days: rawDays,
+      },
+      {
+        table: "pattern_events",
+        repo: this.patternEventRepo,
+        timeColumn: "detectedAt",
+        days: this.getDays("RETENTION_PATTERN_DAYS", 90),
+      },
+    ];
+  }
+
+  /**
+   * Process every full day older than the target's window, oldest first
+   */
+  private async applyTarget(target: RetentionTarget): Promise<number> {
+    const cutoff = this.cutoff(target.days);
+    const oldest = await target.repo.findOne({
+      where: { [target.timeColumn]: LessThan(cutoff) },
+      order: { [target.timeColumn]: "ASC" },
+    });
+    if (!oldest) return 0;
+
+    let deleted = 0;
+    for (
+      let dayStart = bucketStart(oldest[target.timeColumn], DAY_MINUTES);
+      dayStart < cutoff;
+      dayStart = new Date(dayStart.getTime() + DAY_MS)
+    ) {
+      const range = Between(
+        dayStart,
+        new Date(dayStart.getTime() + DAY_MS - 1),
+      );
+      const rows = await target.repo.find({
+        where: { [target.timeColumn]: range },
+        order: { [target.timeColumn]: "ASC" },
+      });
+      if (rows.length === 0) continue;
+
+      if (target.toPoints) {
+        for (const [source, points] of target.toPoints(rows)) {
+          await this.candleService.importPoints(source, points);
+        }
+      }
+      await this.archive(target.table, dayStart, rows);
+
+      const result = await target.repo.delete({ [target.timeColumn]: range });
+      deleted += result.affected ?? 0;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Append rows to <dir>/<table>/<tehran-date>.jsonl.gz.
+   * Concatenated gzip members stay a valid gzip file, so reruns just append.
+   */
+  private async archive(table: string, dayStart: Date, rows: any[]) {
+    const dir = path.resolve(
+      this.configService.get("RETENTION_ARCHIVE_DIR", "archive"),
+      table,
+    );
+    await fs.mkdir(dir, { recursive: true });
+
+    const tehranDate = new Date(
+      dayStart.getTime() + TEHRAN_UTC_OFFSET_MINUTES * 60 * 1000,
+    )
+      .toISOString()
+      .split("T")[0];
+    const body = rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+    await fs.appendFile(
+      path.join(dir, `${tehranDate}.jsonl.gz`),
+      gzipSync(body),
+    );
+  }
+
+  // Start of the Tehran day `days` days ago; only whole days are purged
+  private cutoff(days: number): Date {
+    return bucketStart(new Date(Date.now() - days * DAY_MS), DAY_MINUTES);
+  }
+
+  private getDays(key: string, fallback: number): number {
+    const days = parseInt(this.configService.get(key, String(fallback)));
+    return isNaN(days) || days < 1 ? fallback : days;
+  }
+}
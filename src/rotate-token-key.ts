@@ -0,0 +1,92 @@
+// Re-wrap every stored Noghresea access token under a new master key
+// Stop the app first and start it again afterwards - it caches the keyring.
+//
+// Key file (default): npx ts-node src/rotate-token-key.ts
+//   Generates the new key, re-wraps all tokens, then drops the old key.
+// TOKEN_ENCRYPTION_KEY: npx ts-node src/rotate-token-key.ts --generate
+//   Prints a new key. Set it as TOKEN_ENCRYPTION_KEY, move the old one to
+//   TOKEN_ENCRYPTION_PREVIOUS_KEYS, run this script without --generate,
+//   then remove TOKEN_ENCRYPTION_PREVIOUS_KEYS.
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { DataSource } from "typeorm";
+import {
+  generateTokenKey,
+  loadTokenKeyring,
+  rewrapToken,
+  writeKeyFile,
+} from "./common/token-crypto";
+
+// Load environment variables
+dotenv.config();
+
+const env = (name: string) => process.env[name];
+
+async function rotateTokenKey() {
+  if (process.argv.includes("--generate")) {
+    console.log("\n🔑 New token encryption key:\n");
+    console.log(`TOKEN_ENCRYPTION_KEY=${generateTokenKey()}`);
+    return;
+  }
+
+  let keyring = loadTokenKeyring(env);
+  let newKey: string | null = null;
+
+  if (keyring.source === "file") {
+    // Keep the old keys in the file until every token is re-wrapped
+    const oldKeys = fs
+      .readFileSync(keyring.keyFile!, "utf8")
+      .split("\n")
+      .filter((line) => line.trim());
+    newKey = generateTokenKey();
+    writeKeyFile(keyring.keyFile!, [newKey, ...oldKeys]);
+    keyring = loadTokenKeyring(env);
+  }
+
+  const dataSource = new DataSource({
+    type: "postgres",
+    host: env("DB_HOST") || "localhost",
+    port: parseInt(env("DB_PORT") || "5432"),
+    username: env("DB_USERNAME") || "postgres",
+    password: env("DB_PASSWORD") || "postgres",
+    database: env("DB_NAME") || "silver_predictor",
+  });
+  await dataSource.initialize();
+
+  try {
+    let rotated = 0;
+    await dataSource.transaction(async (manager) => {
+      const rows: { id: string; access_token: string }[] = await manager.query(
+        `SELECT id, access_token FROM auth_state WHERE access_token IS NOT NULL`,
+      );
+      for (const row of rows) {
+        const rewrapped = rewrapToken(row.access_token, keyring);
+        if (rewrapped === row.access_token) continue;
+        await manager.query(
+          `UPDATE auth_state SET access_token = $1 WHERE id = $2`,
+          [rewrapped, row.id],
+        );
+        rotated++;
+      }
+    });
+
+    if (newKey) {
+      writeKeyFile(keyring.keyFile!, [newKey]);
+    }
+
+    console.log(
+      `✅ Re-wrapped ${rotated} token(s) under key ${keyring.current.id}`,
+    );
+    if (keyring.source === "env" && keyring.keys.size > 1) {
+      console.log("You can now remove TOKEN_ENCRYPTION_PREVIOUS_KEYS.");
+    }
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+rotateTokenKey().catch((error) => {
+  console.error("❌ Key rotation failed:", error.message);
+  process.exit(1);
+});
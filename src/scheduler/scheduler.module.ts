@@ -5,9 +5,11 @@ import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
 import { PatternAnalyzerModule } from "../pattern-analyzer/pattern-analyzer.module";
 import { AiDecisionModule } from "../ai-decision/ai-decision.module";
 import { TradeExecutorModule } from "../trade-executor/trade-executor.module";
-import { TelegramBotModule } from "../telegram-bot/telegram-bot.module";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
 import { AnalysisModule } from "../analysis/analysis.module";
+import { StrategyModule } from "../strategy/strategy.module";
+import { EventsModule } from "../events/events.module";
+import { AccessModule } from "../access/access.module";
 import { AuthState } from "../database/entities/auth-state.entity";
 
 @Module({
@@ -17,9 +19,11 @@ import { AuthState } from "../database/entities/auth-state.entity";
     PatternAnalyzerModule,
     AiDecisionModule,
     TradeExecutorModule,
-    TelegramBotModule,
     NoghreseaModule,
     AnalysisModule,
+    StrategyModule,
+    EventsModule,
+    AccessModule,
   ],
   providers: [SchedulerService],
 })
@@ -3,58 +3,82 @@ import { ConfigService } from "@nestjs/config";
 import { Interval, Cron } from "@nestjs/schedule";
 import { InjectRepository } from "@nestjs/typeorm";
 import { Repository } from "typeorm";
-import { PriceFetcherService } from "../price-fetcher/price-fetcher.service";
-import { PatternAnalyzerService } from "../pattern-analyzer/pattern-analyzer.service";
-import { AiDecisionService } from "../ai-decision/ai-decision.service";
-import { TradeExecutorService } from "../trade-executor/trade-executor.service";
-import { TelegramBotService } from "../telegram-bot/telegram-bot.service";
+import {
+  AllPrices,
+  PriceFetcherService,
+} from "../price-fetcher/price-fetcher.service";
+import {
+  PatternAnalysis,
+  PatternAnalyzerService,
+} from "../pattern-analyzer/pattern-analyzer.service";
+import { AiDecision } from "../ai-decision/ai-decision.service";
+import {
+  TradeExecutorService,
+  WalletState,
+} from "../trade-executor/trade-executor.service";
 import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
 import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
 import { DailyAnalysisService } from "../analysis/daily-analysis.service";
-import { MultiFactorAnalysisService } from "../analysis/multi-factor-analysis.service";
-import { AiPredictionService } from "../analysis/ai-prediction.service";
-import { TransactionService } from "../trade-executor/transaction.service";
+import {
+  MultiFactorAnalysis,
+  MultiFactorAnalysisService,
+} from "../analysis/multi-factor-analysis.service";
 import { UserTradingService } from "../trade-executor/user-trading.service";
+import { PaperTradingService } from "../trade-executor/paper-trading.service";
+import { PositionProtectionService } from "../trade-executor/position-protection.service";
+import { RiskManagerService } from "../trade-executor/risk-manager.service";
+import { StrategyRegistryService } from "../strategy/strategy-registry.service";
+import { EventBus } from "../events/event-bus.service";
+import { AccessService } from "../access/access.service";
+import {
+  StrategyDecision,
+  StrategyState,
+} from "../strategy/trading-strategy.interface";
 import { AuthState } from "../database/entities/auth-state.entity";
-import { TradeSource } from "../database/entities/user-trade-history.entity";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import {
+  TradeSource,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+
+// Market data shared by every chat in a cycle
+interface CycleMarketData {
+  prices: AllPrices;
+  analysis: PatternAnalysis;
+  multiFactor: MultiFactorAnalysis;
+  adjustedConfidence: number;
+  decisions: Map<string, Promise<StrategyDecision | null>>; // Per strategy + threshold
+}
 
 @Injectable()
 export class SchedulerService implements OnModuleInit {
   private readonly logger = new Logger(SchedulerService.name);
   private isRunning = false;
-  private lastStatusSent = 0;
   private cycleCount = 0;
-  private lastAiCallTime = 0; // Track last AI call for cooldown
-  private readonly AI_COOLDOWN_MS = 2 * 60 * 1000; // 2 minutes cooldown between AI calls
-  private primaryChatId: string | null = null; // Primary user's chat ID
+  private strategyStates = new Map<string, StrategyState>(); // Strategy cooldowns per strategy + threshold
+  private primaryChatId: string | null = null; // Receives status reports even with auto trading off
 
   constructor(
     private configService: ConfigService,
     private priceFetcher: PriceFetcherService,
     private patternAnalyzer: PatternAnalyzerService,
-    private aiDecision: AiDecisionService,
     private tradeExecutor: TradeExecutorService,
-    private telegramBot: TelegramBotService,
     private authService: NoghreseaAuthService,
     private noghreseaApi: NoghreseaApiService,
     private dailyAnalysis: DailyAnalysisService,
     private multiFactorAnalysis: MultiFactorAnalysisService,
-    private aiPredictionService: AiPredictionService,
-    private transactionService: TransactionService,
     private userTradingService: UserTradingService,
+    private paperTrading: PaperTradingService,
+    private strategyRegistry: StrategyRegistryService,
+    private positionProtection: PositionProtectionService,
+    private riskManager: RiskManagerService,
+    private accessService: AccessService,
+    private eventBus: EventBus,
     @InjectRepository(AuthState)
     private authStateRepo: Repository<AuthState>,
   ) {}
 
   async onModuleInit() {
-    // Connect telegram bot to trade executor and daily analysis
-    this.telegramBot.setTradeExecutor(this.tradeExecutor);
-    this.telegramBot.setDailyAnalysis(this.dailyAnalysis);
-    this.telegramBot.setTransactionService(this.transactionService);
-    this.telegramBot.setPriceFetcher(this.priceFetcher);
-    this.telegramBot.setPatternAnalyzer(this.patternAnalyzer);
-    this.telegramBot.setUserTradingService(this.userTradingService);
-
     // Load primary chat ID from config or database
     await this.loadPrimaryChatId();
     this.logger.log("🚀 Scheduler initialized");
@@ -102,19 +126,13 @@ export class SchedulerService implements OnModuleInit {
     try {
       const summary = await this.dailyAnalysis.generateDailySummary();
       if (summary) {
-        await this.sendDailySummaryToTelegram(summary);
+        await this.eventBus.emit("DailySummaryGenerated", { summary });
       }
     } catch (error: any) {
       this.logger.error(`Daily summary error: ${error.message}`);
     }
   }
 
-  private async sendDailySummaryToTelegram(summary: any) {
-    // This will be sent via telegram bot
-    const message = `📊 *End of Day Summary - ${summary.date}*\n\n${summary.notes}`;
-    await this.telegramBot.sendMessage(message);
-  }
-
   @Interval(10000) // Every 10 seconds
   async scheduledCycle() {
     // Skip logging when disabled to reduce noise
@@ -145,55 +163,37 @@ export class SchedulerService implements OnModuleInit {
     this.cycleCount++;
 
     try {
-      // Step 1: Check authentication
-      // Reload primary chat ID if not set
-      if (!this.primaryChatId) {
-        await this.loadPrimaryChatId();
-      }
-
-      // If still no primary chat ID, can't proceed
-      if (!this.primaryChatId) {
-        this.logger.log(`🔐 Auth check: false (chatId: none)`);
+      // Step 1: Chats to run this cycle
+      const chatIds = await this.getCycleChatIds();
+      if (chatIds.length === 0) {
+        this.logger.log(`🔐 No active chats (none authenticated)`);
         if (this.cycleCount % 30 === 1) {
           // Every 5 minutes
-          await this.telegramBot.sendAuthRequired();
+          await this.eventBus.emit("AuthExpired", { chatId: null });
         }
-        this.isRunning = false;
         return;
       }
 
-      // At this point we know primaryChatId is not null
-      const chatId = this.primaryChatId;
-
-      const isAuthed = this.authService.isAuthenticated(chatId);
-      this.logger.log(`🔐 Auth check: ${isAuthed} (chatId: ${chatId})`);
-      if (!isAuthed) {
-        if (this.cycleCount % 30 === 1) {
-          // Every 5 minutes
-          await this.telegramBot.sendAuthRequired();
-        }
-        this.isRunning = false;
-        return;
-      }
-
-      // Set active chat ID for API requests
-      this.noghreseaApi.setActiveChatId(chatId);
-
-      // Step 2: Fetch all prices
+      // Step 2: Fetch all prices (once for all users)
       this.logger.log("📊 Fetching prices...");
       const prices = await this.priceFetcher.fetchAllPrices();
 
       if (!prices.noghresea) {
         this.logger.warn("Failed to fetch Noghresea price");
-        this.isRunning = false;
         return;
       }
+      await this.eventBus.emit("PriceFetched", { prices });
 
       // Step 3: Analyze patterns
       const analysis = await this.patternAnalyzer.analyze(prices);
 
       // Step 3.5: Multi-factor analysis (Gold, Silver, USDT correlation + manipulation detection)
       const multiFactorResult = await this.multiFactorAnalysis.analyze(prices);
+      await this.eventBus.emit("MarketAnalyzed", {
+        prices,
+        analysis,
+        multiFactor: multiFactorResult,
+      });
 
       // Boost confidence if multi-factor analysis supports the pattern suggestion
       let adjustedConfidence = analysis.overallConfidence;
@@ -206,242 +206,391 @@ export class SchedulerService implements OnModuleInit {
         );
       }
 
-      // Step 4: Get wallet state
-      const wallet = await this.tradeExecutor.getWalletState();
-
-      // Step 5: Log cycle info with enhanced analysis
       this.logger.log(
         `Cycle ${this.cycleCount}: Price=${prices.noghresea.price?.toFixed(2)}, ` +
-          `Patterns=${analysis.patterns.length}, Confidence=${adjustedConfidence.toFixed(1)}% (base: ${analysis.overallConfidence.toFixed(1)}%), Suggestion=${analysis.suggestion}`,
+          `Patterns=${analysis.patterns.length}, Confidence=${adjustedConfidence.toFixed(1)}% (base: ${analysis.overallConfidence.toFixed(1)}%), Suggestion=${analysis.suggestion}, Chats=${chatIds.length}`,
       );
 
-      // Step 6: Smart AI calling with enhanced decision making
-      // Only call AI when:
-      // 1. Pattern analyzer suggests BUY or SELL (not HOLD)
-      // 2. Confidence is high enough (>= threshold from user settings or default 70%)
-      // 3. Cooldown period has passed (2 minutes)
-      // 4. Multi-factor analysis supports the decision OR manipulation detected
-      const userSettings =
-        await this.userTradingService.getOrCreateSettings(chatId);
-      const minConfidence = userSettings.minConfidence || 70;
-
-      const shouldCallAi =
-        analysis.detected &&
-        adjustedConfidence >= minConfidence &&
-        analysis.suggestion !== "HOLD" &&
-        Date.now() - this.lastAiCallTime >= this.AI_COOLDOWN_MS;
-
-      if (shouldCallAi) {
-        this.logger.log(
-          `📊 Pattern detected: ${analysis.patterns.map((p) => p.type).join(", ")} → ${analysis.suggestion}`,
-        );
+      // Step 4: Evaluate and trade for each chat - one user's failure never stalls the others
+      const market: CycleMarketData = {
+        prices,
+        analysis,
+        multiFactor: multiFactorResult,
+        adjustedConfidence,
+        decisions: new Map(),
+      };
+      for (const chatId of chatIds) {
+        try {
+          await this.runForChat(chatId, market);
+        } catch (error: unknown) {
+          const err = error as Error;
+          this.logger.error(
+            `Cycle error for chat ${chatId}: ${err.message}`,
+            err.stack,
+          );
+        }
+      }
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(`Cycle error: ${err.message}`, err.stack);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Chats with auto trading enabled, paused chats whose open position is
+   * protected, plus the primary chat for status reports
+   */
+  private async getCycleChatIds(): Promise<string[]> {
+    if (!this.primaryChatId) {
+      await this.loadPrimaryChatId();
+    }
+
+    const candidates = new Set([
+      ...(await this.userTradingService.getAutoTradingChatIds()),
+      ...(await this.userTradingService.getPausedProtectedChatIds()),
+    ]);
+    const chatIds: string[] = [];
+    for (const chatId of candidates) {
+      if (await this.canRunCycle(chatId)) chatIds.push(chatId);
+    }
+    if (this.primaryChatId && !chatIds.includes(this.primaryChatId)) {
+      chatIds.push(this.primaryChatId);
+    }
+    return chatIds;
+  }
+
+  /**
+   * Paper chats only need access to the bot; live chats need an approved account link
+   */
+  private async canRunCycle(chatId: string): Promise<boolean> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    if (settings.paperTradingEnabled) {
+      return this.accessService.isAllowed(chatId);
+    }
+    return (await this.accessService.getApprovedLink(chatId)) !== null;
+  }
+
+  /**
+   * Load the token of the chat's approved account link if it is not in memory yet
+   */
+  private async ensureAuthenticated(chatId: string): Promise<boolean> {
+    if (this.authService.isAuthenticated(chatId)) return true;
+
+    await this.authService.loadUserAuth(chatId);
+    return this.authService.isAuthenticated(chatId);
+  }
+
+  /**
+   * Steps 5-8 for a single chat: wallet, risk, protection, strategy and execution
+   */
+  private async runForChat(chatId: string, market: CycleMarketData) {
+    const { prices, analysis, multiFactor, adjustedConfidence } = market;
+    const userSettings =
+      await this.userTradingService.getOrCreateSettings(chatId);
+    const currentPrice = Number(prices.noghresea!.price);
+
+    // Auto trading is off (risk halt, auth pause or by hand): still watch the
+    // open position so the user hears when a stop-loss or take-profit fires
+    if (!userSettings.autoTradingEnabled) {
+      const trigger = await this.positionProtection.checkPosition(
+        chatId,
+        currentPrice,
+      );
+      if (trigger) {
+        await this.eventBus.emit("ProtectionTriggered", {
+          chatId,
+          trigger,
+          autoTradingPaused: true,
+        });
+      }
+      if (chatId !== this.primaryChatId) return;
+    }
+
+    // Live trading needs the chat's own token; paper mode only needs prices
+    if (!userSettings.paperTradingEnabled) {
+      const isAuthed = await this.ensureAuthenticated(chatId);
+      this.logger.log(`🔐 Auth check: ${isAuthed} (chatId: ${chatId})`);
+      if (!isAuthed) {
+        if (this.cycleCount % 30 === 1) {
+          // Every 5 minutes
+          await this.eventBus.emit("AuthExpired", { chatId });
+        }
+        return;
+      }
+    }
+
+    // Step 5: Get wallet state (simulated wallet in paper mode)
+    const wallet = userSettings.paperTradingEnabled
+      ? this.paperTrading.getWalletState(userSettings)
+      : await this.tradeExecutor.getWalletState(chatId);
+
+    // Step 6: Ask the chat's strategy for a decision
+    const minConfidence = userSettings.minConfidence || 70;
+    if (
+      analysis.detected &&
+      adjustedConfidence >= minConfidence &&
+      analysis.suggestion !== "HOLD"
+    ) {
+      this.logger.log(
+        `📊 Pattern detected: ${analysis.patterns.map((p) => p.type).join(", ")} → ${analysis.suggestion} (${chatId})`,
+      );
+
+      await this.eventBus.emit("PatternDetected", {
+        chatId,
+        prices,
+        analysis,
+      });
+    }
+
+    // Circuit breaker: halt auto trading when a risk limit is breached
+    if (userSettings.autoTradingEnabled) {
+      const breach = await this.riskManager.checkLimits(userSettings);
+      if (breach) {
+        await this.riskManager.halt(chatId, breach);
+        await this.eventBus.emit("RiskLimitBreached", { chatId, breach });
+        userSettings.autoTradingEnabled = false;
+      }
+    }
+
+    // Exit protection (stop-loss / take-profit / trailing stop) overrides the strategy
+    const protection = userSettings.autoTradingEnabled
+      ? await this.positionProtection.checkPosition(chatId, currentPrice)
+      : null;
+    if (protection) {
+      await this.eventBus.emit("ProtectionTriggered", {
+        chatId,
+        trigger: protection,
+        autoTradingPaused: false,
+      });
+    }
 
-        // Send pattern alert (not too frequently)
-        if (this.shouldSendAlert()) {
-          await this.telegramBot.sendPatternAlert(analysis, prices);
+    const decision: StrategyDecision | null = protection
+      ? {
+          strategy: "protection",
+          action: "SELL",
+          confidence: 100,
+          volumePercent: 100,
+          reasoning: protection.message,
+          expectedOutcome: `Exit position (${protection.reason})`,
         }
+      : await this.getMarketDecision(market, userSettings, wallet);
 
-        // Check for DROP_BOTTOM with very high confidence AND manipulation detected
-        const hasDropBottom = analysis.patterns.some(
-          (p) => p.type === "DROP_BOTTOM" && p.confidence >= 85,
+    if (decision) {
+      this.logger.log(
+        `🧠 ${decision.strategy}: ${decision.action} (${decision.confidence.toFixed(1)}%) - ${decision.reasoning} (${chatId})`,
+      );
+      await this.eventBus.emit("DecisionMade", {
+        chatId,
+        decision,
+        prices,
+        analysis,
+        multiFactor,
+      });
+
+      // Step 7: Execute trade if conditions met
+      if (decision.action !== "HOLD" && userSettings.autoTradingEnabled) {
+        const tradeCalc = await this.userTradingService.calculateTradeAmount(
+          chatId,
+          decision.action,
+          currentPrice,
+          wallet.silverBalance,
+          wallet.tomanBalance,
         );
-        const isFakeDrop =
-          multiFactorResult.isManipulated &&
-          multiFactorResult.manipulationType === "FAKE_DROP";
-
-        if (hasDropBottom && isFakeDrop) {
-          // Direct execution for high-confidence DROP_BOTTOM with manipulation confirmed
-          this.logger.log(
-            `🎯 DROP_BOTTOM + MANIPULATION - Executing BUY directly`,
-          );
-          const directDecision = {
-            action: "BUY" as const,
-            confidence: adjustedConfidence,
-            volumePercent: 3,
-            reasoning: `DROP_BOTTOM (${analysis.overallConfidence.toFixed(1)}%) + Manipulation confirmed`,
-            expectedOutcome: "Price recovery expected after manipulation drop",
-          };
-
-          // Save the prediction
-          await this.aiPredictionService.savePrediction(
-            directDecision,
-            prices,
-            analysis,
-            multiFactorResult,
-          );
 
-          // Calculate and execute trade
-          const tradeCalc = await this.userTradingService.calculateTradeAmount(
+        if (tradeCalc.canTrade) {
+          // Auto-start session for AI trading if needed
+          await this.userTradingService.ensureSessionForAiTrade(
             chatId,
-            "BUY",
-            Number(prices.noghresea.price),
-            wallet.silverBalance,
-            wallet.tomanBalance,
+            decision.action,
+            tradeCalc.silverAmount,
+            tradeCalc.silverAmount * currentPrice,
+            currentPrice,
           );
 
-          if (tradeCalc.canTrade && userSettings.autoTradingEnabled) {
-            // Auto-start session for AI trading if needed
-            const currentPrice = Number(prices.noghresea.price);
-            await this.userTradingService.ensureSessionForAiTrade(
+          // Check position validity (can't BUY if already holding, can't SELL if not holding)
+          const positionValid =
+            await this.userTradingService.isActionValidForPosition(
               chatId,
-              "BUY",
+              decision.action,
+            );
+          if (!positionValid) {
+            this.logger.log(
+              `⚠️ Position invalid for ${decision.action} - waiting for opposite signal`,
+            );
+          } else {
+            await this.placeAiTrade(
+              chatId,
+              userSettings.paperTradingEnabled,
+              decision,
               tradeCalc.silverAmount,
-              tradeCalc.silverAmount * currentPrice,
               currentPrice,
+              prices,
+              protection !== null,
             );
-
-            // Check position validity (can't BUY if already holding silver from previous BUY)
-            const positionValid =
-              await this.userTradingService.isActionValidForPosition(
-                chatId,
-                "BUY",
-              );
-            if (!positionValid) {
-              this.logger.log(
-                `⚠️ Position invalid for BUY - already holding silver, waiting for SELL signal`,
-              );
-            } else {
-              await this.tradeExecutor.executeTrade(
-                directDecision,
-                currentPrice,
-              );
-
-              // Record in user trade history
-              await this.userTradingService.recordTrade(
-                chatId,
-                this.authService.getPhoneNumber(chatId),
-                "BUY",
-                tradeCalc.silverAmount,
-                currentPrice,
-                TradeSource.AI,
-                {
-                  aiConfidence: adjustedConfidence,
-                  aiReasoning: directDecision.reasoning,
-                  silverOunce: prices.silverOunce ?? undefined,
-                  goldOunce: prices.goldOunce ?? undefined,
-                  usdtToman: prices.usdtToman ?? undefined,
-                },
-              );
-            }
-          }
-        } else {
-          // Get AI decision for other patterns
-          this.lastAiCallTime = Date.now();
-          const decision = await this.aiDecision.getDecision(
-            prices,
-            analysis,
-            wallet,
-          );
-
-          this.logger.log(
-            `🤖 AI Decision: ${decision.action} (${decision.confidence.toFixed(1)}%) - ${decision.reasoning}`,
-          );
-
-          // Save AI prediction for historical tracking (30 days)
-          await this.aiPredictionService.savePrediction(
-            decision,
-            prices,
-            analysis,
-            multiFactorResult,
-          );
-
-          // Step 7: Execute trade if conditions met
-          if (decision.action !== "HOLD" && userSettings.autoTradingEnabled) {
-            const tradeCalc =
-              await this.userTradingService.calculateTradeAmount(
-                chatId,
-                decision.action,
-                Number(prices.noghresea.price),
-                wallet.silverBalance,
-                wallet.tomanBalance,
-              );
-
-            if (tradeCalc.canTrade) {
-              // Auto-start session for AI trading if needed
-              const currentPrice = Number(prices.noghresea.price);
-              const tomanAmount =
-                decision.action === "BUY"
-                  ? tradeCalc.silverAmount * currentPrice
-                  : tradeCalc.silverAmount * currentPrice;
-              await this.userTradingService.ensureSessionForAiTrade(
-                chatId,
-                decision.action,
-                tradeCalc.silverAmount,
-                tomanAmount,
-                currentPrice,
-              );
-
-              // Check position validity (can't BUY if already holding, can't SELL if not holding)
-              const positionValid =
-                await this.userTradingService.isActionValidForPosition(
-                  chatId,
-                  decision.action,
-                );
-              if (!positionValid) {
-                this.logger.log(
-                  `⚠️ Position invalid for ${decision.action} - waiting for opposite signal`,
-                );
-              } else {
-                await this.tradeExecutor.executeTrade(decision, currentPrice);
-
-                // Record in user trade history
-                await this.userTradingService.recordTrade(
-                  chatId,
-                  this.authService.getPhoneNumber(chatId),
-                  decision.action,
-                  tradeCalc.silverAmount,
-                  currentPrice,
-                  TradeSource.AI,
-                  {
-                    aiConfidence: decision.confidence,
-                    aiReasoning: decision.reasoning,
-                    silverOunce: prices.silverOunce ?? undefined,
-                    goldOunce: prices.goldOunce ?? undefined,
-                    usdtToman: prices.usdtToman ?? undefined,
-                  },
-                );
-              }
-            }
           }
         }
-      } else if (
-        analysis.detected &&
-        adjustedConfidence >= minConfidence &&
-        analysis.suggestion === "HOLD"
-      ) {
-        // Log that we're skipping AI call to save money
-        this.logger.debug(
-          `💰 Skipping AI call - Pattern suggests HOLD (saving API costs)`,
-        );
       }
+    }
+
+    // Step 8: Cycle done (subscribers send the periodic status)
+    await this.eventBus.emit("CycleCompleted", {
+      chatId,
+      prices,
+      analysis,
+      wallet,
+      tradingEnabled: this.tradeExecutor.isTradingEnabled(),
+      paperMode: userSettings.paperTradingEnabled,
+    });
+  }
 
-      // Step 8: Send periodic status (every 5 minutes)
-      const now = Date.now();
-      if (now - this.lastStatusSent > 5 * 60 * 1000) {
-        await this.telegramBot.sendFullStatus(
-          prices,
-          analysis,
+  /**
+   * The strategy's decision for this cycle's market, made once and shared by
+   * every chat with the same strategy and confidence threshold. Sizing, risk
+   * and position checks stay per chat. The AI sees the wallet of the first
+   * chat that asks.
+   */
+  private getMarketDecision(
+    market: CycleMarketData,
+    settings: UserTradingSettings,
+    wallet: WalletState,
+  ): Promise<StrategyDecision | null> {
+    const strategy = this.strategyRegistry.get(settings.strategy);
+    const key = `${strategy.name}:${settings.minConfidence || 70}`;
+
+    let decision = market.decisions.get(key);
+    if (!decision) {
+      decision = strategy
+        .decide({
+          prices: market.prices,
+          analysis: market.analysis,
+          multiFactor: market.multiFactor,
+          adjustedConfidence: market.adjustedConfidence,
           wallet,
-          this.tradeExecutor.isTradingEnabled(),
-        );
-        this.lastStatusSent = now;
-      }
-    } catch (error: unknown) {
-      const err = error as Error;
-      this.logger.error(`Cycle error: ${err.message}`, err.stack);
-    } finally {
-      this.isRunning = false;
+          settings,
+          now: new Date(),
+          state: this.getStrategyState(key),
+        })
+        .then(async (made) => {
+          if (made) {
+            await this.eventBus.emit("MarketDecisionMade", {
+              decision: made,
+              prices: market.prices,
+              analysis: market.analysis,
+              multiFactor: market.multiFactor,
+            });
+          }
+          return made;
+        });
+      market.decisions.set(key, decision);
     }
+    return decision;
   }
 
-  private lastAlertSent = 0;
-  private shouldSendAlert(): boolean {
-    const now = Date.now();
-    if (now - this.lastAlertSent > 60 * 1000) {
-      // At most every minute
-      this.lastAlertSent = now;
-      return true;
+  private getStrategyState(key: string): StrategyState {
+    if (!this.strategyStates.has(key)) {
+      this.strategyStates.set(key, { lastAiCallTime: 0, lastSignalTime: 0 });
     }
-    return false;
+    return this.strategyStates.get(key)!;
+  }
+
+  /**
+   * Execute an AI trade (real or paper) and record it in user trade history.
+   * A protection exit sells the whole session position.
+   */
+  private async placeAiTrade(
+    chatId: string,
+    paperMode: boolean,
+    decision: AiDecision,
+    silverAmount: number,
+    currentPrice: number,
+    prices: AllPrices,
+    isExit = false,
+  ) {
+    const marketOptions = {
+      aiConfidence: decision.confidence,
+      aiReasoning: decision.reasoning,
+      silverOunce: prices.silverOunce ?? undefined,
+      goldOunce: prices.goldOunce ?? undefined,
+      usdtToman: prices.usdtToman ?? undefined,
+    };
+
+    if (paperMode) {
+      // Paper trades need the bot to be running, like real ones
+      if (!this.tradeExecutor.isTradingEnabled()) return;
+
+      const fill = await this.paperTrading.executeTrade(
+        chatId,
+        decision,
+        silverAmount,
+        currentPrice,
+      );
+      if (!fill) return;
+
+      const paperTrade = await this.userTradingService.recordTrade(
+        chatId,
+        this.authService.getPhoneNumber(chatId),
+        fill.action,
+        fill.silverAmount,
+        currentPrice,
+        TradeSource.AI,
+        {
+          ...marketOptions,
+          isPaper: true,
+          silverBalanceAfter: fill.silverBalanceAfter,
+          tomanBalanceAfter: fill.tomanBalanceAfter,
+        },
+      );
+      await this.eventBus.emit("TradeExecuted", {
+        chatId,
+        trade: paperTrade,
+        decision,
+      });
+      return;
+    }
+
+    const trade = isExit
+      ? await this.tradeExecutor.exitPosition(
+          chatId,
+          decision,
+          silverAmount,
+          currentPrice,
+        )
+      : await this.tradeExecutor.executeTrade(chatId, decision, currentPrice);
+    if (!trade) return;
+
+    // The session closes on this SELL, so say so when it won't be flat
+    const ordered = Number(trade.volume);
+    const held = Number(silverAmount); // Decimal columns load as strings
+    if (isExit && Math.abs(ordered - held) > held * 0.01) {
+      await this.eventBus.emit("OrderAlert", {
+        chatId,
+        message:
+          `⚠️ *Protection Exit Incomplete*\n\n` +
+          `The session held ${held.toFixed(3)}g but only ${ordered.toFixed(3)}g ` +
+          `could be sold (wallet balance). Check your Noghresea wallet.`,
+      });
+    }
+
+    // Record what was ordered - PENDING until the reconciler sees the fill
+    const userTrade = await this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      decision.action as "BUY" | "SELL",
+      Number(trade.volume),
+      currentPrice,
+      TradeSource.AI,
+      {
+        ...marketOptions,
+        noghreseaOrderId: trade.orderId,
+        status: TradeStatus.PENDING,
+      },
+    );
+    await this.eventBus.emit("TradeExecuted", {
+      chatId,
+      trade: userTrade,
+      decision,
+    });
   }
 }
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { AiDecisionService } from "../../ai-decision/ai-decision.service";
+import {
+  SIGNAL_COOLDOWN_MS,
+  StrategyDecision,
+  StrategyInput,
+  TradingStrategy,
+} from "../trading-strategy.interface";
+
+/**
+ * Default strategy: patterns gate an AI call, with a direct BUY shortcut
+ * for confirmed manipulation drops.
+ */
+@Injectable()
+export class AiGatedStrategy implements TradingStrategy {
+  private readonly logger = new Logger(AiGatedStrategy.name);
+
+  readonly name = "ai-gated";
+  readonly label = "🤖 AI";
+  readonly description = "Pattern signals confirmed by the AI model";
+
+  private readonly AI_COOLDOWN_MS = SIGNAL_COOLDOWN_MS; // 2 minutes cooldown between AI calls
+
+  constructor(private aiDecision: AiDecisionService) {}
+
+  async decide(input: StrategyInput): Promise<StrategyDecision | null> {
+    const { analysis, multiFactor, adjustedConfidence, settings } = input;
+    const minConfidence = settings.minConfidence || 70;
+
+    // Only call AI when:
+    // 1. Pattern analyzer suggests BUY or SELL (not HOLD)
+    // 2. Confidence is high enough (>= threshold from user settings or default 70%)
+    // 3. Cooldown period has passed (2 minutes)
+    if (!analysis.detected || adjustedConfidence < minConfidence) return null;
+
+    if (analysis.suggestion === "HOLD") {
+      // Log that we're skipping AI call to save money
+      this.logger.debug(
+        `💰 Skipping AI call - Pattern suggests HOLD (saving API costs)`,
+      );
+      return null;
+    }
+
+    const now = input.now.getTime();
+    if (now - input.state.lastAiCallTime < this.AI_COOLDOWN_MS) return null;
+
+    // Check for DROP_BOTTOM with very high confidence AND manipulation detected
+    const hasDropBottom = analysis.patterns.some(
+      (p) => p.type === "DROP_BOTTOM" && p.confidence >= 85,
+    );
+    const isFakeDrop =
+      multiFactor.isManipulated && multiFactor.manipulationType === "FAKE_DROP";
+
+    if (hasDropBottom && isFakeDrop) {
+      // Direct execution for high-confidence DROP_BOTTOM with manipulation confirmed
+      this.logger.log(`🎯 DROP_BOTTOM + MANIPULATION - Executing BUY directly`);
+      return {
+        strategy: this.name,
+        action: "BUY",
+        confidence: adjustedConfidence,
+        volumePercent: 3,
+        reasoning: `DROP_BOTTOM (${analysis.overallConfidence.toFixed(1)}%) + Manipulation confirmed`,
+        expectedOutcome: "Price recovery expected after manipulation drop",
+      };
+    }
+
+    // Get AI decision for other patterns
+    input.state.lastAiCallTime = now;
+    const decision = input.offline
+      ? this.aiDecision.getFallbackDecision(analysis)
+      : await this.aiDecision.getDecision(input.prices, analysis, input.wallet);
+
+    return { ...decision, strategy: this.name };
+  }
+}
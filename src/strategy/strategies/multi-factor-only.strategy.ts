@@ -0,0 +1,51 @@
+import { Injectable } from "@nestjs/common";
+import {
+  SIGNAL_COOLDOWN_MS,
+  StrategyDecision,
+  StrategyInput,
+  TradingStrategy,
+} from "../trading-strategy.interface";
+
+/**
+ * Follows the multi-factor market direction (silver, gold, USDT, manipulation)
+ */
+@Injectable()
+export class MultiFactorOnlyStrategy implements TradingStrategy {
+  readonly name = "multi-factor-only";
+  readonly label = "🔬 Multi-Factor";
+  readonly description = "International market correlation without AI";
+
+  async decide(input: StrategyInput): Promise<StrategyDecision | null> {
+    const { multiFactor, settings } = input;
+    const minConfidence = settings.minConfidence || 70;
+
+    if (multiFactor.marketDirection === "NEUTRAL") return null;
+
+    // Score is 0-100 with 50 neutral; map strength in either direction to confidence
+    const action = multiFactor.marketDirection === "BULLISH" ? "BUY" : "SELL";
+    const confidence =
+      action === "BUY"
+        ? multiFactor.overallScore
+        : 100 - multiFactor.overallScore;
+
+    if (confidence < minConfidence) return null;
+
+    // The market direction holds for many cycles; signal once per cooldown
+    const now = input.now.getTime();
+    if (now - input.state.lastSignalTime < SIGNAL_COOLDOWN_MS) return null;
+    input.state.lastSignalTime = now;
+
+    const manipulation = multiFactor.isManipulated
+      ? ` (${multiFactor.manipulationType})`
+      : "";
+
+    return {
+      strategy: this.name,
+      action,
+      confidence,
+      volumePercent: 3,
+      reasoning: `Multi-factor ${multiFactor.marketDirection}, score ${multiFactor.overallScore.toFixed(1)}${manipulation}`,
+      expectedOutcome: `Noghresea follows international ${multiFactor.marketDirection.toLowerCase()} move`,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from "@nestjs/common";
+import {
+  SIGNAL_COOLDOWN_MS,
+  StrategyDecision,
+  StrategyInput,
+  TradingStrategy,
+} from "../trading-strategy.interface";
+
+/**
+ * Trades the pattern analyzer's suggestion directly, no AI call
+ */
+@Injectable()
+export class PatternOnlyStrategy implements TradingStrategy {
+  readonly name = "pattern-only";
+  readonly label = "📊 Patterns";
+  readonly description = "Pattern analyzer suggestions without AI";
+
+  async decide(input: StrategyInput): Promise<StrategyDecision | null> {
+    const { analysis, adjustedConfidence, settings } = input;
+    const minConfidence = settings.minConfidence || 70;
+
+    if (
+      !analysis.detected ||
+      analysis.suggestion === "HOLD" ||
+      adjustedConfidence < minConfidence
+    ) {
+      return null;
+    }
+
+    // Patterns stay detected for many cycles; signal once per cooldown
+    const now = input.now.getTime();
+    if (now - input.state.lastSignalTime < SIGNAL_COOLDOWN_MS) return null;
+    input.state.lastSignalTime = now;
+
+    return {
+      strategy: this.name,
+      action: analysis.suggestion,
+      confidence: Math.min(adjustedConfidence, 100),
+      volumePercent: 3,
+      reasoning: `Patterns: ${analysis.patterns.map((p) => p.type).join(", ")}`,
+      expectedOutcome: `Pattern-based ${analysis.suggestion}`,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { TradingStrategy } from "./trading-strategy.interface";
+import { AiGatedStrategy } from "./strategies/ai-gated.strategy";
+import { PatternOnlyStrategy } from "./strategies/pattern-only.strategy";
+import { MultiFactorOnlyStrategy } from "./strategies/multi-factor-only.strategy";
+
+/**
+ * Strategy Registry - Looks up the trading strategy selected per chat.
+ * Built-in strategies register themselves; other modules can add custom ones.
+ */
+@Injectable()
+export class StrategyRegistryService {
+  private readonly logger = new Logger(StrategyRegistryService.name);
+  private readonly strategies = new Map<string, TradingStrategy>();
+
+  readonly DEFAULT_STRATEGY = "ai-gated";
+
+  constructor(
+    aiGated: AiGatedStrategy,
+    patternOnly: PatternOnlyStrategy,
+    multiFactorOnly: MultiFactorOnlyStrategy,
+  ) {
+    [aiGated, patternOnly, multiFactorOnly].forEach((s) => this.register(s));
+  }
+
+  register(strategy: TradingStrategy) {
+    if (this.strategies.has(strategy.name)) {
+      this.logger.warn(`Replacing strategy "${strategy.name}"`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  /**
+   * Get a strategy by name, falling back to the default for unknown names
+   */
+  get(name?: string | null): TradingStrategy {
+    const strategy = name ? this.strategies.get(name) : undefined;
+    if (strategy) return strategy;
+
+    if (name) {
+      this.logger.warn(
+        `Unknown strategy "${name}", using ${this.DEFAULT_STRATEGY}`,
+      );
+    }
+    return this.strategies.get(this.DEFAULT_STRATEGY)!;
+  }
+
+  list(): TradingStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { StrategyRegistryService } from "./strategy-registry.service";
+import { AiGatedStrategy } from "./strategies/ai-gated.strategy";
+import { PatternOnlyStrategy } from "./strategies/pattern-only.strategy";
+import { MultiFactorOnlyStrategy } from "./strategies/multi-factor-only.strategy";
+import { AiDecisionModule } from "../ai-decision/ai-decision.module";
+
+@Module({
+  imports: [AiDecisionModule],
+  providers: [
+    StrategyRegistryService,
+    AiGatedStrategy,
+    PatternOnlyStrategy,
+    MultiFactorOnlyStrategy,
+  ],
+  exports: [StrategyRegistryService],
+})
+export class StrategyModule {}
@@ -0,0 +1,46 @@
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
+import { MultiFactorAnalysis } from "../analysis/multi-factor-analysis.service";
+import { AiDecision } from "../ai-decision/ai-decision.service";
+import { WalletState } from "../trade-executor/trade-executor.service";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+
+/**
+ * Mutable state owned by whoever runs the strategy (live scheduler or a backtest),
+ * so cooldowns never leak between runners.
+ */
+export interface StrategyState {
+  lastAiCallTime: number;
+  lastSignalTime: number; // Last BUY/SELL from a strategy without an AI call
+}
+
+// Same spacing as ai-gated's AI calls, so every strategy emits at most one signal per window
+export const SIGNAL_COOLDOWN_MS = 2 * 60 * 1000;
+
+export interface StrategyInput {
+  prices: AllPrices;
+  analysis: PatternAnalysis;
+  multiFactor: MultiFactorAnalysis;
+  adjustedConfidence: number; // Pattern confidence + multi-factor boost
+  wallet: WalletState;
+  settings: UserTradingSettings;
+  now: Date;
+  state: StrategyState;
+  offline?: boolean; // No external API calls (backtests)
+}
+
+export interface StrategyDecision extends AiDecision {
+  strategy: string; // Name of the strategy that produced it
+}
+
+export interface TradingStrategy {
+  readonly name: string;
+  readonly label: string; // Short label for Telegram buttons
+  readonly description: string;
+
+  /**
+   * Decide what to do this cycle. Returns null when the strategy has
+   * nothing to say (no signal, cooldown, etc.).
+   */
+  decide(input: StrategyInput): Promise<StrategyDecision | null>;
+}
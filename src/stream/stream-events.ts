@@ -0,0 +1,66 @@
+import { AllPrices } from "../price-fetcher/price-fetcher.service";
+import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
+import { MultiFactorAnalysis } from "../analysis/multi-factor-analysis.service";
+import { StrategyDecision } from "../strategy/trading-strategy.interface";
+import {
+  TradeSource,
+  TradeStatus,
+  UserTradeHistory,
+} from "../database/entities/user-trade-history.entity";
+
+/**
+ * Bump when an existing payload changes shape (removed/renamed/retyped fields).
+ * Adding fields or new event types does not require a bump.
+ */
+export const STREAM_SCHEMA_VERSION = 1;
+
+export interface TradeEventData {
+  id: string;
+  action: "BUY" | "SELL";
+  silverAmount: number;
+  pricePerGram: number;
+  totalToman: number;
+  source: TradeSource;
+  status: TradeStatus;
+  isPaper: boolean;
+  noghreseaOrderId: string | null;
+  executedAt: Date;
+}
+
+/**
+ * Payload of each stream event type
+ */
+export interface StreamEventPayloads {
+  "price.tick": AllPrices;
+  "analysis.pattern": PatternAnalysis;
+  "analysis.multi_factor": MultiFactorAnalysis;
+  "decision.made": StrategyDecision;
+  "trade.executed": TradeEventData;
+  "stream.heartbeat": Record<string, never>;
+}
+
+export type StreamEventType = keyof StreamEventPayloads;
+
+export interface StreamEvent<T extends StreamEventType = StreamEventType> {
+  id: number;
+  type: T;
+  version: number;
+  timestamp: Date;
+  chatId: string | null; // Only delivered to this chat's API keys when set
+  data: StreamEventPayloads[T];
+}
+
+export function toTradeEventData(trade: UserTradeHistory): TradeEventData {
+  return {
+    id: trade.id,
+    action: trade.action,
+    silverAmount: Number(trade.silverAmount),
+    pricePerGram: Number(trade.pricePerGram),
+    totalToman: Number(trade.totalToman),
+    source: trade.source,
+    status: trade.status,
+    isPaper: trade.isPaper,
+    noghreseaOrderId: trade.noghreseaOrderId ?? null,
+    executedAt: trade.executedAt,
+  };
+}
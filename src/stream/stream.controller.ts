@@ -0,0 +1,18 @@
+import { Controller, MessageEvent, Sse, UseGuards } from "@nestjs/common";
+import { Observable } from "rxjs";
+import { ApiChatId, ApiKeyGuard } from "../api/api-key.guard";
+import { StreamService } from "./stream.service";
+
+/**
+ * Server-sent events: prices, analysis, decisions and trades as they happen
+ */
+@Controller("api/stream")
+@UseGuards(ApiKeyGuard)
+export class StreamController {
+  constructor(private streamService: StreamService) {}
+
+  @Sse()
+  stream(@ApiChatId() chatId: string): Observable<MessageEvent> {
+    return this.streamService.subscribe(chatId);
+  }
+}
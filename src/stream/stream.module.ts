@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { StreamController } from "./stream.controller";
+import { StreamService } from "./stream.service";
+import { ApiKeyGuard } from "../api/api-key.guard";
+import { EventsModule } from "../events/events.module";
+import { AccessModule } from "../access/access.module";
+
+@Module({
+  imports: [EventsModule, AccessModule],
+  controllers: [StreamController],
+  providers: [StreamService, ApiKeyGuard],
+  exports: [StreamService],
+})
+export class StreamModule {}
@@ -0,0 +1,99 @@
+import { Injectable, Logger, MessageEvent, OnModuleInit } from "@nestjs/common";
+import {
+  Observable,
+  Subject,
+  filter,
+  finalize,
+  interval,
+  map,
+  merge,
+} from "rxjs";
+import {
+  STREAM_SCHEMA_VERSION,
+  StreamEvent,
+  StreamEventPayloads,
+  StreamEventType,
+  toTradeEventData,
+} from "./stream-events";
+import { EventBus } from "../events/event-bus.service";
+
+/**
+ * Stream Service - Fan-out of cycle events to server-sent event subscribers
+ * Maps domain events to the public, versioned stream schema
+ */
+@Injectable()
+export class StreamService implements OnModuleInit {
+  private readonly logger = new Logger(StreamService.name);
+  private readonly events$ = new Subject<StreamEvent>();
+  private nextId = 1;
+
+  private readonly HEARTBEAT_MS = 25 * 1000; // Keeps proxies from closing idle streams
+
+  constructor(private eventBus: EventBus) {}
+
+  onModuleInit() {
+    this.eventBus.on("PriceFetched", ({ prices }) =>
+      this.publish("price.tick", prices),
+    );
+    this.eventBus.on("MarketAnalyzed", ({ analysis, multiFactor }) => {
+      this.publish("analysis.pattern", analysis);
+      this.publish("analysis.multi_factor", multiFactor);
+    });
+    this.eventBus.on("DecisionMade", ({ chatId, decision }) =>
+      this.publish("decision.made", decision, chatId),
+    );
+    this.eventBus.on("TradeExecuted", ({ chatId, trade }) =>
+      this.publish("trade.executed", toTradeEventData(trade), chatId),
+    );
+    this.eventBus.on("LimitOrderFilled", ({ chatId, trade }) =>
+      this.publish("trade.executed", toTradeEventData(trade), chatId),
+    );
+  }
+
+  /**
+   * Publish an event; chat-scoped events only reach that chat's subscribers
+   */
+  publish<T extends StreamEventType>(
+    type: T,
+    data: StreamEventPayloads[T],
+    chatId: string | null = null,
+  ): void {
+    this.events$.next({
+      id: this.nextId++,
+      type,
+      version: STREAM_SCHEMA_VERSION,
+      timestamp: new Date(),
+      chatId,
+      data,
+    });
+  }
+
+  subscribe(chatId: string): Observable<MessageEvent> {
+    this.logger.log(`📡 Stream subscriber connected (${chatId})`);
+
+    const heartbeat$ = interval(this.HEARTBEAT_MS).pipe(
+      map((): StreamEvent<"stream.heartbeat"> => ({
+        id: 0,
+        type: "stream.heartbeat",
+        version: STREAM_SCHEMA_VERSION,
+        timestamp: new Date(),
+        chatId: null,
+        data: {},
+      })),
+    );
+    const events$ = this.events$.pipe(
+      filter((event) => event.chatId === null || event.chatId === chatId),
+    );
+
+    return merge(events$, heartbeat$).pipe(
+      map((event) => ({
+        id: event.id ? String(event.id) : undefined,
+        type: event.type,
+        data: event,
+      })),
+      finalize(() =>
+        this.logger.log(`📡 Stream subscriber disconnected (${chatId})`),
+      ),
+    );
+  }
+}
@@ -1,10 +1,35 @@
-import { Module, forwardRef } from "@nestjs/common";
+import { Module } from "@nestjs/common";
 import { TelegramBotService } from "./telegram-bot.service";
+import { TelegramNotifierService } from "./telegram-notifier.service";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
+import { EventsModule } from "../events/events.module";
+import { AccessModule } from "../access/access.module";
+import { TradeExecutorModule } from "../trade-executor/trade-executor.module";
+import { AnalysisModule } from "../analysis/analysis.module";
+import { PriceFetcherModule } from "../price-fetcher/price-fetcher.module";
+import { PatternAnalyzerModule } from "../pattern-analyzer/pattern-analyzer.module";
+import { BacktestModule } from "../backtest/backtest.module";
+import { StrategyModule } from "../strategy/strategy.module";
+import { AlertsModule } from "../alerts/alerts.module";
+import { IndicatorsModule } from "../indicators/indicators.module";
+import { ChartsModule } from "../charts/charts.module";
 
 @Module({
-  imports: [forwardRef(() => NoghreseaModule)],
-  providers: [TelegramBotService],
+  imports: [
+    NoghreseaModule,
+    EventsModule,
+    AccessModule,
+    TradeExecutorModule,
+    AnalysisModule,
+    PriceFetcherModule,
+    PatternAnalyzerModule,
+    BacktestModule,
+    StrategyModule,
+    AlertsModule,
+    IndicatorsModule,
+    ChartsModule,
+  ],
+  providers: [TelegramBotService, TelegramNotifierService],
   exports: [TelegramBotService],
 })
 export class TelegramBotModule {}
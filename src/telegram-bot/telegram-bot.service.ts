@@ -3,20 +3,70 @@ import {
   Logger,
   OnModuleInit,
   OnModuleDestroy,
-  Inject,
-  forwardRef,
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Telegraf, Markup } from "telegraf";
 import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
 import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
 import { TradeHistory } from "../database/entities/trade-history.entity";
+import {
+  UserTradeHistory,
+  TradeSource,
+} from "../database/entities/user-trade-history.entity";
+import {
+  LimitOrder,
+  LimitOrderStatus,
+} from "../database/entities/limit-order.entity";
 import { AiDecision } from "../ai-decision/ai-decision.service";
-import { AllPrices } from "../price-fetcher/price-fetcher.service";
-import { PatternAnalysis } from "../pattern-analyzer/pattern-analyzer.service";
+import {
+  AllPrices,
+  PriceFetcherService,
+} from "../price-fetcher/price-fetcher.service";
+import {
+  PatternAnalysis,
+  PatternAnalyzerService,
+} from "../pattern-analyzer/pattern-analyzer.service";
 import { DailyAnalysisService } from "../analysis/daily-analysis.service";
+import { AiPredictionService } from "../analysis/ai-prediction.service";
 import { TransactionService } from "../trade-executor/transaction.service";
+import { TradeExecutorService } from "../trade-executor/trade-executor.service";
 import { UserTradingService } from "../trade-executor/user-trading.service";
+import { PaperTradingService } from "../trade-executor/paper-trading.service";
+import { ProtectionTrigger } from "../trade-executor/position-protection.service";
+import {
+  RiskBreach,
+  RiskManagerService,
+} from "../trade-executor/risk-manager.service";
+import { LimitOrderService } from "../trade-executor/limit-order.service";
+import { DcaService, DcaPlanInput } from "../trade-executor/dca.service";
+import { DcaPlan } from "../database/entities/dca-plan.entity";
+import {
+  PriceAlertService,
+  PriceAlertInput,
+} from "../alerts/price-alert.service";
+import {
+  PriceAlert,
+  AlertMetric,
+} from "../database/entities/price-alert.entity";
+import {
+  IndicatorService,
+  describeIndicators,
+} from "../indicators/indicator.service";
+import { ChartService } from "../charts/chart.service";
+import { ChartRange } from "../charts/price-chart";
+import { BacktestService } from "../backtest/backtest.service";
+import { AccessService } from "../access/access.service";
+import {
+  BotUser,
+  BotUserRole,
+  BotUserStatus,
+} from "../database/entities/bot-user.entity";
+import { hasRole, requiredRole } from "../access/bot-permissions";
+import {
+  AccountLink,
+  AccountLinkStatus,
+} from "../database/entities/account-link.entity";
+import { StrategyRegistryService } from "../strategy/strategy-registry.service";
 
 // State for manual trading flow
 interface ManualTradeState {
@@ -24,6 +74,8 @@ interface ManualTradeState {
   awaitingAmount: boolean;
   maxAmount: number;
   currentPrice: number;
+  awaitingLimit?: boolean; // Waiting for "<grams> <price> [hours]"
+  pendingLimit?: { grams: number; price: number; hours: number };
 }
 
 @Injectable()
@@ -32,58 +84,51 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
   private bot!: Telegraf;
   private chatId: string | null = null;
   // Removed global awaitingOtp and awaitingPhone - now per-user in authService
-  private tradeExecutor: any = null; // Will be injected later to avoid circular dep
-  private dailyAnalysis: DailyAnalysisService | null = null;
-  private transactionService: TransactionService | null = null;
-  private priceFetcher: any = null;
-  private patternAnalyzer: any = null;
-  private userTradingService: UserTradingService | null = null;
   private manualTradeState: Map<string, ManualTradeState> = new Map(); // Per-user trade state
   private awaitingCustomPercent: Map<string, boolean> = new Map(); // Per-user state for custom % input
+  private runningBacktests = new Set<string>(); // Chats with a backtest in progress
 
   constructor(
     private configService: ConfigService,
-    @Inject(forwardRef(() => NoghreseaAuthService))
     private authService: NoghreseaAuthService,
-    @Inject(forwardRef(() => NoghreseaApiService))
     private noghreseaApi: NoghreseaApiService,
+    private accessService: AccessService,
+    private tradeExecutor: TradeExecutorService,
+    private dailyAnalysis: DailyAnalysisService,
+    private transactionService: TransactionService,
+    private priceFetcher: PriceFetcherService,
+    private patternAnalyzer: PatternAnalyzerService,
+    private userTradingService: UserTradingService,
+    private backtestService: BacktestService,
+    private paperTrading: PaperTradingService,
+    private strategyRegistry: StrategyRegistryService,
+    private riskManager: RiskManagerService,
+    private aiPredictionService: AiPredictionService,
+    private limitOrderService: LimitOrderService,
+    private dcaService: DcaService,
+    private priceAlertService: PriceAlertService,
+    private indicatorService: IndicatorService,
+    private chartService: ChartService,
   ) {
     const token = this.configService.get("TELEGRAM_BOT_TOKEN");
     this.logger.log(`Telegram token configured: ${token ? "YES" : "NO"}`);
     if (token) {
       this.logger.log(`Token starts with: ${token.substring(0, 10)}...`);
       this.bot = new Telegraf(token);
-      this.chatId = this.configService.get("TELEGRAM_CHAT_ID") || null;
+      // Operator chat for daily summaries and events without a chat
+      this.chatId =
+        this.configService.get("TELEGRAM_CHAT_ID") ||
+        this.configService
+          .get<string>("TELEGRAM_ADMIN_CHAT_IDS", "")
+          .split(",")[0]
+          .trim() ||
+        null;
       this.logger.log(`Chat ID: ${this.chatId || "not set"}`);
     } else {
       this.logger.warn("No TELEGRAM_BOT_TOKEN found in environment!");
     }
   }
 
-  setTradeExecutor(executor: any) {
-    this.tradeExecutor = executor;
-  }
-
-  setDailyAnalysis(service: DailyAnalysisService) {
-    this.dailyAnalysis = service;
-  }
-
-  setTransactionService(service: TransactionService) {
-    this.transactionService = service;
-  }
-
-  setPriceFetcher(service: any) {
-    this.priceFetcher = service;
-  }
-
-  setPatternAnalyzer(service: any) {
-    this.patternAnalyzer = service;
-  }
-
-  setUserTradingService(service: UserTradingService) {
-    this.userTradingService = service;
-  }
-
   async onModuleInit() {
     if (!this.bot) {
       this.logger.warn("Telegram bot not configured - no token provided");
@@ -134,6 +179,58 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
   }
 
   private setupHandlers() {
+    // Allow-list and roles: unknown chats ask for access, and every message
+    // or button press must be allowed for the chat's role
+    this.bot.use(async (ctx, next) => {
+      const chatId = ctx.chat?.id?.toString();
+      if (!chatId) return next();
+
+      const role = await this.accessService.getRole(chatId);
+      if (role) {
+        const required = requiredRole({
+          text: (ctx.message as any)?.text,
+          callbackData: (ctx.callbackQuery as any)?.data,
+        });
+        if (hasRole(role, required)) {
+          ctx.state.role = role;
+          return next();
+        }
+
+        this.logger.warn(
+          `🔒 ${ctx.updateType} from chat ${chatId} needs ${required}, has ${role}`,
+        );
+        if (ctx.callbackQuery) await ctx.answerCbQuery();
+        await ctx.reply(
+          required === BotUserRole.ADMIN
+            ? "⛔ Admins only."
+            : "🔒 Your account is read-only: 📊 Status, 📜 History and 🤖 AI Analyzer.",
+        );
+        return;
+      }
+
+      const displayName = [ctx.from?.first_name, ctx.from?.last_name]
+        .filter(Boolean)
+        .join(" ");
+      const { user, created } = await this.accessService.requestAccess(chatId, {
+        username: ctx.from?.username,
+        displayName: displayName || undefined,
+      });
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery();
+      await ctx.reply(
+        user.status === BotUserStatus.REVOKED
+          ? "⛔ Your access to this bot has been revoked."
+          : `⛔ This bot is private.\n\nYour access request has been sent to the admins.\nChat ID: ${chatId}`,
+      );
+
+      if (created) {
+        await this.notifyAdmins(
+          `🙋 Access request\n\n${this.describeUser(user)}`,
+          Markup.inlineKeyboard([this.userButtons(user)]),
+        );
+      }
+    });
+
     // Log all incoming updates and handle Start/Stop Bot
     this.bot.use(async (ctx, next) => {
       const text = (ctx.message as any)?.text || "";
@@ -144,45 +241,33 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       // Handle Start Bot / Stop Bot commands here to avoid emoji encoding issues
       if (text.includes("Start Bot")) {
         this.logger.log("▶️ Start Bot button pressed (via middleware)");
-        if (this.tradeExecutor) {
-          await this.tradeExecutor.enableTrading();
-          this.logger.log("✅ Trading enabled via button");
-          await ctx.reply(
-            "✅ *Bot STARTED*\n\n" +
-              "Full monitoring resumed:\n" +
-              "• Price checking every 10 seconds\n" +
-              "• Pattern analysis active\n" +
-              "• AI trading decisions enabled",
-            { parse_mode: "Markdown" },
-          );
-        } else {
-          await ctx.reply(
-            "❌ Trade executor not available. Please restart the bot.",
-          );
-        }
+        await this.tradeExecutor.enableTrading();
+        this.logger.log("✅ Trading enabled via button");
+        await ctx.reply(
+          "✅ *Bot STARTED*\n\n" +
+            "Full monitoring resumed:\n" +
+            "• Price checking every 10 seconds\n" +
+            "• Pattern analysis active\n" +
+            "• AI trading decisions enabled",
+          { parse_mode: "Markdown" },
+        );
         return; // Don't call next, we handled it
       }
 
       if (text.includes("Stop Bot")) {
         this.logger.log("⏸️ Stop Bot button pressed (via middleware)");
-        if (this.tradeExecutor) {
-          await this.tradeExecutor.disableTrading();
-          this.logger.log("🛑 Trading disabled via button");
-          await ctx.reply(
-            "🛑 *Bot STOPPED*\n\n" +
-              "All monitoring is paused:\n" +
-              "• No price checking\n" +
-              "• No pattern analysis\n" +
-              "• No AI decisions\n" +
-              "• No trades\n\n" +
-              "Press *Start Bot* to resume.",
-            { parse_mode: "Markdown" },
-          );
-        } else {
-          await ctx.reply(
-            "❌ Trade executor not available. Please restart the bot.",
-          );
-        }
+        await this.tradeExecutor.disableTrading();
+        this.logger.log("🛑 Trading disabled via button");
+        await ctx.reply(
+          "🛑 *Bot STOPPED*\n\n" +
+            "All monitoring is paused:\n" +
+            "• No price checking\n" +
+            "• No pattern analysis\n" +
+            "• No AI decisions\n" +
+            "• No trades\n\n" +
+            "Press *Start Bot* to resume.",
+          { parse_mode: "Markdown" },
+        );
         return; // Don't call next, we handled it
       }
 
@@ -208,7 +293,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         /^\d+$/.test(text)
       ) {
         const percent = parseInt(text);
-        if (percent >= 1 && percent <= 100 && this.userTradingService) {
+        if (percent >= 1 && percent <= 100) {
           await this.userTradingService.updateTradeAmount(
             chatId,
             "percentage",
@@ -229,8 +314,11 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // Start command
     this.bot.command("start", async (ctx) => {
       const chatId = ctx.chat.id.toString();
-      this.chatId = chatId;
-      this.logger.log(`Chat ID set: ${chatId}`);
+      // Only an admin may become the operator chat, and only when none is configured
+      if (!this.chatId && ctx.state.role === BotUserRole.ADMIN) {
+        this.chatId = chatId;
+        this.logger.log(`Chat ID set: ${chatId}`);
+      }
 
       // Load user's authentication state from DB
       await this.authService.loadUserAuth(chatId);
@@ -241,18 +329,15 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
           "Use the menu below to control the bot.",
         {
           parse_mode: "Markdown",
-          ...Markup.keyboard([
-            ["📊 Status", "🔐 Auth"],
-            ["▶️ Start Bot", "⏸️ Stop Bot"],
-            ["💰 Buy", "📤 Sell"],
-            ["📜 History", "💳 Transactions"],
-            ["🤖 AI Analyzer", "⚙️ Settings"],
-          ]).resize(),
+          ...Markup.keyboard(this.mainKeyboard(ctx.state.role)).resize(),
         },
       );
 
       // Check auth status for THIS user
-      if (!this.authService.isAuthenticated(chatId)) {
+      if (
+        ctx.state.role !== BotUserRole.VIEWER &&
+        !this.authService.isAuthenticated(chatId)
+      ) {
         await ctx.reply(
           "⚠️ *Not Authenticated*\n\nYou need to authenticate with Noghresea to start trading.",
           {
@@ -272,11 +357,6 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
 
     // Transactions button
     this.bot.hears("💳 Transactions", async (ctx) => {
-      if (!this.transactionService) {
-        await ctx.reply("❌ Transaction service not available.");
-        return;
-      }
-
       try {
         const summary = await this.transactionService.getStatsSummary(30);
         await ctx.reply(summary, { parse_mode: "Markdown" });
@@ -361,6 +441,25 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
             ? normalizedPhone
             : text;
 
+          // The chat may only log in to an account an admin linked it to
+          const { link, created } = await this.accessService.requestLink(
+            chatId,
+            phone,
+          );
+          if (link.status !== AccountLinkStatus.APPROVED) {
+            this.authService.setAwaitingPhone(chatId, false);
+            await ctx.reply(
+              `🔗 Linking this chat to ${phone} needs admin approval.\n\nYou'll get a message here once it is approved.`,
+            );
+            if (created) {
+              await this.notifyAdmins(
+                `🔗 Link request\n\nChat: ${chatId}\nPhone: ${phone}`,
+                Markup.inlineKeyboard([this.linkButtons(link)]),
+              );
+            }
+            return;
+          }
+
           this.authService.setPhoneNumber(chatId, phone);
           await ctx.reply(`📱 Phone: ${phone}\n\nSending OTP...`);
 
@@ -410,6 +509,10 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
 
       // Handle custom amount input for manual trading - per user
       const tradeState = this.manualTradeState.get(chatId);
+      if (tradeState && tradeState.awaitingLimit) {
+        await this.handleLimitOrderInput(ctx, tradeState, text);
+        return;
+      }
       if (tradeState && tradeState.awaitingAmount) {
         const input = text.replace(/,/g, "");
         const amount = parseFloat(input);
@@ -510,76 +613,61 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // Start bot (enable monitoring and trading)
     this.bot.hears("▶️ Start Bot", async (ctx) => {
       this.logger.log("▶️ Start Bot button pressed");
-      if (this.tradeExecutor) {
-        await this.tradeExecutor.enableTrading();
-        this.logger.log("✅ Trading enabled via button");
-        await ctx.reply(
-          "✅ *Bot STARTED*\n\n" +
-            "Full monitoring resumed:\n" +
-            "• Price checking every 10 seconds\n" +
-            "• Pattern analysis active\n" +
-            "• AI trading decisions enabled",
-          {
-            parse_mode: "Markdown",
-          },
-        );
-      } else {
-        this.logger.error("❌ tradeExecutor is null!");
-        await ctx.reply(
-          "❌ Trade executor not available. Please restart the bot.",
-        );
-      }
+      await this.tradeExecutor.enableTrading();
+      this.logger.log("✅ Trading enabled via button");
+      await ctx.reply(
+        "✅ *Bot STARTED*\n\n" +
+          "Full monitoring resumed:\n" +
+          "• Price checking every 10 seconds\n" +
+          "• Pattern analysis active\n" +
+          "• AI trading decisions enabled",
+        {
+          parse_mode: "Markdown",
+        },
+      );
     });
 
     // Stop bot (disable all monitoring and trading)
     this.bot.hears("⏸️ Stop Bot", async (ctx) => {
       this.logger.log("⏸️ Stop Bot button pressed");
-      if (this.tradeExecutor) {
-        await this.tradeExecutor.disableTrading();
-        this.logger.log("🛑 Trading disabled via button");
-        await ctx.reply(
-          "🛑 *Bot STOPPED*\n\n" +
-            "All monitoring is paused:\n" +
-            "• No price checking\n" +
-            "• No pattern analysis\n" +
-            "• No AI decisions\n" +
-            "• No trades\n\n" +
-            "Press *▶️ Start Bot* to resume.",
-          {
-            parse_mode: "Markdown",
-          },
-        );
-      } else {
-        this.logger.error("❌ tradeExecutor is null!");
-        await ctx.reply(
-          "❌ Trade executor not available. Please restart the bot.",
-        );
-      }
+      await this.tradeExecutor.disableTrading();
+      this.logger.log("🛑 Trading disabled via button");
+      await ctx.reply(
+        "🛑 *Bot STOPPED*\n\n" +
+          "All monitoring is paused:\n" +
+          "• No price checking\n" +
+          "• No pattern analysis\n" +
+          "• No AI decisions\n" +
+          "• No trades\n\n" +
+          "Press *▶️ Start Bot* to resume.",
+        {
+          parse_mode: "Markdown",
+        },
+      );
     });
 
     // Pause options
-    this.bot.action(/pause_(\d+)/, async (ctx) => {
+    this.bot.action(/^pause_(\d+)$/, async (ctx) => {
       const minutes = parseInt(ctx.match[1]);
-      if (this.tradeExecutor) {
-        await this.tradeExecutor.pauseTrading(minutes);
-        await ctx.answerCbQuery();
-        await ctx.reply(`⏸️ Trading paused for ${minutes} minutes.`);
-      }
+      await this.tradeExecutor.pauseTrading(minutes);
+      await ctx.answerCbQuery();
+      await ctx.reply(`⏸️ Trading paused for ${minutes} minutes.`);
     });
 
     // History
     this.bot.hears("📜 History", async (ctx) => {
-      if (!this.tradeExecutor) {
-        await ctx.reply(
-          "❌ Trade executor not available. Please restart the bot.",
-        );
-        return;
-      }
-
       try {
         const trades = await this.tradeExecutor.getRecentTrades(5);
-
-        if (trades.length === 0) {
+        const paperTrades = (
+          await this.userTradingService.getTradeHistory(
+            ctx.chat.id.toString(),
+            20,
+          )
+        )
+          .filter((t) => t.isPaper)
+          .slice(0, 5);
+
+        if (trades.length === 0 && paperTrades.length === 0) {
           await ctx.reply("📜 *Trade History*\n\nNo trades executed yet.", {
             parse_mode: "Markdown",
           });
@@ -599,7 +687,25 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
           })
           .join("\n\n");
 
-        await ctx.reply(`📜 *Recent Trades*\n\n${history}`, {
+        let message = `📜 *Recent Trades*\n\n${history || "No live trades yet."}`;
+
+        if (paperTrades.length > 0) {
+          const paperHistory = paperTrades
+            .map((t) => {
+              const time = new Date(t.executedAt).toLocaleString("en-US", {
+                month: "short",
+                day: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              });
+              const emoji = t.action === "BUY" ? "🟢" : "🔴";
+              return `📝 ${emoji} ${time}: ${t.action} ${Number(t.silverAmount).toFixed(2)}g @ ${Number(t.pricePerGram).toLocaleString()} (PAPER)`;
+            })
+            .join("\n");
+          message += `\n\n📝 *Paper Trades*\n\n${paperHistory}`;
+        }
+
+        await ctx.reply(message, {
           parse_mode: "Markdown",
         });
       } catch (error: any) {
@@ -617,7 +723,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // Trade percent quick buttons
     this.bot.action(/set_percent_(\d+)/, async (ctx) => {
       const chatId = ctx.chat?.id.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       const percent = parseInt(ctx.match[1]);
       await this.userTradingService.updateTradeAmount(
@@ -647,7 +753,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // Min confidence buttons
     this.bot.action(/set_confidence_(\d+)/, async (ctx) => {
       const chatId = ctx.chat?.id.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       const confidence = parseInt(ctx.match[1]);
       await this.userTradingService.updateMinConfidence(chatId, confidence);
@@ -658,7 +764,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // Toggle auto trading
     this.bot.action(/toggle_auto_(on|off)/, async (ctx) => {
       const chatId = ctx.chat?.id.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       const enabled = ctx.match[1] === "on";
       await this.userTradingService.toggleAutoTrading(chatId, enabled);
@@ -668,10 +774,117 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       await this.showTradeSettings(ctx);
     });
 
+    // Select decision strategy
+    this.bot.action(/set_strategy_(.+)/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      const name = ctx.match[1];
+      if (!this.strategyRegistry.has(name)) {
+        await ctx.answerCbQuery("❌ Unknown strategy");
+        return;
+      }
+
+      await this.userTradingService.updateStrategy(chatId, name);
+      await ctx.answerCbQuery(`🧠 Strategy set to ${name}`);
+      await this.showTradeSettings(ctx);
+    });
+
+    // Toggle paper trading
+    this.bot.action(/toggle_paper_(on|off)/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      const enabled = ctx.match[1] === "on";
+      await this.paperTrading.setPaperMode(chatId, enabled);
+      await ctx.answerCbQuery(
+        `📝 Paper trading ${enabled ? "enabled" : "disabled"}`,
+      );
+      await this.showTradeSettings(ctx);
+    });
+
+    // Reset paper wallet to starting balances
+    this.bot.action("reset_paper_wallet", async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      await this.paperTrading.resetWallet(chatId);
+      await ctx.answerCbQuery("📝 Paper wallet reset");
+      await this.showTradeSettings(ctx);
+    });
+
+    // Exit protection menu
+    this.bot.action("view_protection", async (ctx) => {
+      await ctx.answerCbQuery();
+      await this.showProtectionSettings(ctx);
+    });
+
+    // Row labels in inline keyboards
+    this.bot.action("noop", async (ctx) => {
+      await ctx.answerCbQuery();
+    });
+
+    this.bot.action(/set_(sl|tp|trail)_(\d+)/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      const value = parseInt(ctx.match[2]);
+      const percent = value > 0 ? value : null;
+      const field = {
+        sl: "stopLossPercent",
+        tp: "takeProfitPercent",
+        trail: "trailingStopPercent",
+      }[ctx.match[1] as "sl" | "tp" | "trail"];
+
+      await this.userTradingService.updateProtection(chatId, {
+        [field]: percent,
+      });
+      await ctx.answerCbQuery(
+        `🛡️ ${percent ? `Set to ${percent}%` : "Disabled"}`,
+      );
+      await this.showProtectionSettings(ctx);
+    });
+
+    // Risk limits menu
+    this.bot.action("view_risk_limits", async (ctx) => {
+      await ctx.answerCbQuery();
+      await this.showRiskLimits(ctx);
+    });
+
+    this.bot.action(/set_risk_(loss|streak|rate)_(\d+)/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      const value = parseInt(ctx.match[2]);
+      const limit = value > 0 ? value : null;
+      const field = {
+        loss: "dailyLossLimitToman",
+        streak: "maxConsecutiveLosses",
+        rate: "maxTradesPerHour",
+      }[ctx.match[1] as "loss" | "streak" | "rate"];
+
+      await this.riskManager.updateLimits(chatId, { [field]: limit });
+      await ctx.answerCbQuery(limit ? "🚨 Limit updated" : "🚨 Limit disabled");
+      await this.showRiskLimits(ctx);
+    });
+
+    // Resume after circuit breaker halt
+    this.bot.action("resume_auto_trading", async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) return;
+
+      await this.riskManager.resume(chatId);
+      await ctx.answerCbQuery("▶️ Auto trading resumed");
+      await ctx.reply(
+        "▶️ *Auto trading resumed*\n\nRisk limits now count from this moment.",
+        { parse_mode: "Markdown" },
+      );
+    });
+
     // View trade history
     this.bot.action("view_trade_history", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       await ctx.answerCbQuery();
       const history = await this.userTradingService.getTradeHistory(chatId, 10);
@@ -685,8 +898,9 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       for (const trade of history) {
         const emoji = trade.action === "BUY" ? "💰" : "📤";
         const source = trade.source === "AI" ? "🤖" : "👤";
+        const paper = trade.isPaper ? " 📝 PAPER" : "";
         const date = new Date(trade.executedAt).toLocaleString("fa-IR");
-        message += `${emoji} ${trade.action} ${trade.silverAmount.toFixed(2)}g @ ${Number(trade.pricePerGram).toLocaleString()} ${source}\n`;
+        message += `${emoji} ${trade.action} ${trade.silverAmount.toFixed(2)}g @ ${Number(trade.pricePerGram).toLocaleString()} ${source}${paper}\n`;
         message += `   ${date}\n\n`;
       }
 
@@ -696,7 +910,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // View session status
     this.bot.action("view_session", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       await ctx.answerCbQuery();
       const session = await this.userTradingService.getSessionStatus(chatId);
@@ -746,16 +960,13 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         return;
       }
 
-      // Set active chat ID for API calls
-      this.noghreseaApi.setActiveChatId(chatId);
-
       try {
         await ctx.reply("💰 Checking your balance...");
 
         // Get current price and inventory
         const [priceData, inventory] = await Promise.all([
           this.noghreseaApi.getSilverPrice(),
-          this.noghreseaApi.getInventory(),
+          this.noghreseaApi.getInventory(chatId),
         ]);
 
         if (!priceData || !priceData.price) {
@@ -783,7 +994,6 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         const maxGrams = Math.floor((safeBalance / pricePerGram) * 1000) / 1000;
 
         // Store state for follow-up - per user
-        const chatId = ctx.chat.id.toString();
         this.manualTradeState.set(chatId, {
           action: "buy",
           awaitingAmount: false,
@@ -807,6 +1017,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
                 ),
               ],
               [Markup.button.callback("✏️ Enter Custom Amount", "buy_custom")],
+              [Markup.button.callback("🎯 Limit Order", "buy_limit")],
               [Markup.button.callback("❌ Cancel", "trade_cancel")],
             ]),
           },
@@ -831,7 +1042,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         // Get current price and inventory
         const [priceData, inventory] = await Promise.all([
           this.noghreseaApi.getSilverPrice(),
-          this.noghreseaApi.getInventory(),
+          this.noghreseaApi.getInventory(chatId),
         ]);
 
         if (!priceData || !priceData.price) {
@@ -877,6 +1088,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
                 ),
               ],
               [Markup.button.callback("✏️ Enter Custom Amount", "sell_custom")],
+              [Markup.button.callback("🎯 Limit Order", "sell_limit")],
               [Markup.button.callback("❌ Cancel", "trade_cancel")],
             ]),
           },
@@ -891,7 +1103,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     this.bot.action("buy_max", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
-      if (!tradeState || tradeState.action !== "buy") {
+      if (!chatId || !tradeState || tradeState.action !== "buy") {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
@@ -924,7 +1136,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     this.bot.action("buy_custom", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
-      if (!tradeState || tradeState.action !== "buy") {
+      if (!chatId || !tradeState || tradeState.action !== "buy") {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
@@ -945,7 +1157,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     this.bot.action("sell_all", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
-      if (!tradeState || tradeState.action !== "sell") {
+      if (!chatId || !tradeState || tradeState.action !== "sell") {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
@@ -981,7 +1193,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     this.bot.action("sell_custom", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
-      if (!tradeState || tradeState.action !== "sell") {
+      if (!chatId || !tradeState || tradeState.action !== "sell") {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
@@ -1003,43 +1215,137 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       );
     });
 
-    // Trade Cancel callback
-    this.bot.action("trade_cancel", async (ctx) => {
+    // Limit Order callback - ask for amount, target price and expiry
+    this.bot.action(/^(buy|sell)_limit$/, async (ctx) => {
+      const action = ctx.match[1];
       const chatId = ctx.chat?.id.toString();
-      if (chatId) this.manualTradeState.delete(chatId);
-      await ctx.answerCbQuery("Cancelled");
-      await ctx.editMessageText("❌ Trade cancelled.");
+      const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
+      if (!chatId || !tradeState || tradeState.action !== action) {
+        await ctx.answerCbQuery("Session expired. Try again.");
+        return;
+      }
+
+      tradeState.awaitingAmount = false;
+      tradeState.awaitingLimit = true;
+
+      const pricePerGram = tradeState.currentPrice * 1000;
+      const balance =
+        action === "buy"
+          ? `${tradeState.maxAmount.toLocaleString()} Toman`
+          : `${tradeState.maxAmount.toFixed(3)} grams`;
+
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        `🎯 *Limit ${action === "buy" ? "Buy" : "Sell"}*\n\n` +
+          `Current Price: ${pricePerGram.toLocaleString()} Toman/gram\n` +
+          `Your balance: ${balance}\n\n` +
+          `Send: \`<grams> <price per gram> [hours]\`\n` +
+          `Expiry defaults to 24 hours, 0 = until cancelled.\n\n` +
+          `Example: \`0.5 ${Math.round(pricePerGram * (action === "buy" ? 0.98 : 1.02))} 24\``,
+        { parse_mode: "Markdown" },
+      );
     });
 
-    // Confirm Buy callback
-    this.bot.action(/confirm_buy_(.+)/, async (ctx) => {
-      const grams = parseFloat(ctx.match[1]);
+    // Confirm Limit Order callback
+    this.bot.action("confirm_limit", async (ctx) => {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
-
-      if (!tradeState || tradeState.action !== "buy") {
+      const limit = tradeState?.pendingLimit;
+      if (!chatId || !tradeState || !limit) {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
-
       await ctx.answerCbQuery("Processing...");
-      await ctx.editMessageText("⏳ Executing buy order...");
+      await ctx.editMessageText("⏳ Placing limit order...");
+      this.manualTradeState.delete(chatId);
 
       try {
-        // Volume in milligrams for API
-        const volumeInMilligrams = Math.round(grams * 1000);
-
-        const result = await this.noghreseaApi.createBuyOrder(
-          tradeState.currentPrice,
-          volumeInMilligrams,
+        const order = await this.limitOrderService.placeOrder(
+          chatId,
+          tradeState.action === "buy" ? "BUY" : "SELL",
+          limit.grams,
+          limit.price / 1000, // API price is in thousands
+          {
+            expiresInMinutes: limit.hours > 0 ? limit.hours * 60 : null,
+            source: TradeSource.MANUAL,
+          },
+        );
+        await ctx.editMessageText(
+          `✅ *Limit Order Placed*\n\n${this.formatLimitOrder(order)}\n\n` +
+            `You'll be notified when it fills. Use /orders to manage it.`,
+          { parse_mode: "Markdown" },
         );
+      } catch (error: any) {
+        await ctx.editMessageText(`❌ Limit order failed: ${error.message}`);
+      }
+    });
 
-        if (chatId) this.manualTradeState.delete(chatId);
+    // Cancel a resting limit order
+    this.bot.action(/^cancel_limit_(.+)$/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) {
+        await ctx.answerCbQuery("Limit orders not available.");
+        return;
+      }
 
-        if (result && result.orderId) {
-          await ctx.editMessageText(
-            `✅ *Buy Order Executed!*\n\n` +
-              `Bought: ${grams.toFixed(3)} grams\n` +
+      try {
+        const order = await this.limitOrderService.cancelOrder(
+          chatId,
+          ctx.match[1],
+        );
+        if (!order) {
+          await ctx.answerCbQuery("Order is no longer open.");
+          return;
+        }
+        await ctx.answerCbQuery("Cancelled");
+        await ctx.reply(
+          `🗑️ *Limit Order Cancelled*\n\n${this.formatLimitOrder(order)}`,
+          { parse_mode: "Markdown" },
+        );
+      } catch (error: any) {
+        await ctx.answerCbQuery("Cancel failed");
+        await ctx.reply(`❌ Cancel failed: ${error.message}`);
+      }
+    });
+
+    // Trade Cancel callback
+    this.bot.action("trade_cancel", async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (chatId) this.manualTradeState.delete(chatId);
+      await ctx.answerCbQuery("Cancelled");
+      await ctx.editMessageText("❌ Trade cancelled.");
+    });
+
+    // Confirm Buy callback
+    this.bot.action(/confirm_buy_(.+)/, async (ctx) => {
+      const grams = parseFloat(ctx.match[1]);
+      const chatId = ctx.chat?.id.toString();
+      const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
+
+      if (!chatId || !tradeState || tradeState.action !== "buy") {
+        await ctx.answerCbQuery("Session expired. Try again.");
+        return;
+      }
+
+      await ctx.answerCbQuery("Processing...");
+      await ctx.editMessageText("⏳ Executing buy order...");
+
+      try {
+        // Volume in milligrams for API
+        const volumeInMilligrams = Math.round(grams * 1000);
+
+        const result = await this.noghreseaApi.createBuyOrder(
+          chatId,
+          tradeState.currentPrice,
+          volumeInMilligrams,
+        );
+
+        if (chatId) this.manualTradeState.delete(chatId);
+
+        if (result && result.orderId) {
+          await ctx.editMessageText(
+            `✅ *Buy Order Executed!*\n\n` +
+              `Bought: ${grams.toFixed(3)} grams\n` +
               `Order ID: ${result.orderId}`,
             { parse_mode: "Markdown" },
           );
@@ -1061,7 +1367,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       const chatId = ctx.chat?.id.toString();
       const tradeState = chatId ? this.manualTradeState.get(chatId) : null;
 
-      if (!tradeState || tradeState.action !== "sell") {
+      if (!chatId || !tradeState || tradeState.action !== "sell") {
         await ctx.answerCbQuery("Session expired. Try again.");
         return;
       }
@@ -1074,6 +1380,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         const volumeInMilligrams = Math.round(grams * 1000);
 
         const result = await this.noghreseaApi.createSellOrder(
+          chatId,
           tradeState.currentPrice,
           volumeInMilligrams,
         );
@@ -1113,10 +1420,18 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       await this.showAiAnalyzer(ctx, period);
     });
 
+    // AI Analyzer price chart with AI trades marked
+    this.bot.action(/^ai_chart_(1d|1w)$/, async (ctx) => {
+      await ctx.answerCbQuery("Rendering chart...");
+      await this.sendPriceChart(ctx, ctx.match[1] as ChartRange, {
+        tradeSource: TradeSource.AI,
+      });
+    });
+
     // AI Analyzer detailed view
     this.bot.action("ai_monthly_breakdown", async (ctx) => {
       const chatId = ctx.chat?.id?.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       await ctx.answerCbQuery();
 
@@ -1156,7 +1471,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     // AI Analyzer all-time stats
     this.bot.action("ai_all_time", async (ctx) => {
       const chatId = ctx.chat?.id?.toString();
-      if (!chatId || !this.userTradingService) return;
+      if (!chatId) return;
 
       await ctx.answerCbQuery();
 
@@ -1204,11 +1519,6 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     this.bot.hears("🤖 GPT Data", async (ctx) => {
       await ctx.reply("🤖 Preparing GPT-ready data...");
 
-      if (!this.dailyAnalysis) {
-        await ctx.reply("❌ Daily analysis service not available.");
-        return;
-      }
-
       try {
         const gptData = await this.dailyAnalysis.getSummariesForGpt(7);
 
@@ -1241,11 +1551,6 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
 
     // Week summary command
     this.bot.command("week", async (ctx) => {
-      if (!this.dailyAnalysis) {
-        await ctx.reply("❌ Daily analysis service not available.");
-        return;
-      }
-
       try {
         const summaries = await this.dailyAnalysis.getRecentSummaries(7);
 
@@ -1273,15 +1578,472 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         });
 
         await ctx.reply(message, { parse_mode: "Markdown" });
+        await this.sendPriceChart(ctx, "1w", {
+          chatId: ctx.chat?.id?.toString(),
+        });
+      } catch (error: any) {
+        await ctx.reply(`❌ Error: ${error.message}`);
+      }
+    });
+
+    // Open limit orders with cancel buttons: /orders
+    this.bot.command("orders", async (ctx) => {
+      try {
+        const orders = await this.limitOrderService.getOpenOrders(
+          ctx.chat.id.toString(),
+        );
+        if (orders.length === 0) {
+          await ctx.reply(
+            "No open limit orders. Use 💰 Buy or 📤 Sell → 🎯 Limit Order.",
+          );
+          return;
+        }
+
+        const message =
+          `🎯 *Open Limit Orders (${orders.length})*\n━━━━━━━━━━━━━━━━\n\n` +
+          orders
+            .map((o, i) => `*${i + 1}.* ${this.formatLimitOrder(o)}`)
+            .join("\n\n");
+        await ctx.reply(message, {
+          parse_mode: "Markdown",
+          ...Markup.inlineKeyboard(
+            orders.map((o, i) => [
+              Markup.button.callback(
+                `🗑️ Cancel #${i + 1}`,
+                `cancel_limit_${o.id}`,
+              ),
+            ]),
+          ),
+        });
       } catch (error: any) {
         await ctx.reply(`❌ Error: ${error.message}`);
       }
     });
 
+    // Price alerts: /alert <metric> <above|below> <value> [repeat], /alert clear
+    this.bot.command("alert", async (ctx) => {
+      const chatId = ctx.chat.id.toString();
+      const args = ctx.message.text.split(/\s+/).slice(1);
+
+      try {
+        if (args[0] === "clear") {
+          const count = await this.priceAlertService.deleteAll(chatId);
+          await ctx.reply(`🗑️ Deleted ${count} alert(s).`);
+          return;
+        }
+
+        const input = this.parseAlertArgs(args);
+        if (!input) {
+          await ctx.reply(this.ALERT_USAGE, { parse_mode: "Markdown" });
+          return;
+        }
+
+        const alert = await this.priceAlertService.createAlert(chatId, input);
+        await ctx.reply(
+          `🔔 *Alert Set*\n\n${this.formatPriceAlert(alert)}\n\nUse /alerts to list or delete alerts.`,
+          { parse_mode: "Markdown" },
+        );
+      } catch (error: any) {
+        await ctx.reply(`❌ ${error.message}`);
+      }
+    });
+
+    // List alerts with delete buttons: /alerts
+    this.bot.command("alerts", async (ctx) => {
+      try {
+        const alerts = await this.priceAlertService.getAlerts(
+          ctx.chat.id.toString(),
+        );
+        if (alerts.length === 0) {
+          await ctx.reply(`No active alerts.\n\n${this.ALERT_USAGE}`, {
+            parse_mode: "Markdown",
+          });
+          return;
+        }
+
+        await ctx.reply(
+          `🔔 *Price Alerts (${alerts.length})*\n━━━━━━━━━━━━━━━━\n\n` +
+            alerts
+              .map((a, i) => `*${i + 1}.* ${this.formatPriceAlert(a)}`)
+              .join("\n"),
+          {
+            parse_mode: "Markdown",
+            ...Markup.inlineKeyboard(
+              alerts.map((a, i) => [
+                Markup.button.callback(
+                  `🗑️ Delete #${i + 1}`,
+                  `alert_delete_${a.id}`,
+                ),
+              ]),
+            ),
+          },
+        );
+      } catch (error: any) {
+        await ctx.reply(`❌ Error: ${error.message}`);
+      }
+    });
+
+    this.bot.action(/^alert_delete_(.+)$/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) {
+        await ctx.answerCbQuery("Price alerts not available.");
+        return;
+      }
+
+      const deleted = await this.priceAlertService.deleteAlert(
+        chatId,
+        ctx.match[1],
+      );
+      await ctx.answerCbQuery(deleted ? "Deleted" : "Alert not found");
+      if (deleted) await ctx.reply("🗑️ Alert deleted.");
+    });
+
+    // Recurring buy plans: /dca, /dca add ...
+    this.bot.command("dca", async (ctx) => {
+      const chatId = ctx.chat.id.toString();
+      const args = ctx.message.text.split(/\s+/).slice(1);
+
+      try {
+        if (args[0] === "add") {
+          const input = this.parseDcaArgs(args.slice(1));
+          if (!input) {
+            await ctx.reply(this.DCA_USAGE, { parse_mode: "Markdown" });
+            return;
+          }
+          const plan = await this.dcaService.createPlan(chatId, input);
+          await ctx.reply(
+            `✅ *DCA Plan Created*\n\n${this.formatDcaPlan(plan)}`,
+            { parse_mode: "Markdown" },
+          );
+          return;
+        }
+
+        const plans = await this.dcaService.getPlans(chatId);
+        if (plans.length === 0) {
+          await ctx.reply(`No DCA plans yet.\n\n${this.DCA_USAGE}`, {
+            parse_mode: "Markdown",
+          });
+          return;
+        }
+
+        await ctx.reply(
+          `🗓️ *DCA Plans (${plans.length})*\n━━━━━━━━━━━━━━━━\n\n` +
+            plans
+              .map((p, i) => `*${i + 1}.* ${this.formatDcaPlan(p)}`)
+              .join("\n\n"),
+          {
+            parse_mode: "Markdown",
+            ...Markup.inlineKeyboard(
+              plans.map((p, i) => [
+                p.enabled
+                  ? Markup.button.callback(
+                      `⏸️ Pause #${i + 1}`,
+                      `dca_pause_${p.id}`,
+                    )
+                  : Markup.button.callback(
+                      `▶️ Resume #${i + 1}`,
+                      `dca_resume_${p.id}`,
+                    ),
+                Markup.button.callback(
+                  `🗑️ Delete #${i + 1}`,
+                  `dca_delete_${p.id}`,
+                ),
+              ]),
+            ),
+          },
+        );
+      } catch (error: any) {
+        await ctx.reply(`❌ ${error.message}`);
+      }
+    });
+
+    // Pause / resume / delete a DCA plan
+    this.bot.action(/^dca_(pause|resume|delete)_(.+)$/, async (ctx) => {
+      const chatId = ctx.chat?.id.toString();
+      if (!chatId) {
+        await ctx.answerCbQuery("DCA plans not available.");
+        return;
+      }
+
+      const [, op, id] = ctx.match;
+      if (op === "delete") {
+        const deleted = await this.dcaService.deletePlan(chatId, id);
+        await ctx.answerCbQuery(deleted ? "Deleted" : "Plan not found");
+        if (deleted) await ctx.reply("🗑️ DCA plan deleted.");
+        return;
+      }
+
+      const plan = await this.dcaService.setEnabled(
+        chatId,
+        id,
+        op === "resume",
+      );
+      if (!plan) {
+        await ctx.answerCbQuery("Plan not found");
+        return;
+      }
+      await ctx.answerCbQuery(plan.enabled ? "Resumed" : "Paused");
+      await ctx.reply(
+        `${plan.enabled ? "▶️ *DCA Plan Resumed*" : "⏸️ *DCA Plan Paused*"}\n\n${this.formatDcaPlan(plan)}`,
+        { parse_mode: "Markdown" },
+      );
+    });
+
+    // Admin: allow-list with role and revoke buttons
+    this.bot.command("users", async (ctx) => {
+      const users = await this.accessService.listUsers();
+      if (users.length === 0) {
+        await ctx.reply("No users yet.");
+        return;
+      }
+
+      for (const user of users) {
+        await ctx.reply(
+          `${this.describeUser(user)}\nStatus: ${user.status}` +
+            (user.status === BotUserStatus.APPROVED
+              ? `\nRole: ${user.role}`
+              : ""),
+          Markup.inlineKeyboard([this.userButtons(user)]),
+        );
+      }
+    });
+
+    this.bot.action(
+      /^user_(viewer|trader|admin|revoke)_(-?\d+)$/,
+      async (ctx) => {
+        const adminChatId = ctx.chat!.id.toString();
+        const chatId = ctx.match[2];
+
+        if (ctx.match[1] === "revoke") {
+          await this.accessService.revokeUser(chatId, adminChatId);
+          await this.endChatSession(chatId);
+          await ctx.answerCbQuery("Revoked");
+          await ctx.reply(`⛔ Chat ${chatId} can no longer use the bot.`);
+          return;
+        }
+
+        const wasAllowed = await this.accessService.isAllowed(chatId);
+        const role = ctx.match[1].toUpperCase() as BotUserRole;
+        await this.accessService.approveUser(chatId, role, adminChatId);
+        if (role === BotUserRole.VIEWER) {
+          // Viewers don't trade, so nothing keeps running on their account
+          await this.endChatSession(chatId);
+        }
+        await ctx.answerCbQuery(role);
+        await ctx.reply(`✅ Chat ${chatId} is now a ${role.toLowerCase()}.`);
+        await this.sendMessage(
+          wasAllowed
+            ? `👤 Your role is now ${role.toLowerCase()}. Send /start to refresh the menu.`
+            : "✅ Your access was approved. Send /start to begin.",
+          chatId,
+        );
+      },
+    );
+
+    // Admin: chat ↔ phone links with approve/reject/revoke buttons
+    this.bot.command("links", async (ctx) => {
+      const links = await this.accessService.listLinks();
+      if (links.length === 0) {
+        await ctx.reply("No account links.");
+        return;
+      }
+
+      for (const link of links) {
+        await ctx.reply(
+          `Chat: ${link.telegramChatId}\nPhone: ${link.phoneNumber}\nStatus: ${link.status}` +
+            (link.decidedBy ? ` (by ${link.decidedBy})` : ""),
+          Markup.inlineKeyboard([this.linkButtons(link)]),
+        );
+      }
+    });
+
+    this.bot.action(/^link_(approve|reject|revoke)_(.+)$/, async (ctx) => {
+      const adminChatId = ctx.chat!.id.toString();
+      const decision = ctx.match[1];
+
+      try {
+        let link: AccountLink;
+        if (decision === "approve") {
+          link = await this.accessService.approveLink(
+            ctx.match[2],
+            adminChatId,
+          );
+          // Drop a session on a previously linked account
+          this.authService.forgetChat(link.telegramChatId);
+          await this.bot.telegram.sendMessage(
+            link.telegramChatId,
+            `✅ This chat is now linked to ${link.phoneNumber}. Log in to start trading:`,
+            Markup.inlineKeyboard([
+              Markup.button.callback("📱 Send OTP", "send_otp"),
+            ]),
+          );
+        } else if (decision === "reject") {
+          link = await this.accessService.rejectLink(ctx.match[2], adminChatId);
+          await this.sendMessage(
+            `❌ Your request to link ${link.phoneNumber} was declined.`,
+            link.telegramChatId,
+          );
+        } else {
+          link = await this.accessService.revokeLink(ctx.match[2], adminChatId);
+          await this.endChatSession(link.telegramChatId);
+          await this.sendMessage(
+            `🔗 This chat is no longer linked to ${link.phoneNumber}.`,
+            link.telegramChatId,
+          );
+        }
+
+        await ctx.answerCbQuery(link.status);
+        await ctx.reply(
+          `🔗 ${link.telegramChatId} ↔ ${link.phoneNumber}: ${link.status}`,
+        );
+      } catch (error: any) {
+        await ctx.answerCbQuery();
+        await ctx.reply(`❌ ${error.message}`);
+      }
+    });
+
+    // Prediction accuracy command: /accuracy [days]
+    this.bot.command("accuracy", async (ctx) => {
+      const [, daysArg] = ctx.message.text.split(/\s+/);
+      const days = daysArg ? parseInt(daysArg) : 7;
+      if (isNaN(days) || days < 1 || days > 90) {
+        await ctx.reply("❌ Usage: /accuracy [days] (1-90 days, default 7)");
+        return;
+      }
+
+      try {
+        const stats = await this.aiPredictionService.getAccuracyBreakdown(days);
+
+        if (stats.evaluated === 0) {
+          await ctx.reply("No evaluated predictions for this period yet.");
+          return;
+        }
+
+        let message = `🎯 *Prediction Accuracy (${days}d)*\n━━━━━━━━━━━━━━━━\n\n`;
+        message += `✅ Overall (+10min): ${stats.accuracy.toFixed(1)}% (${stats.correct}/${stats.total})\n`;
+
+        message += "\n*By horizon:*\n";
+        stats.byHorizon
+          .filter((h) => h.total > 0)
+          .forEach((h) => {
+            const label =
+              h.minutes >= 60 ? `${h.minutes / 60}h` : `${h.minutes}min`;
+            message += `  +${label}: ${h.accuracy.toFixed(1)}% (${h.correct}/${h.total})\n`;
+          });
+
+        message += "\n*By confidence:*\n";
+        stats.byConfidence
+          .filter((b) => b.total > 0)
+          .forEach((b) => {
+            message += `  ${b.bucket}%: ${b.accuracy.toFixed(1)}% (${b.correct}/${b.total})\n`;
+          });
+
+        const patterns = stats.byPattern.slice(0, 8);
+        if (patterns.length > 0) {
+          message += "\n*By pattern:*\n";
+          patterns.forEach((p) => {
+            message += `  ${p.pattern}: ${p.accuracy.toFixed(1)}% (${p.correct}/${p.total})\n`;
+          });
+        }
+
+        await ctx.reply(message, { parse_mode: "Markdown" });
+      } catch (error: any) {
+        await ctx.reply(`❌ Error: ${error.message}`);
+      }
+    });
+
+    // Backtest command: /backtest [days] [strategy]
+    this.bot.command("backtest", async (ctx) => {
+      const [, daysArg, strategyArg] = ctx.message.text.split(/\s+/);
+      const maxDays = this.backtestService.getMaxDays();
+      const days = daysArg ? parseInt(daysArg) : Math.min(7, maxDays);
+      if (isNaN(days) || days < 1 || days > maxDays) {
+        await ctx.reply(
+          `❌ Usage: /backtest [days] [strategy] (1-${maxDays} days, default 7)\n` +
+            `Only the last ${maxDays} day(s) of price history are kept.`,
+        );
+        return;
+      }
+      if (strategyArg && !this.strategyRegistry.has(strategyArg)) {
+        const names = this.strategyRegistry.list().map((s) => s.name);
+        await ctx.reply(`❌ Unknown strategy. Available: ${names.join(", ")}`);
+        return;
+      }
+
+      const chatId = ctx.chat.id.toString();
+      if (this.runningBacktests.has(chatId)) {
+        await ctx.reply("⏳ A backtest is already running for this chat.");
+        return;
+      }
+
+      await ctx.reply(
+        `📼 Running backtest over the last ${days} day(s)... I'll send the report when it's done.`,
+      );
+      // Replays can outlast the update handler timeout, so don't await here
+      void this.runBacktest(chatId, days, strategyArg);
+    });
+
     // Setup inline button handlers
     this.setupRefreshHandler();
   }
 
+  private async runBacktest(chatId: string, days: number, strategy?: string) {
+    this.runningBacktests.add(chatId);
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      const report = await this.backtestService.run({
+        from,
+        to,
+        chatId,
+        strategy,
+      });
+
+      if (report.ticks === 0) {
+        await this.sendMessage(
+          "No price history stored for this period.",
+          chatId,
+        );
+        return;
+      }
+
+      const plEmoji = report.profitLossToman >= 0 ? "🟢" : "🔴";
+      let message = `📼 *Backtest Report (${days}d)*\n━━━━━━━━━━━━━━━━\n\n`;
+      message += `🧠 Strategy: ${report.strategy}\n`;
+      message += `📊 Ticks replayed: ${report.ticks}\n`;
+      message += `💼 Start equity: ${Math.round(report.initialEquity).toLocaleString()} T\n`;
+      message += `💼 End equity: ${Math.round(report.finalEquity).toLocaleString()} T\n`;
+      message += `${plEmoji} P/L: ${Math.round(report.profitLossToman).toLocaleString()} T (${report.profitLossPercent >= 0 ? "+" : ""}${report.profitLossPercent.toFixed(2)}%)\n`;
+      message += `💸 Fees: ${Math.round(report.totalFees).toLocaleString()} T\n`;
+      message += `📉 Max drawdown: ${report.maxDrawdownPercent.toFixed(2)}%\n\n`;
+      message += `🔄 Trades: ${report.trades.length}\n`;
+      message += `✅ Wins: ${report.winningTrades} | ❌ Losses: ${report.losingTrades}\n`;
+      message += `🎯 Win rate: ${report.winRate.toFixed(1)}%\n`;
+
+      const recent = report.trades.slice(-5);
+      if (recent.length > 0) {
+        message += "\n*Last trades:*\n";
+        recent.forEach((t) => {
+          const emoji = t.action === "BUY" ? "🟢" : "🔴";
+          const time = t.time.toLocaleString("en-US", {
+            month: "short",
+            day: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+          });
+          message += `${emoji} ${time} ${t.action} ${t.silverAmount.toFixed(4)}g @ ${t.price.toLocaleString()}\n`;
+        });
+      }
+
+      await this.sendMessage(message, chatId);
+    } catch (error: any) {
+      this.logger.error(`Backtest failed for ${chatId}: ${error.message}`);
+      await this.sendMessage(`❌ Backtest failed: ${error.message}`, chatId);
+    } finally {
+      this.runningBacktests.delete(chatId);
+    }
+  }
+
   private splitMessage(text: string, maxLength: number): string[] {
     const chunks: string[] = [];
     let remaining = text;
@@ -1310,29 +2072,25 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       const chatId = ctx.chat?.id?.toString();
 
       // Get current prices - fetch if not cached
-      let prices: any = null;
-      if (this.priceFetcher) {
-        prices = this.priceFetcher.getLastPrices();
-        // If no cached prices, fetch them now
-        if (!prices) {
-          prices = await this.priceFetcher.fetchAllPrices();
-        }
+      let prices: any = this.priceFetcher.getLastPrices();
+      // If no cached prices, fetch them now
+      if (!prices) {
+        prices = await this.priceFetcher.fetchAllPrices();
       }
 
       // Get wallet state
       let wallet = { tomanBalance: 0, silverBalance: 0 };
-      if (this.tradeExecutor && chatId) {
-        this.noghreseaApi.setActiveChatId(chatId);
+      if (chatId) {
         try {
-          wallet = await this.tradeExecutor.getWalletState();
+          wallet = await this.tradeExecutor.getWalletState(chatId);
         } catch (e) {
           // Wallet fetch might fail if not authenticated
         }
       }
 
       // Get trading status
-      const tradingEnabled = this.tradeExecutor?.isTradingEnabled() ?? false;
-      const tradingStatus = this.tradeExecutor?.getTradingStatus();
+      const tradingEnabled = this.tradeExecutor.isTradingEnabled();
+      const tradingStatus = this.tradeExecutor.getTradingStatus();
 
       // Build status message
       let message = `📊 *Silver Predictor Status*\n━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
@@ -1349,11 +2107,32 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
       message += `├── Gold Ounce: $${prices?.goldOunce?.toFixed(2) || "N/A"}\n`;
       message += `└── USDT/Toman: ${prices?.usdtToman?.toLocaleString() || "N/A"}\n\n`;
 
+      if (prices) {
+        try {
+          const indicators = await this.indicatorService.getIndicators(prices);
+          const lines = describeIndicators(indicators);
+          message += `📐 *Indicators (${indicators.candleMinutes}m candles):*\n`;
+          message += lines
+            .map(
+              (line, i) => `${i === lines.length - 1 ? "└──" : "├──"} ${line}`,
+            )
+            .join("\n");
+          message += `\n\n`;
+        } catch (e) {
+          // Indicators are optional in the status report
+        }
+      }
+
       message += `💼 *Wallet:*\n`;
       message += `├── Toman: ${wallet.tomanBalance.toLocaleString()}\n`;
       message += `└── Silver: ${wallet.silverBalance.toFixed(2)}g\n\n`;
 
       message += `🔐 *Auth:* ${chatId && this.authService.isAuthenticated(chatId) ? "✅ Authenticated" : "❌ Not authenticated"}\n`;
+      const tokenExpiry = this.authService.getTokenExpiry(chatId);
+      if (tokenExpiry && this.authService.isAuthenticated(chatId)) {
+        const hoursLeft = (tokenExpiry.getTime() - Date.now()) / 3600000;
+        message += `⌛ *Login expires in:* ${hoursLeft >= 48 ? `${Math.floor(hoursLeft / 24)}d` : `${hoursLeft.toFixed(1)}h`}\n`;
+      }
       message += `⚡ *Trading:* ${tradingEnabled ? "✅ ENABLED" : "❌ DISABLED"}\n`;
 
       if (tradingStatus?.pausedUntil) {
@@ -1367,10 +2146,20 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
         ...Markup.inlineKeyboard([
           [
             Markup.button.callback("🔄 Refresh", "refresh_status"),
-            Markup.button.callback(
-              tradingEnabled ? "⏸️ Pause 30m" : "▶️ Enable",
-              tradingEnabled ? "pause_30" : "enable_trading",
-            ),
+            // Global bot control, admins only
+            ...(ctx.state.role === BotUserRole.ADMIN
+              ? [
+                  Markup.button.callback(
+                    tradingEnabled ? "⏸️ Pause 30m" : "▶️ Enable",
+                    tradingEnabled ? "pause_30" : "enable_trading",
+                  ),
+                ]
+              : []),
+          ],
+          [
+            Markup.button.callback("📈 1h", "chart_1h"),
+            Markup.button.callback("📈 1d", "chart_1d"),
+            Markup.button.callback("📈 1w", "chart_1w"),
           ],
         ]),
       });
@@ -1387,34 +2176,134 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
     });
 
     this.bot.action("enable_trading", async (ctx) => {
-      if (this.tradeExecutor) {
-        await this.tradeExecutor.enableTrading();
-        await ctx.answerCbQuery("Trading enabled!");
-        await this.sendStatusReport(ctx);
-      } else {
-        await ctx.answerCbQuery("Trade executor not ready");
-      }
+      await this.tradeExecutor.enableTrading();
+      await ctx.answerCbQuery("Trading enabled!");
+      await this.sendStatusReport(ctx);
     });
 
     this.bot.action("pause_30", async (ctx) => {
-      if (this.tradeExecutor) {
-        await this.tradeExecutor.pauseTrading(30);
-        await ctx.answerCbQuery("Trading paused for 30 minutes");
-        await this.sendStatusReport(ctx);
-      } else {
-        await ctx.answerCbQuery("Trade executor not ready");
-      }
+      await this.tradeExecutor.pauseTrading(30);
+      await ctx.answerCbQuery("Trading paused for 30 minutes");
+      await this.sendStatusReport(ctx);
+    });
+
+    this.bot.action(/^chart_(1h|1d|1w)$/, async (ctx) => {
+      await ctx.answerCbQuery("Rendering chart...");
+      await this.sendPriceChart(ctx, ctx.match[1] as ChartRange, {
+        chatId: ctx.chat?.id?.toString(),
+      });
     });
     // Note: send_otp action is already registered in setupHandlers()
   }
 
+  private mainKeyboard(role: BotUserRole): string[][] {
+    if (role === BotUserRole.VIEWER) {
+      return [["📊 Status", "📜 History"], ["🤖 AI Analyzer"]];
+    }
+    return [
+      ["📊 Status", "🔐 Auth"],
+      ...(role === BotUserRole.ADMIN ? [["▶️ Start Bot", "⏸️ Stop Bot"]] : []),
+      ["💰 Buy", "📤 Sell"],
+      ["📜 History", "💳 Transactions"],
+      ["🤖 AI Analyzer", "⚙️ Settings"],
+    ];
+  }
+
+  private async notifyAdmins(message: string, extra: any = {}) {
+    for (const adminChatId of await this.accessService.getAdminChatIds()) {
+      try {
+        await this.bot.telegram.sendMessage(adminChatId, message, extra);
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to notify admin ${adminChatId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  // Log the chat out and stop its auto trading after access was taken away
+  private async endChatSession(chatId: string) {
+    this.authService.forgetChat(chatId);
+    this.manualTradeState.delete(chatId);
+    await this.userTradingService.toggleAutoTrading(chatId, false);
+  }
+
+  private describeUser(user: BotUser): string {
+    return [
+      `Chat: ${user.telegramChatId}`,
+      user.displayName ? `Name: ${user.displayName}` : null,
+      user.username ? `Username: @${user.username}` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  private userButtons(user: BotUser) {
+    const id = user.telegramChatId;
+    const roles = [
+      Markup.button.callback("👁 Viewer", `user_viewer_${id}`),
+      Markup.button.callback("💹 Trader", `user_trader_${id}`),
+      Markup.button.callback("⭐ Admin", `user_admin_${id}`),
+    ];
+    if (user.status !== BotUserStatus.APPROVED) {
+      return [
+        ...roles.slice(0, 2),
+        Markup.button.callback("⛔ Deny", `user_revoke_${id}`),
+      ];
+    }
+    return [
+      ...roles.filter(
+        (b) => b.callback_data !== `user_${user.role.toLowerCase()}_${id}`,
+      ),
+      Markup.button.callback("⛔ Revoke", `user_revoke_${id}`),
+    ];
+  }
+
+  private linkButtons(link: AccountLink) {
+    return link.status === AccountLinkStatus.APPROVED
+      ? [Markup.button.callback("⛔ Revoke", `link_revoke_${link.id}`)]
+      : [
+          Markup.button.callback("✅ Approve", `link_approve_${link.id}`),
+          Markup.button.callback("❌ Reject", `link_reject_${link.id}`),
+        ];
+  }
+
+  /**
+   * Reply with a PNG price chart; `options` selects whose trades are marked
+   */
+  private async sendPriceChart(
+    ctx: any,
+    range: ChartRange,
+    options: { chatId?: string; tradeSource?: TradeSource } = {},
+  ) {
+    try {
+      const png = await this.chartService.renderPriceChart(range, options);
+      await ctx.replyWithPhoto(
+        { source: png },
+        {
+          caption:
+            `📈 Noghresea - last ${range}\n` +
+            `Dashed: international silver in Toman • ● patterns • ▲▼ ` +
+            (options.tradeSource === TradeSource.AI
+              ? "AI trades"
+              : "your trades"),
+        },
+      );
+    } catch (error: any) {
+      this.logger.error(`Chart render failed: ${error.message}`);
+      await ctx.reply(`❌ Error rendering chart: ${error.message}`);
+    }
+  }
+
   async sendFullStatus(
     prices: AllPrices,
     analysis: PatternAnalysis,
     wallet: { tomanBalance: number; silverBalance: number },
     tradingEnabled: boolean,
+    paperMode = false,
+    chatId: string | null = this.chatId,
   ) {
-    if (!this.chatId || !this.bot) return;
+    if (!chatId || !this.bot) return;
 
     // Escape special Markdown characters in pattern types
     const escapeMarkdown = (text: string) =>
@@ -1440,7 +2329,7 @@ export class TelegramBotService implements OnModuleInit, OnModuleDestroy {
 ├── Gold Ounce: $${prices.goldOunce?.toFixed(2) || "N/A"}
 └── USDT/Toman: ${prices.usdtToman?.toLocaleString() || "N/A"}
 
-💼 *Wallet:*
+💼 *${paperMode ? "📝 Paper Wallet" : "Wallet"}:*
 ├── Toman: ${wallet.tomanBalance.toLocaleString()}
 └── Silver: ${wallet.silverBalance.toFixed(2)}g
 
@@ -1452,25 +2341,30 @@ ${patternsText}
 ⚡ *Trading:* ${tradingEnabled ? "✅ ENABLED" : "❌ DISABLED"}
 ━━━━━━━━━━━━━━━━━━━━━━━━`;
 
-    await this.bot.telegram.sendMessage(this.chatId, message, {
+    const isAdmin = await this.accessService.isAdmin(chatId);
+    await this.bot.telegram.sendMessage(chatId, message, {
       parse_mode: "Markdown",
       ...Markup.inlineKeyboard([
         [
           Markup.button.callback("🔄 Refresh", "refresh_status"),
-          Markup.button.callback(
-            tradingEnabled ? "⏸️ Pause 30m" : "▶️ Resume",
-            tradingEnabled ? "pause_30" : "enable_trading",
-          ),
+          ...(isAdmin
+            ? [
+                Markup.button.callback(
+                  tradingEnabled ? "⏸️ Pause 30m" : "▶️ Resume",
+                  tradingEnabled ? "pause_30" : "enable_trading",
+                ),
+              ]
+            : []),
         ],
       ]),
     });
   }
 
-  async sendAuthRequired() {
-    if (!this.chatId || !this.bot) return;
+  async sendAuthRequired(chatId: string | null = this.chatId) {
+    if (!chatId || !this.bot) return;
 
     await this.bot.telegram.sendMessage(
-      this.chatId,
+      chatId,
       "🔒 *Authentication Required*\n\nYour session has expired. Please authenticate to continue trading.",
       {
         parse_mode: "Markdown",
@@ -1481,59 +2375,502 @@ ${patternsText}
     );
   }
 
-  async sendTradeExecuted(trade: TradeHistory, decision: AiDecision) {
-    if (!this.chatId || !this.bot) return;
+  async sendAuthExpiring(expiresAt: Date, chatId: string | null = this.chatId) {
+    if (!chatId || !this.bot) return;
+
+    const when = expiresAt.toLocaleString("en-US", {
+      timeZone: "Asia/Tehran",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const hoursLeft = Math.max(
+      0,
+      (expiresAt.getTime() - Date.now()) / (60 * 60 * 1000),
+    );
+
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `⌛ *Login Expiring Soon*\n\n` +
+        `Your Noghresea session expires ${when} (Tehran), in about ${hoursLeft.toFixed(0)}h.\n` +
+        `Log in again now to keep auto trading running without interruption.`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          Markup.button.callback("📱 Send OTP", "send_otp"),
+        ]),
+      },
+    );
+  }
+
+  async sendAuthLapsed(
+    autoTradingPaused: boolean,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
+
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `🔒 *Login Expired*\n\nYour Noghresea session has expired.` +
+        (autoTradingPaused
+          ? `\n\n⏸️ Auto trading is paused and resumes automatically after you log in again.`
+          : ""),
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          Markup.button.callback("📱 Send OTP", "send_otp"),
+        ]),
+      },
+    );
+  }
+
+  async sendTradeExecuted(
+    trade: UserTradeHistory,
+    decision?: AiDecision,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
 
     const emoji = trade.action === "BUY" ? "🟢" : "🔴";
-    const message = `${emoji} *Trade Executed*
+    let message = `${trade.isPaper ? "📝 " : ""}${emoji} *${trade.isPaper ? "Paper " : ""}Trade Executed*
 
 *Action:* ${trade.action}
-*Volume:* ${trade.volume}g
-*Price:* ${trade.price} Toman
-*Total:* ${Number(trade.totalValue).toLocaleString()} Toman
-*Confidence:* ${trade.aiConfidence}%
+*Volume:* ${Number(trade.silverAmount).toFixed(4)}g
+*Price:* ${trade.pricePerGram} Toman
+*Total:* ${Math.round(Number(trade.totalToman)).toLocaleString()} Toman
+*Fee:* ${Math.round(Number(trade.feeAmount)).toLocaleString()} Toman
+*Source:* ${trade.source}`;
+
+    if (decision) {
+      message += `\n*Confidence:* ${decision.confidence.toFixed(1)}%`;
+    }
+
+    if (trade.isPaper) {
+      message += `
+
+💼 *Paper Wallet:*
+├── Toman: ${Math.round(Number(trade.tomanBalanceAfter)).toLocaleString()}
+└── Silver: ${Number(trade.silverBalanceAfter).toFixed(2)}g`;
+    }
+
+    if (decision) {
+      message += `
 
 📝 *Reasoning:*
-${decision.reasoning}
+${decision.reasoning}`;
+      if (decision.expectedOutcome) {
+        message += `
 
 🔮 *Expected:*
 ${decision.expectedOutcome}`;
+      }
+    }
+
+    await this.bot.telegram.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+    });
+  }
+
+  async sendPriceAlert(
+    alert: PriceAlert,
+    value: number,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
+
+    const current =
+      alert.metric === AlertMetric.PRICE
+        ? value.toLocaleString()
+        : `${value.toFixed(2)}%`;
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `🔔 *Price Alert*\n\n${this.formatPriceAlert(alert)}\n\n*Now:* ${current}` +
+        (alert.recurring ? "" : "\n\n_This one-shot alert is now off._"),
+      { parse_mode: "Markdown" },
+    );
+  }
+
+  async sendLimitOrderFilled(
+    order: LimitOrder,
+    trade: UserTradeHistory,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
+
+    const emoji = trade.action === "BUY" ? "🟢" : "🔴";
+    let message = `${trade.isPaper ? "📝 " : ""}${emoji} *${trade.isPaper ? "Paper " : ""}Limit Order Filled*
+
+*Action:* ${trade.action}
+*Volume:* ${Number(trade.silverAmount).toFixed(4)}g
+*Target:* ${(Number(order.targetPrice) * 1000).toLocaleString()} Toman/gram
+*Price:* ${trade.pricePerGram} Toman
+*Total:* ${Math.round(Number(trade.totalToman)).toLocaleString()} Toman`;
+
+    if (trade.isPaper) {
+      message += `
+
+💼 *Paper Wallet:*
+├── Toman: ${Math.round(Number(trade.tomanBalanceAfter)).toLocaleString()}
+└── Silver: ${Number(trade.silverBalanceAfter).toFixed(2)}g`;
+    }
+
+    await this.bot.telegram.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+    });
+  }
+
+  async sendLimitOrderClosed(
+    order: LimitOrder,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
+
+    const title =
+      order.status === LimitOrderStatus.EXPIRED
+        ? "⌛ *Limit Order Expired*"
+        : `⚠️ *Limit Order ${order.status === LimitOrderStatus.CANCELLED ? "Cancelled" : "Failed"}*`;
+    const reason = order.notes?.split("\n").pop();
+
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `${title}\n\n${this.formatLimitOrder(order)}` +
+        (reason ? `\n\n${reason}` : ""),
+      { parse_mode: "Markdown" },
+    );
+  }
+
+  private formatLimitOrder(order: LimitOrder): string {
+    const emoji = order.action === "BUY" ? "🟢" : "🔴";
+    const expiry = order.expiresAt
+      ? `expires ${new Date(order.expiresAt).toLocaleString("en-US", {
+          month: "short",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })}`
+      : "until cancelled";
+    return (
+      `${order.isPaper ? "📝 " : ""}${emoji} ${order.action} ${Number(order.silverAmount).toFixed(3)}g ` +
+      `@ ${(Number(order.targetPrice) * 1000).toLocaleString()} Toman/gram\n` +
+      `   ${expiry}`
+    );
+  }
+
+  private readonly ALERT_USAGE =
+    "*Usage:*\n" +
+    "`/alert price below 700` - Noghresea price\n" +
+    "`/alert change above 3` - 24h change %\n" +
+    "`/alert premium above 40` - premium to international %\n" +
+    "`/alert usdt 2 [minutes]` - USDT/Toman moves more than 2% (default 60 min)\n\n" +
+    "Add `repeat` to keep the alert after it fires. `/alerts` lists them, `/alert clear` deletes all.";
+
+  private readonly ALERT_METRICS: Record<string, AlertMetric> = {
+    price: AlertMetric.PRICE,
+    change: AlertMetric.CHANGE_24H,
+    premium: AlertMetric.PREMIUM,
+    usdt: AlertMetric.USDT_MOVE,
+  };
+
+  /**
+   * Parse "/alert" arguments; null when the syntax is wrong
+   */
+  private parseAlertArgs(args: string[]): PriceAlertInput | null {
+    const recurring = args.includes("repeat");
+    const [metricArg, ...rest] = args.filter((a) => a !== "repeat");
+    const metric = this.ALERT_METRICS[(metricArg ?? "").toLowerCase()];
+    if (!metric) return null;
+
+    if (metric === AlertMetric.USDT_MOVE) {
+      const threshold = parseFloat(rest[0]);
+      const window = rest[1] ? parseInt(rest[1]) : undefined;
+      if (isNaN(threshold) || (window !== undefined && !(window > 0))) {
+        return null;
+      }
+      return {
+        metric,
+        direction: "above",
+        threshold,
+        windowMinutes: window,
+        recurring,
+      };
+    }
+
+    const [directionArg, valueArg] = rest;
+    const direction = ["above", ">"].includes(directionArg)
+      ? "above"
+      : ["below", "<"].includes(directionArg)
+        ? "below"
+        : null;
+    const threshold = parseFloat((valueArg ?? "").replace(/[,%]/g, ""));
+    if (!direction || isNaN(threshold)) return null;
+
+    return { metric, direction, threshold, recurring };
+  }
+
+  private formatPriceAlert(alert: PriceAlert): string {
+    const threshold = Number(alert.threshold);
+    const condition =
+      alert.metric === AlertMetric.PRICE
+        ? `Price ${alert.direction} ${threshold.toLocaleString()}`
+        : alert.metric === AlertMetric.CHANGE_24H
+          ? `24h change ${alert.direction} ${threshold}%`
+          : alert.metric === AlertMetric.PREMIUM
+            ? `Premium ${alert.direction} ${threshold}%`
+            : `USDT/Toman moves more than ${threshold}% in ${alert.windowMinutes} min`;
+    return `${condition} (${alert.recurring ? "🔁 recurring" : "one-shot"})`;
+  }
+
+  private readonly DCA_USAGE =
+    "*Usage:* `/dca add <toman> <daily|sat..fri> <HH:MM> [N/H] [avgD] [max=P]`\n\n" +
+    "• `N/H` - split into N tranches over H hours\n" +
+    "• `avgD` - skip when the price is above the D-day average\n" +
+    "• `max=P` - skip when the price is above P\n\n" +
+    "Examples:\n" +
+    "`/dca add 2000000 sat 10:00`\n" +
+    "`/dca add 1000000 daily 09:00 4/12 avg7`";
+
+  private readonly DCA_DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+  /**
+   * Parse "/dca add" arguments; null when the syntax is wrong
+   */
+  private parseDcaArgs(args: string[]): DcaPlanInput | null {
+    const [amountArg, whenArg, timeArg, ...options] = args;
+    const amountToman = parseFloat((amountArg ?? "").replace(/,/g, ""));
+    const when = (whenArg ?? "").toLowerCase();
+    if (isNaN(amountToman) || amountToman <= 0 || !timeArg) return null;
+
+    const dayOfWeek = this.DCA_DAYS.indexOf(when.slice(0, 3));
+    if (when !== "daily" && dayOfWeek < 0) return null;
+
+    const input: DcaPlanInput = {
+      amountToman,
+      frequency: when === "daily" ? "daily" : "weekly",
+      dayOfWeek: when === "daily" ? null : dayOfWeek,
+      timeOfDay: timeArg.padStart(5, "0"),
+    };
+
+    for (const option of options) {
+      const split = option.match(/^(\d+)\/(\d+(?:\.\d+)?)$/);
+      const avg = option.match(/^avg(\d+)$/i);
+      const max = option.match(/^max=(\d+(?:\.\d+)?)$/i);
+      if (split) {
+        input.tranches = parseInt(split[1]);
+        input.spreadMinutes = Math.round(parseFloat(split[2]) * 60);
+      } else if (avg) {
+        input.skipAboveAverageDays = parseInt(avg[1]);
+      } else if (max) {
+        input.maxPrice = parseFloat(max[1]);
+      } else {
+        return null;
+      }
+    }
+
+    return input;
+  }
+
+  private formatDcaPlan(plan: DcaPlan): string {
+    const when =
+      plan.frequency === "daily"
+        ? "Daily"
+        : `Every ${this.DCA_DAYS[plan.dayOfWeek ?? 0]}`;
+    const rules = [
+      plan.skipAboveAverageDays
+        ? `skip above ${plan.skipAboveAverageDays}-day avg`
+        : null,
+      plan.maxPrice != null ? `skip above ${Number(plan.maxPrice)}` : null,
+    ].filter(Boolean);
+    const next = new Date(plan.nextRunAt).toLocaleString("en-US", {
+      timeZone: "Asia/Tehran",
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+    let text = `${plan.enabled ? "🟢" : "⏸️"} ${Number(plan.amountToman).toLocaleString()} Toman - ${when} at ${plan.timeOfDay} (Tehran)`;
+    if (plan.tranches > 1) {
+      text += `\n   ${plan.tranches} tranches over ${plan.spreadMinutes / 60}h`;
+    }
+    if (rules.length > 0) text += `\n   Rules: ${rules.join(", ")}`;
+    if (plan.enabled) text += `\n   Next: ${next}`;
+    if (plan.lastResult) text += `\n   Last: ${plan.lastResult}`;
+    return text;
+  }
+
+  /**
+   * Parse "<grams> <price per gram> [hours]" and ask for confirmation
+   */
+  private async handleLimitOrderInput(
+    ctx: any,
+    tradeState: ManualTradeState,
+    text: string,
+  ) {
+    const [gramsArg, priceArg, hoursArg] = text.replace(/,/g, "").split(/\s+/);
+    const grams = parseFloat(gramsArg);
+    const price = parseFloat(priceArg);
+    const hours = hoursArg === undefined ? 24 : parseFloat(hoursArg);
+
+    if (
+      isNaN(grams) ||
+      grams <= 0 ||
+      isNaN(price) ||
+      price <= 0 ||
+      isNaN(hours) ||
+      hours < 0
+    ) {
+      await ctx.reply(
+        "❌ Invalid input. Send: `<grams> <price per gram> [hours]`",
+        { parse_mode: "Markdown" },
+      );
+      return;
+    }
+
+    const totalValue = Math.floor(grams * price);
+    if (totalValue < 100000) {
+      await ctx.reply("❌ Minimum order value is 100,000 Toman.");
+      return;
+    }
+    if (tradeState.action === "buy" && totalValue > tradeState.maxAmount) {
+      await ctx.reply(
+        `❌ Order value exceeds your balance (${tradeState.maxAmount.toLocaleString()} Toman).`,
+      );
+      return;
+    }
+    if (tradeState.action === "sell" && grams > tradeState.maxAmount) {
+      await ctx.reply(
+        `❌ Amount exceeds your balance (${tradeState.maxAmount.toFixed(3)} grams).`,
+      );
+      return;
+    }
 
-    await this.bot.telegram.sendMessage(this.chatId, message, {
+    tradeState.awaitingLimit = false;
+    tradeState.pendingLimit = { grams, price, hours };
+
+    const label = tradeState.action === "buy" ? "Buy" : "Sell";
+    await ctx.reply(
+      `⚠️ *Confirm Limit ${label}*\n\n` +
+        `Amount: ${grams.toFixed(3)} grams\n` +
+        `Target Price: ${price.toLocaleString()} Toman/gram\n` +
+        `Value: ~${totalValue.toLocaleString()} Toman\n` +
+        `Expiry: ${hours > 0 ? `${hours} hour(s)` : "until cancelled"}\n\n` +
+        `Are you sure?`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [
+            Markup.button.callback(`✅ Place Limit ${label}`, "confirm_limit"),
+            Markup.button.callback("❌ Cancel", "trade_cancel"),
+          ],
+        ]),
+      },
+    );
+  }
+
+  async sendProtectionTriggered(
+    trigger: ProtectionTrigger,
+    autoTradingPaused: boolean,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
+
+    const title = {
+      STOP_LOSS: "🛑 *Stop-Loss Triggered*",
+      TAKE_PROFIT: "🎯 *Take-Profit Triggered*",
+      TRAILING_STOP: "📉 *Trailing Stop Triggered*",
+    }[trigger.reason];
+
+    const message = `${title}
+
+*Entry Price:* ${trigger.entryPrice.toLocaleString()}
+*High:* ${trigger.peakPrice.toLocaleString()}
+*Current:* ${trigger.currentPrice.toLocaleString()}
+*Change:* ${trigger.changePercent >= 0 ? "+" : ""}${trigger.changePercent.toFixed(2)}%
+
+📝 ${trigger.message}
+
+${
+  autoTradingPaused
+    ? "⏸️ Auto trading is paused, so nothing was sold. Sell with 📤 Sell or turn auto trading back on."
+    : "Selling the session position..."
+}`;
+
+    await this.bot.telegram.sendMessage(chatId, message, {
       parse_mode: "Markdown",
     });
   }
 
-  async sendApproachingThreshold(decision: AiDecision) {
-    if (!this.chatId || !this.bot) return;
+  async sendRiskHalt(breach: RiskBreach, chatId: string | null = this.chatId) {
+    if (!chatId || !this.bot) return;
+
+    await this.bot.telegram.sendMessage(
+      chatId,
+      `🚨 *Circuit Breaker - Auto Trading Halted*\n\n` +
+        `${breach.message}\n\n` +
+        `Review your positions, then resume when ready.`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          Markup.button.callback(
+            "▶️ Resume Auto Trading",
+            "resume_auto_trading",
+          ),
+        ]),
+      },
+    );
+  }
+
+  async sendApproachingThreshold(
+    decision: AiDecision,
+    threshold: number,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
 
     const message = `⚠️ *Approaching Trade Threshold*
 
 *Suggested Action:* ${decision.action}
-*Confidence:* ${decision.confidence.toFixed(1)}% (threshold: 70%)
+*Confidence:* ${decision.confidence.toFixed(1)}% (threshold: ${threshold}%)
 
 📝 *Reasoning:*
 ${decision.reasoning}
 
-_Trade will execute if confidence reaches 70%_`;
+_Trade will execute if confidence reaches ${threshold}%_`;
 
-    await this.bot.telegram.sendMessage(this.chatId, message, {
+    await this.bot.telegram.sendMessage(chatId, message, {
       parse_mode: "Markdown",
     });
   }
 
-  async sendTradeError(decision: AiDecision, error: string) {
-    if (!this.chatId || !this.bot) return;
+  async sendTradeError(
+    action: "BUY" | "SELL",
+    error: string,
+    details: { silverAmount?: number; orderId?: string } = {},
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
 
-    await this.bot.telegram.sendMessage(
-      this.chatId,
-      `❌ *Trade Failed*\n\nAction: ${decision.action}\nError: ${error}`,
-      { parse_mode: "Markdown" },
-    );
+    let message = `❌ *Trade Failed*\n\nAction: ${action}`;
+    if (details.silverAmount != null) {
+      message += `\nVolume: ${details.silverAmount.toFixed(4)}g`;
+    }
+    if (details.orderId) {
+      message += `\nOrder: ${details.orderId}`;
+    }
+    message += `\nError: ${error}`;
+
+    await this.bot.telegram.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+    });
   }
 
-  async sendPatternAlert(analysis: PatternAnalysis, prices: AllPrices) {
-    if (!this.chatId || !this.bot) return;
+  async sendPatternAlert(
+    analysis: PatternAnalysis,
+    prices: AllPrices,
+    chatId: string | null = this.chatId,
+  ) {
+    if (!chatId || !this.bot) return;
 
     const patterns = analysis.patterns
       .map((p) => `• *${p.type}*: ${p.description}`)
@@ -1547,16 +2884,16 @@ ${patterns}
 *Suggestion:* ${analysis.suggestion}
 *Price:* ${prices.noghresea?.price || "N/A"} Toman`;
 
-    await this.bot.telegram.sendMessage(this.chatId, message, {
+    await this.bot.telegram.sendMessage(chatId, message, {
       parse_mode: "Markdown",
     });
   }
 
-  async sendMessage(message: string) {
-    if (!this.chatId || !this.bot) return;
+  async sendMessage(message: string, chatId: string | null = this.chatId) {
+    if (!chatId || !this.bot) return;
 
     try {
-      await this.bot.telegram.sendMessage(this.chatId, message, {
+      await this.bot.telegram.sendMessage(chatId, message, {
         parse_mode: "Markdown",
       });
     } catch (error: any) {
@@ -1564,8 +2901,8 @@ ${patterns}
     }
   }
 
-  async sendDailySummary(summary: any) {
-    if (!this.chatId || !this.bot) return;
+  async sendDailySummary(summary: any, chatId: string | null = this.chatId) {
+    if (!chatId || !this.bot) return;
 
     try {
       const message = `📊 *Daily Summary - ${summary.date}*\n\n${summary.notes}`;
@@ -1574,12 +2911,12 @@ ${patterns}
       if (message.length > 4000) {
         const chunks = this.splitMessage(message, 4000);
         for (const chunk of chunks) {
-          await this.bot.telegram.sendMessage(this.chatId, chunk, {
+          await this.bot.telegram.sendMessage(chatId, chunk, {
             parse_mode: "Markdown",
           });
         }
       } else {
-        await this.bot.telegram.sendMessage(this.chatId, message, {
+        await this.bot.telegram.sendMessage(chatId, message, {
           parse_mode: "Markdown",
         });
       }
@@ -1596,15 +2933,12 @@ ${patterns}
       return;
     }
 
-    // Set active chat ID for API calls
-    this.noghreseaApi.setActiveChatId(chatId);
-
     try {
       await ctx.reply("💰 Checking your balance...");
 
       const [priceData, inventory] = await Promise.all([
         this.noghreseaApi.getSilverPrice(),
-        this.noghreseaApi.getInventory(),
+        this.noghreseaApi.getInventory(chatId),
       ]);
 
       if (!priceData || !priceData.price) {
@@ -1630,7 +2964,6 @@ ${patterns}
       // Calculate max grams (Toman / pricePerGram)
       const maxGrams = Math.floor((tomanBalance / pricePerGram) * 1000) / 1000;
 
-      const chatId = ctx.chat.id.toString();
       this.manualTradeState.set(chatId, {
         action: "buy",
         awaitingAmount: false,
@@ -1654,6 +2987,7 @@ ${patterns}
               ),
             ],
             [Markup.button.callback("Enter Custom Amount", "buy_custom")],
+            [Markup.button.callback("🎯 Limit Order", "buy_limit")],
             [Markup.button.callback("Cancel", "trade_cancel")],
           ]),
         },
@@ -1672,15 +3006,12 @@ ${patterns}
       return;
     }
 
-    // Set active chat ID for API calls
-    this.noghreseaApi.setActiveChatId(chatId);
-
     try {
       await ctx.reply("📤 Checking your silver balance...");
 
       const [priceData, inventory] = await Promise.all([
         this.noghreseaApi.getSilverPrice(),
-        this.noghreseaApi.getInventory(),
+        this.noghreseaApi.getInventory(chatId),
       ]);
 
       if (!priceData || !priceData.price) {
@@ -1717,7 +3048,6 @@ ${patterns}
 
       const totalValue = Math.floor(silverBalance * pricePerGram);
 
-      const chatId = ctx.chat.id.toString();
       this.manualTradeState.set(chatId, {
         action: "sell",
         awaitingAmount: false,
@@ -1742,6 +3072,7 @@ ${patterns}
               ),
             ],
             [Markup.button.callback("Enter Custom Amount", "sell_custom")],
+            [Markup.button.callback("🎯 Limit Order", "sell_limit")],
             [Markup.button.callback("Cancel", "trade_cancel")],
           ]),
         },
@@ -1759,11 +3090,6 @@ ${patterns}
     const chatId = ctx.chat?.id?.toString();
     if (!chatId) return;
 
-    if (!this.userTradingService) {
-      await ctx.reply("❌ Trade settings service not available.");
-      return;
-    }
-
     const settings = await this.userTradingService.getOrCreateSettings(chatId);
     const interval = this.configService.get("POLLING_INTERVAL_MS", "10000");
 
@@ -1773,18 +3099,40 @@ ${patterns}
         : `${settings.fixedSilverGrams?.toFixed(2) || "N/A"} grams fixed`;
 
     const autoText = settings.autoTradingEnabled ? "✅ ON" : "❌ OFF";
-    const tradingText = this.tradeExecutor?.isTradingEnabled()
+    const tradingText = this.tradeExecutor.isTradingEnabled()
       ? "✅ Running"
       : "⏸️ Paused";
 
+    const pct = (value: number | null) =>
+      value != null ? `${Number(value)}%` : "Off";
+
+    const strategy = this.strategyRegistry.get(settings.strategy);
+    const strategyText = strategy
+      ? `${strategy.label} - ${strategy.description}`
+      : settings.strategy;
+
+    let paperText = "❌ OFF (live orders)";
+    if (settings.paperTradingEnabled) {
+      const paperWallet = this.paperTrading.getWalletState(settings);
+      paperText =
+        `✅ ON\n` +
+        `   💵 ${Math.round(paperWallet.tomanBalance).toLocaleString()} T | ` +
+        `🪙 ${paperWallet.silverBalance.toFixed(2)}g`;
+    }
+
     const message =
       `⚙️ *Trade Settings*\n\n` +
       `📊 *Trade Amount:* ${modeText}\n` +
       `🎯 *Min Confidence:* ${Number(settings.minConfidence)}%\n` +
       `🤖 *Auto Trading:* ${autoText}\n` +
+      `🧠 *Strategy:* ${strategyText}\n` +
+      `📝 *Paper Trading:* ${paperText}\n` +
       `🔄 *Bot Status:* ${tradingText}\n` +
       `⏱️ *Check Interval:* ${parseInt(interval) / 1000}s\n` +
-      `🛡️ *Max Loss:* ${Number(settings.maxLossPercent)}%`;
+      `🛡️ *Max Loss:* ${Number(settings.maxLossPercent)}%\n` +
+      `🛑 *Stop-Loss:* ${pct(settings.stopLossPercent)} | ` +
+      `🎯 *Take-Profit:* ${pct(settings.takeProfitPercent)} | ` +
+      `📉 *Trailing:* ${pct(settings.trailingStopPercent)}`;
 
     // Edit message if it's a callback, otherwise send new
     const replyMethod = ctx.callbackQuery
@@ -1851,6 +3199,28 @@ ${patterns}
             settings.autoTradingEnabled ? "toggle_auto_off" : "toggle_auto_on",
           ),
         ],
+        // Strategy selection
+        this.strategyRegistry.list().map((s) =>
+          Markup.button.callback(
+            s.name === strategy?.name ? `✓ ${s.label}` : s.label,
+            `set_strategy_${s.name}`,
+          ),
+        ),
+        // Paper trading toggle
+        settings.paperTradingEnabled
+          ? [
+              Markup.button.callback("📝 Disable Paper", "toggle_paper_off"),
+              Markup.button.callback("🔄 Reset Paper", "reset_paper_wallet"),
+            ]
+          : [Markup.button.callback("📝 Enable Paper", "toggle_paper_on")],
+        // Exit protection and risk limits
+        [
+          Markup.button.callback(
+            "🛡️ Stop-Loss / Take-Profit",
+            "view_protection",
+          ),
+        ],
+        [Markup.button.callback("🚨 Risk Limits", "view_risk_limits")],
         // History and session
         [
           Markup.button.callback("📜 Trade History", "view_trade_history"),
@@ -1860,6 +3230,128 @@ ${patterns}
     });
   }
 
+  /**
+   * Show circuit breaker limits
+   */
+  private async showRiskLimits(ctx: any) {
+    const chatId = ctx.chat?.id.toString();
+    if (!chatId) return;
+
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+
+    // One row per limit, 0 = off
+    const row = (
+      prefix: string,
+      label: string,
+      current: number | null,
+      options: { value: number; text: string }[],
+    ) => [
+      Markup.button.callback(label, "noop"),
+      ...options.map(({ value, text }) => {
+        const selected =
+          value === 0 ? current == null : Number(current) === value;
+        return Markup.button.callback(
+          selected ? `✓ ${text}` : text,
+          `${prefix}_${value}`,
+        );
+      }),
+    ];
+
+    const off = { value: 0, text: "Off" };
+    const lossText =
+      settings.dailyLossLimitToman != null
+        ? `${Number(settings.dailyLossLimitToman).toLocaleString()} T`
+        : "Off";
+
+    await ctx.editMessageText(
+      `🚨 *Risk Limits*\n\n` +
+        `Auto trading is switched off when any limit is hit.\n\n` +
+        `💸 *Daily Loss:* ${lossText}\n` +
+        `📉 *Losing Streak:* ${settings.maxConsecutiveLosses ?? "Off"}\n` +
+        `⏱️ *Trades/Hour:* ${settings.maxTradesPerHour ?? "Off"}`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          row("set_risk_loss", "💸 Loss", settings.dailyLossLimitToman, [
+            off,
+            { value: 500000, text: "500K" },
+            { value: 1000000, text: "1M" },
+            { value: 5000000, text: "5M" },
+          ]),
+          row("set_risk_streak", "📉 Streak", settings.maxConsecutiveLosses, [
+            off,
+            { value: 2, text: "2" },
+            { value: 3, text: "3" },
+            { value: 5, text: "5" },
+          ]),
+          row("set_risk_rate", "⏱️ /Hour", settings.maxTradesPerHour, [
+            off,
+            { value: 2, text: "2" },
+            { value: 4, text: "4" },
+            { value: 6, text: "6" },
+          ]),
+          [Markup.button.callback("⬅️ Back", "back_to_settings")],
+        ]),
+      },
+    );
+  }
+
+  /**
+   * Show stop-loss / take-profit / trailing-stop options
+   */
+  private async showProtectionSettings(ctx: any) {
+    const chatId = ctx.chat?.id.toString();
+    if (!chatId) return;
+
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+
+    // One row per protection type, 0 = off
+    const row = (
+      prefix: string,
+      label: string,
+      current: number | null,
+      options: number[],
+    ) => [
+      Markup.button.callback(label, "noop"),
+      ...options.map((value) => {
+        const selected =
+          value === 0 ? current == null : Number(current) === value;
+        const text = value === 0 ? "Off" : `${value}%`;
+        return Markup.button.callback(
+          selected ? `✓ ${text}` : text,
+          `${prefix}_${value}`,
+        );
+      }),
+    ];
+
+    const entry = settings.sessionEntryPrice
+      ? `${Number(settings.sessionEntryPrice).toLocaleString()}`
+      : "N/A";
+
+    await ctx.editMessageText(
+      `🛡️ *Exit Protection*\n\n` +
+        `Checked every cycle while holding silver, against the session entry price.\n\n` +
+        `📍 *Entry Price:* ${entry}\n` +
+        `🛑 *Stop-Loss:* sell if price drops this much below entry\n` +
+        `🎯 *Take-Profit:* sell if price rises this much above entry\n` +
+        `📉 *Trailing:* sell if price falls this much from its high`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          row("set_sl", "🛑 SL", settings.stopLossPercent, [0, 2, 3, 5]),
+          row("set_tp", "🎯 TP", settings.takeProfitPercent, [0, 3, 5, 10]),
+          row(
+            "set_trail",
+            "📉 Trail",
+            settings.trailingStopPercent,
+            [0, 1, 2, 3],
+          ),
+          [Markup.button.callback("⬅️ Back", "back_to_settings")],
+        ]),
+      },
+    );
+  }
+
   /**
    * Show comprehensive AI trade analyzer with period selection
    */
@@ -1867,11 +3359,6 @@ ${patterns}
     ctx: any,
     period: "week" | "month" | "quarter" | "year",
   ) {
-    if (!this.userTradingService) {
-      await ctx.reply("❌ AI analyzer service not available.");
-      return;
-    }
-
     const loading = ctx.callbackQuery
       ? null
       : await ctx.reply("🔄 Analyzing AI trades...");
@@ -2021,6 +3508,10 @@ ${patterns}
             ),
             Markup.button.callback("🏆 All-Time Stats", "ai_all_time"),
           ],
+          [
+            Markup.button.callback("📈 AI Trades Chart (1d)", "ai_chart_1d"),
+            Markup.button.callback("📈 (1w)", "ai_chart_1w"),
+          ],
         ]),
       });
 
@@ -0,0 +1,158 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { EventBus } from "../events/event-bus.service";
+import { TelegramBotService } from "./telegram-bot.service";
+
+/**
+ * Telegram Notifier - Turns domain events into Telegram messages
+ * Owns notification throttling so producers can emit every cycle
+ */
+@Injectable()
+export class TelegramNotifierService implements OnModuleInit {
+  private lastPatternAlert = new Map<string, number>(); // Per chat
+  private lastStatusSent = new Map<string, number>(); // Per chat
+  private lastProtectionAlert = new Map<string, number>(); // Per chat
+
+  private readonly PATTERN_ALERT_INTERVAL_MS = 60 * 1000; // At most every minute
+  private readonly STATUS_INTERVAL_MS = 5 * 60 * 1000; // Every 5 minutes
+  private readonly PROTECTION_ALERT_INTERVAL_MS = 5 * 60 * 1000; // A failed exit re-triggers every cycle
+
+  constructor(
+    private eventBus: EventBus,
+    private telegramBot: TelegramBotService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("AuthExpired", ({ chatId }) =>
+      this.telegramBot.sendAuthRequired(chatId ?? undefined),
+    );
+
+    this.eventBus.on("AuthExpiring", ({ chatId, expiresAt }) =>
+      this.telegramBot.sendAuthExpiring(expiresAt, chatId),
+    );
+
+    this.eventBus.on("AuthLapsed", ({ chatId, autoTradingPaused }) =>
+      this.telegramBot.sendAuthLapsed(autoTradingPaused, chatId),
+    );
+
+    this.eventBus.on(
+      "PatternDetected",
+      async ({ chatId, analysis, prices }) => {
+        if (
+          !this.due(
+            this.lastPatternAlert,
+            chatId,
+            this.PATTERN_ALERT_INTERVAL_MS,
+          )
+        ) {
+          return;
+        }
+        await this.telegramBot.sendPatternAlert(analysis, prices, chatId);
+      },
+    );
+
+    this.eventBus.on(
+      "DecisionNearThreshold",
+      ({ chatId, decision, threshold }) =>
+        this.telegramBot.sendApproachingThreshold(
+          decision,
+          threshold,
+          chatId ?? undefined,
+        ),
+    );
+
+    this.eventBus.on("TradeExecuted", ({ chatId, trade, decision }) =>
+      this.telegramBot.sendTradeExecuted(trade, decision, chatId),
+    );
+
+    this.eventBus.on(
+      "TradeFailed",
+      ({ chatId, action, reason, silverAmount, orderId }) =>
+        this.telegramBot.sendTradeError(
+          action,
+          reason,
+          { silverAmount, orderId },
+          chatId ?? undefined,
+        ),
+    );
+
+    this.eventBus.on("OrderAlert", ({ chatId, message }) =>
+      this.telegramBot.sendMessage(message, chatId),
+    );
+
+    this.eventBus.on("LimitOrderFilled", ({ chatId, order, trade }) =>
+      this.telegramBot.sendLimitOrderFilled(order, trade, chatId),
+    );
+
+    this.eventBus.on("LimitOrderClosed", ({ chatId, order }) =>
+      this.telegramBot.sendLimitOrderClosed(order, chatId),
+    );
+
+    this.eventBus.on("DcaSkipped", ({ chatId, reason }) =>
+      this.telegramBot.sendMessage(`🗓️ *DCA Skipped*\n\n${reason}`, chatId),
+    );
+
+    this.eventBus.on("PriceAlertTriggered", ({ chatId, alert, value }) =>
+      this.telegramBot.sendPriceAlert(alert, value, chatId),
+    );
+
+    this.eventBus.on(
+      "ProtectionTriggered",
+      async ({ chatId, trigger, autoTradingPaused }) => {
+        if (
+          !this.due(
+            this.lastProtectionAlert,
+            chatId,
+            this.PROTECTION_ALERT_INTERVAL_MS,
+          )
+        ) {
+          return;
+        }
+        await this.telegramBot.sendProtectionTriggered(
+          trigger,
+          autoTradingPaused,
+          chatId,
+        );
+      },
+    );
+
+    this.eventBus.on("RiskLimitBreached", ({ chatId, breach }) =>
+      this.telegramBot.sendRiskHalt(breach, chatId),
+    );
+
+    this.eventBus.on("CycleCompleted", async (event) => {
+      if (
+        !this.due(this.lastStatusSent, event.chatId, this.STATUS_INTERVAL_MS)
+      ) {
+        return;
+      }
+      await this.telegramBot.sendFullStatus(
+        event.prices,
+        event.analysis,
+        event.wallet,
+        event.tradingEnabled,
+        event.paperMode,
+        event.chatId,
+      );
+    });
+
+    this.eventBus.on("DailySummaryGenerated", ({ summary }) =>
+      this.telegramBot.sendMessage(
+        `📊 *End of Day Summary - ${summary.date}*\n\n${summary.notes}`,
+      ),
+    );
+  }
+
+  /**
+   * True (and records the send) when the chat's last message is older than intervalMs
+   */
+  private due(
+    lastSent: Map<string, number>,
+    chatId: string,
+    intervalMs: number,
+  ): boolean {
+    const now = Date.now();
+    if (now - (lastSent.get(chatId) ?? 0) <= intervalMs) return false;
+    lastSent.set(chatId, now);
+    return true;
+  }
+}
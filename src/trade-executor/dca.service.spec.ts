@@ -0,0 +1,136 @@
+import { Logger } from "@nestjs/common";
+import { Repository } from "typeorm";
+import { DcaService, tomanToGrams } from "./dca.service";
+import { DcaPlan } from "../database/entities/dca-plan.entity";
+import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
+import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
+import { TradeExecutorService } from "./trade-executor.service";
+import { UserTradingService } from "./user-trading.service";
+import { PaperTradingService } from "./paper-trading.service";
+import { CandleService } from "../candles/candle.service";
+import { EventBus } from "../events/event-bus.service";
+
+function makePlan(overrides: Partial<DcaPlan> = {}): DcaPlan {
+  return Object.assign(new DcaPlan(), {
+    id: "0f6c2a9e-0000-0000-0000-000000000000",
+    telegramChatId: "chat-a",
+    amountToman: 2_000_000,
+    frequency: "daily",
+    dayOfWeek: null,
+    timeOfDay: "09:30",
+    tranches: 1,
+    spreadMinutes: 0,
+    skipAboveAverageDays: null,
+    maxPrice: null,
+    enabled: true,
+    trancheIndex: 0,
+    nextRunAt: new Date(0),
+    ...overrides,
+  });
+}
+
+describe("tomanToGrams", () => {
+  it("prices the API quote in thousands of Toman", () => {
+    // 2,000,000 Toman at 800 (= 800,000 Toman/gram) is 2.5 g, not 2,500 g
+    expect(tomanToGrams(2_000_000, 800)).toBe(2.5);
+  });
+
+  it("rounds down to a whole milligram", () => {
+    expect(tomanToGrams(1_000_000, 812.345)).toBe(1.231);
+  });
+});
+
+describe("DcaService", () => {
+  let createBuyOrder: jest.Mock;
+  let service: DcaService;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  function build(plans: DcaPlan[]) {
+    createBuyOrder = jest.fn().mockResolvedValue({ orderId: "order-1" });
+    service = new DcaService(
+      {
+        find: jest.fn().mockResolvedValue(plans),
+        save: jest.fn(async (plan: DcaPlan) => plan),
+      } as unknown as Repository<DcaPlan>,
+      {
+        getSilverPrice: jest.fn().mockResolvedValue({ price: "800" }),
+        createBuyOrder,
+      } as unknown as NoghreseaApiService,
+      {
+        isAuthenticated: () => true,
+        getPhoneNumber: () => "09120000000",
+      } as unknown as NoghreseaAuthService,
+      { isTradingEnabled: () => true } as unknown as TradeExecutorService,
+      {
+        getOrCreateSettings: jest
+          .fn()
+          .mockResolvedValue({ paperTradingEnabled: false }),
+        recordTrade: jest.fn().mockResolvedValue({}),
+      } as unknown as UserTradingService,
+      {} as PaperTradingService,
+      {} as CandleService,
+      { emit: jest.fn() } as unknown as EventBus,
+    );
+  }
+
+  describe("runDuePlans", () => {
+    it("orders a tranche's worth of silver in milligrams", async () => {
+      const plan = makePlan({ tranches: 2, amountToman: 4_000_000 });
+      build([plan]);
+
+      await service.runDuePlans();
+
+      // 2,000,000 Toman per tranche at 800,000 Toman/gram
+      expect(createBuyOrder).toHaveBeenCalledWith("chat-a", 800, 2500);
+      expect(plan.trancheIndex).toBe(1);
+    });
+  });
+
+  describe("nextPeriodStart", () => {
+    beforeEach(() => build([]));
+
+    it("schedules a daily plan later the same Tehran day", () => {
+      // 05:00 UTC is 08:30 in Tehran, before 09:30
+      const next = service.nextPeriodStart(
+        makePlan(),
+        new Date("2026-03-10T05:00:00Z"),
+      );
+      expect(next.toISOString()).toBe("2026-03-10T06:00:00.000Z");
+    });
+
+    it("moves a daily plan to tomorrow once the time has passed", () => {
+      const next = service.nextPeriodStart(
+        makePlan(),
+        new Date("2026-03-10T06:00:00Z"),
+      );
+      expect(next.toISOString()).toBe("2026-03-11T06:00:00.000Z");
+    });
+
+    it("uses the Tehran date just after local midnight", () => {
+      // 21:00 UTC on the 10th is 00:30 on the 11th in Tehran
+      const next = service.nextPeriodStart(
+        makePlan({ timeOfDay: "00:45" }),
+        new Date("2026-03-10T21:00:00Z"),
+      );
+      expect(next.toISOString()).toBe("2026-03-10T21:15:00.000Z");
+    });
+
+    it("schedules a weekly plan on its day of the week", () => {
+      // 2026-03-10 is a Tuesday; the plan runs on Fridays
+      const next = service.nextPeriodStart(
+        makePlan({ frequency: "weekly", dayOfWeek: 5 }),
+        new Date("2026-03-10T05:00:00Z"),
+      );
+      expect(next.toISOString()).toBe("2026-03-13T06:00:00.000Z");
+    });
+
+    it("skips a full week when the slot this week has passed", () => {
+      const next = service.nextPeriodStart(
+        makePlan({ frequency: "weekly", dayOfWeek: 2 }),
+        new Date("2026-03-10T07:00:00Z"),
+      );
+      expect(next.toISOString()).toBe("2026-03-17T06:00:00.000Z");
+    });
+  });
+});
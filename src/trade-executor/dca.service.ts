@@ -0,0 +1,393 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, LessThanOrEqual } from "typeorm";
+import { DcaPlan } from "../database/entities/dca-plan.entity";
+import {
+  CandleTimeframe,
+  NOGHRESEA_CANDLE_SOURCE,
+} from "../database/entities/price-candle.entity";
+import {
+  TradeSource,
+  TradeStatus,
+  UserTradeHistory,
+} from "../database/entities/user-trade-history.entity";
+import { NoghreseaApiService } from "../noghresea/noghresea-api.service";
+import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
+import { TradeExecutorService } from "./trade-executor.service";
+import { UserTradingService } from "./user-trading.service";
+import { PaperTradingService } from "./paper-trading.service";
+import { EventBus } from "../events/event-bus.service";
+import { CandleService } from "../candles/candle.service";
+import { timeWeightedAverage } from "../indicators/indicators";
+import { TEHRAN_UTC_OFFSET_MINUTES } from "../common/constants";
+
+export interface DcaPlanInput {
+  amountToman: number;
+  frequency: "daily" | "weekly";
+  dayOfWeek?: number | null; // Required for weekly plans
+  timeOfDay: string; // "HH:MM" Tehran
+  tranches?: number;
+  spreadMinutes?: number;
+  skipAboveAverageDays?: number | null;
+  maxPrice?: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Grams a Toman amount buys at an API price, rounded down to a milligram.
+ * The API price is in thousands: real price = apiPrice * 1000.
+ */
+export function tomanToGrams(toman: number, apiPrice: number): number {
+  const pricePerGram = apiPrice * 1000;
+  return Math.floor((toman / pricePerGram) * 1000) / 1000;
+}
+
+/**
+ * DCA - Recurring buy plans per chat
+ * Each due tranche is checked against the plan's skip rules, then bought
+ * through the same order path as manual trades (paper wallet in paper mode)
+ */
+@Injectable()
+export class DcaService {
+  private readonly logger = new Logger(DcaService.name);
+  private isRunning = false;
+
+  readonly MIN_TRANCHE_TOMAN = 100000; // Platform minimum order value
+  readonly MAX_PLANS_PER_CHAT = 10;
+
+  constructor(
+    @InjectRepository(DcaPlan)
+    private planRepo: Repository<DcaPlan>,
+    private noghreseaApi: NoghreseaApiService,
+    private authService: NoghreseaAuthService,
+    private tradeExecutor: TradeExecutorService,
+    private userTradingService: UserTradingService,
+    private paperTrading: PaperTradingService,
+    private candleService: CandleService,
+    private eventBus: EventBus,
+  ) {}
+
+  async createPlan(chatId: string, input: DcaPlanInput): Promise<DcaPlan> {
+    const tranches = input.tranches ?? 1;
+    const spreadMinutes = input.spreadMinutes ?? 0;
+
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(input.timeOfDay)) {
+      throw new Error("Time must be HH:MM (Tehran time)");
+    }
+    if (
+      input.frequency === "weekly" &&
+      !(input.dayOfWeek != null && input.dayOfWeek >= 0 && input.dayOfWeek <= 6)
+    ) {
+      throw new Error("Weekly plans need a day of the week");
+    }
+    if (!Number.isInteger(tranches) || tranches < 1 || tranches > 48) {
+      throw new Error("Tranches must be between 1 and 48");
+    }
+    const periodMinutes = input.frequency === "weekly" ? 7 * 24 * 60 : 24 * 60;
+    if (spreadMinutes < 0 || spreadMinutes >= periodMinutes) {
+      throw new Error("Spread must be shorter than the plan period");
+    }
+    if (input.amountToman / tranches < this.MIN_TRANCHE_TOMAN) {
+      throw new Error(
+        `Each tranche must be at least ${this.MIN_TRANCHE_TOMAN.toLocaleString()} Toman`,
+      );
+    }
+
+    const count = await this.planRepo.count({
+      where: { telegramChatId: chatId },
+    });
+    if (count >= this.MAX_PLANS_PER_CHAT) {
+      throw new Error(`At most ${this.MAX_PLANS_PER_CHAT} plans per chat`);
+    }
+
+    const plan = this.planRepo.create({
+      telegramChatId: chatId,
+      amountToman: input.amountToman,
+      frequency: input.frequency,
+      dayOfWeek: input.frequency === "weekly" ? input.dayOfWeek! : null,
+      timeOfDay: input.timeOfDay,
+      tranches,
+      spreadMinutes: tranches > 1 ? spreadMinutes : 0,
+      skipAboveAverageDays: input.skipAboveAverageDays ?? null,
+      maxPrice: input.maxPrice ?? null,
+      enabled: true,
+      trancheIndex: 0,
+    });
+    plan.nextRunAt = this.nextPeriodStart(plan, new Date());
+
+    const saved = await this.planRepo.save(plan);
+    this.logger.log(
+      `🗓️ DCA plan created for ${chatId}: ${input.amountToman} Toman ${input.frequency} @ ${input.timeOfDay}`,
+    );
+    return saved;
+  }
+
+  async getPlans(chatId: string): Promise<DcaPlan[]> {
+    return this.planRepo.find({
+      where: { telegramChatId: chatId },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  /**
+   * Pause or resume a plan. Resuming restarts at the next period.
+   */
+  async setEnabled(
+    chatId: string,
+    id: string,
+    enabled: boolean,
+  ): Promise<DcaPlan | null> {
+    const plan = await this.planRepo.findOne({
+      where: { id, telegramChatId: chatId },
+    });
+    if (!plan) return null;
+
+    plan.enabled = enabled;
+    if (enabled) {
+      plan.trancheIndex = 0;
+      plan.nextRunAt = this.nextPeriodStart(plan, new Date());
+    }
+    return this.planRepo.save(plan);
+  }
+
+  async deletePlan(chatId: string, id: string): Promise<boolean> {
+    const result = await this.planRepo.delete({ id, telegramChatId: chatId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  @Interval(60 * 1000)
+  async runDuePlans() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const due = await this.planRepo.find({
+        where: { enabled: true, nextRunAt: LessThanOrEqual(new Date()) },
+        order: { nextRunAt: "ASC" },
+      });
+
+      for (const plan of due) {
+        try {
+          plan.lastResult = await this.runTranche(plan);
+        } catch (error: any) {
+          plan.lastResult = `Error: ${error.message}`;
+          this.logger.error(`DCA plan ${plan.id} failed: ${error.message}`);
+        }
+        plan.lastRunAt = new Date();
+        this.advance(plan);
+        await this.planRepo.save(plan);
+      }
+    } catch (error: any) {
+      this.logger.error(`DCA run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Buy one tranche (or skip it). Returns a short result for the plan record.
+   */
+  private async runTranche(plan: DcaPlan): Promise<string> {
+    const chatId = plan.telegramChatId;
+    const tranche = `${plan.trancheIndex + 1}/${plan.tranches}`;
+
+    if (!this.tradeExecutor.isTradingEnabled()) {
+      return this.skip(plan, `Bot is stopped (tranche ${tranche})`);
+    }
+
+    const priceData = await this.noghreseaApi.getSilverPrice();
+    const price = priceData?.price ? parseFloat(priceData.price) : 0;
+    if (!price) {
+      return this.skip(plan, `Could not fetch price (tranche ${tranche})`);
+    }
+
+    const skipReason = await this.checkSkipRules(plan, price);
+    if (skipReason) {
+      return this.skip(plan, `${skipReason} (tranche ${tranche})`);
+    }
+
+    const toman = Number(plan.amountToman) / plan.tranches;
+    const grams = tomanToGrams(toman, price);
+    const notes = `DCA plan ${plan.id.slice(0, 8)}, tranche ${tranche}`;
+
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    const trade = settings.paperTradingEnabled
+      ? await this.buyPaper(chatId, grams, price, notes)
+      : await this.buyLive(chatId, grams, price, notes);
+    if (typeof trade === "string") {
+      return this.skip(plan, `${trade} (tranche ${tranche})`);
+    }
+
+    await this.eventBus.emit("TradeExecuted", { chatId, trade });
+    this.logger.log(
+      `🗓️ DCA ${tranche} for ${chatId}: ${grams}g @ ${price} (${Math.round(toman)} Toman)`,
+    );
+    return `Bought ${grams}g @ ${price} (tranche ${tranche})`;
+  }
+
+  /**
+   * Reason to skip this tranche, or null when all skip rules pass
+   */
+  private async checkSkipRules(
+    plan: DcaPlan,
+    price: number,
+  ): Promise<string | null> {
+    if (plan.maxPrice != null && price > Number(plan.maxPrice)) {
+      return `Price ${price} above max ${Number(plan.maxPrice)}`;
+    }
+
+    if (plan.skipAboveAverageDays) {
+      const average = await this.getAveragePrice(plan.skipAboveAverageDays);
+      if (average && price > average) {
+        return `Price ${price} above ${plan.skipAboveAverageDays}-day average ${Math.round(average)}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Average price over the last `days` from daily candles, which retention
+   * keeps long after the raw ticks are gone
+   */
+  async getAveragePrice(days: number): Promise<number | null> {
+    const candles = await this.candleService.getRecentCandles(
+      NOGHRESEA_CANDLE_SOURCE,
+      CandleTimeframe.D1,
+      days * 24 * 60,
+    );
+    return timeWeightedAverage(candles);
+  }
+
+  private async buyPaper(
+    chatId: string,
+    grams: number,
+    price: number,
+    notes: string,
+  ): Promise<UserTradeHistory | string> {
+    const fill = await this.paperTrading.executeTrade(
+      chatId,
+      {
+        action: "BUY",
+        confidence: 100, // Plans are not gated by AI confidence
+        volumePercent: 0,
+        reasoning: "DCA plan",
+        expectedOutcome: "",
+      },
+      grams,
+      price,
+    );
+    if (!fill) return "Insufficient paper balance";
+
+    return this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      "BUY",
+      fill.silverAmount,
+      price,
+      TradeSource.DCA,
+      {
+        isPaper: true,
+        silverBalanceAfter: fill.silverBalanceAfter,
+        tomanBalanceAfter: fill.tomanBalanceAfter,
+        notes,
+      },
+    );
+  }
+
+  private async buyLive(
+    chatId: string,
+    grams: number,
+    price: number,
+    notes: string,
+  ): Promise<UserTradeHistory | string> {
+    if (!this.authService.isAuthenticated(chatId)) {
+      await this.authService.loadUserAuth(chatId);
+    }
+    if (!this.authService.isAuthenticated(chatId)) {
+      return "Not authenticated";
+    }
+
+    // Volume in milligrams for API, rounded down so it stays affordable
+    const result = await this.noghreseaApi.createBuyOrder(
+      chatId,
+      price,
+      Math.floor(grams * 1000),
+    );
+    if (!result?.orderId) {
+      return `Order failed: ${result?.message || "Unknown error"}`;
+    }
+
+    // PENDING until the reconciler sees the fill
+    return this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      "BUY",
+      grams,
+      price,
+      TradeSource.DCA,
+      {
+        noghreseaOrderId: result.orderId,
+        status: TradeStatus.PENDING,
+        notes,
+      },
+    );
+  }
+
+  private async skip(plan: DcaPlan, reason: string): Promise<string> {
+    this.logger.log(`🗓️ DCA skipped for ${plan.telegramChatId}: ${reason}`);
+    await this.eventBus.emit("DcaSkipped", {
+      chatId: plan.telegramChatId,
+      plan,
+      reason,
+    });
+    return `Skipped: ${reason}`;
+  }
+
+  /**
+   * Move to the next tranche, or to the next period after the last one
+   */
+  private advance(plan: DcaPlan) {
+    plan.trancheIndex++;
+    if (plan.trancheIndex < plan.tranches) {
+      const spacing = (plan.spreadMinutes / plan.tranches) * MINUTE_MS;
+      plan.nextRunAt = new Date(plan.nextRunAt.getTime() + spacing);
+      return;
+    }
+
+    // Missed periods (e.g. downtime) are not replayed
+    plan.trancheIndex = 0;
+    plan.nextRunAt = this.nextPeriodStart(plan, new Date());
+  }
+
+  /**
+   * First scheduled time (Tehran timeOfDay / dayOfWeek) strictly after `after`
+   */
+  nextPeriodStart(plan: DcaPlan, after: Date): Date {
+    const offsetMs = TEHRAN_UTC_OFFSET_MINUTES * MINUTE_MS;
+    const [hours, minutes] = plan.timeOfDay.split(":").map(Number);
+
+    // UTC getters on a shifted date read Tehran wall-clock time
+    const local = new Date(after.getTime() + offsetMs);
+    let next =
+      Date.UTC(
+        local.getUTCFullYear(),
+        local.getUTCMonth(),
+        local.getUTCDate(),
+        hours,
+        minutes,
+      ) - offsetMs;
+
+    if (plan.frequency === "weekly" && plan.dayOfWeek != null) {
+      next += ((plan.dayOfWeek - local.getUTCDay() + 7) % 7) * DAY_MS;
+    }
+    if (next <= after.getTime()) {
+      next += (plan.frequency === "weekly" ? 7 : 1) * DAY_MS;
+    }
+
+    return new Date(next);
+  }
+}
@@ -0,0 +1,430 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, LessThanOrEqual } from "typeorm";
+import {
+  LimitOrder,
+  LimitOrderStatus,
+} from "../database/entities/limit-order.entity";
+import {
+  TradeSource,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+import {
+  NoghreseaApiService,
+  OrderHistoryItem,
+} from "../noghresea/noghresea-api.service";
+import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
+import { UserTradingService } from "./user-trading.service";
+import { PaperTradingService } from "./paper-trading.service";
+import { mapOrderStatus } from "./order-reconciler.service";
+import { EventBus } from "../events/event-bus.service";
+
+export interface PlaceLimitOrderOptions {
+  expiresInMinutes?: number | null; // null/undefined = good till cancelled
+  source?: TradeSource;
+}
+
+/**
+ * Limit Orders - Resting orders at a target price with optional expiry
+ * Live orders rest on Noghresea and are synced from order history;
+ * paper orders rest locally and fill when the price crosses the target
+ */
+@Injectable()
+export class LimitOrderService implements OnModuleInit {
+  private readonly logger = new Logger(LimitOrderService.name);
+  private isSyncing = false;
+  private isMatchingPaper = false;
+
+  private readonly ORDER_HISTORY_LIMIT = 50;
+  private readonly MAX_HISTORY_PAGES = 20;
+  private readonly MISSING_ORDER_GRACE_MS = 10 * 60 * 1000; // New orders can lag in history
+
+  constructor(
+    @InjectRepository(LimitOrder)
+    private limitOrderRepo: Repository<LimitOrder>,
+    private noghreseaApi: NoghreseaApiService,
+    private authService: NoghreseaAuthService,
+    private userTradingService: UserTradingService,
+    private paperTrading: PaperTradingService,
+    private eventBus: EventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("PriceFetched", ({ prices }) => {
+      if (!prices.noghresea) return;
+      return this.matchPaperOrders(Number(prices.noghresea.price));
+    });
+  }
+
+  /**
+   * Place a limit order for the chat (paper book when paper mode is on).
+   * targetPrice uses the Noghresea API price unit, silverAmount is in grams.
+   */
+  async placeOrder(
+    chatId: string,
+    action: "BUY" | "SELL",
+    silverAmount: number,
+    targetPrice: number,
+    options: PlaceLimitOrderOptions = {},
+  ): Promise<LimitOrder> {
+    if (!(silverAmount > 0) || !(targetPrice > 0)) {
+      throw new Error("Amount and target price must be positive");
+    }
+
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    const order = this.limitOrderRepo.create({
+      telegramChatId: chatId,
+      action,
+      silverAmount,
+      targetPrice,
+      source: options.source ?? TradeSource.MANUAL,
+      isPaper: settings.paperTradingEnabled,
+      expiresAt: options.expiresInMinutes
+        ? new Date(Date.now() + options.expiresInMinutes * 60 * 1000)
+        : null,
+    });
+
+    if (!order.isPaper) {
+      if (!this.authService.isAuthenticated(chatId)) {
+        throw new Error("Noghresea account is not authenticated");
+      }
+
+      // Volume in milligrams for API
+      const volumeInMilligrams = Math.round(silverAmount * 1000);
+      const result =
+        action === "BUY"
+          ? await this.noghreseaApi.createBuyOrder(
+              chatId,
+              targetPrice,
+              volumeInMilligrams,
+            )
+          : await this.noghreseaApi.createSellOrder(
+              chatId,
+              targetPrice,
+              volumeInMilligrams,
+            );
+      if (!result?.orderId) {
+        throw new Error(`Order failed: ${result?.message || "Unknown error"}`);
+      }
+      order.noghreseaOrderId = result.orderId;
+    }
+
+    const saved = await this.limitOrderRepo.save(order);
+    this.logger.log(
+      `🎯 ${saved.isPaper ? "Paper " : ""}limit ${action} ${silverAmount}g @ ${targetPrice} placed for ${chatId}`,
+    );
+    return saved;
+  }
+
+  async getOpenOrders(chatId: string): Promise<LimitOrder[]> {
+    return this.limitOrderRepo.find({
+      where: { telegramChatId: chatId, status: LimitOrderStatus.OPEN },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  async getOrders(chatId: string, limit: number = 50): Promise<LimitOrder[]> {
+    return this.limitOrderRepo.find({
+      where: { telegramChatId: chatId },
+      order: { createdAt: "DESC" },
+      take: limit,
+    });
+  }
+
+  /**
+   * Cancel an open order. Null when the chat has no such open order.
+   */
+  async cancelOrder(chatId: string, id: string): Promise<LimitOrder | null> {
+    const order = await this.limitOrderRepo.findOne({
+      where: { id, telegramChatId: chatId, status: LimitOrderStatus.OPEN },
+    });
+    if (!order) return null;
+
+    if (
+      order.noghreseaOrderId &&
+      !(await this.noghreseaApi.cancelOrder(chatId, order.noghreseaOrderId))
+    ) {
+      throw new Error("Noghresea did not accept the cancel request");
+    }
+
+    return this.close(order, LimitOrderStatus.CANCELLED, "Cancelled by user");
+  }
+
+  /**
+   * Sync live orders with Noghresea, then expire overdue orders
+   */
+  @Interval(60 * 1000)
+  async syncOrders() {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+
+    try {
+      const open = await this.limitOrderRepo.find({
+        where: { status: LimitOrderStatus.OPEN, isPaper: false },
+        order: { createdAt: "ASC" },
+      });
+
+      const byChat = new Map<string, LimitOrder[]>();
+      for (const order of open) {
+        if (!byChat.has(order.telegramChatId)) {
+          byChat.set(order.telegramChatId, []);
+        }
+        byChat.get(order.telegramChatId)!.push(order);
+      }
+
+      for (const [chatId, orders] of byChat) {
+        await this.syncChat(chatId, orders);
+      }
+
+      await this.expireOverdue();
+    } catch (error: any) {
+      this.logger.error(`Limit order sync failed: ${error.message}`);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private async syncChat(chatId: string, orders: LimitOrder[]) {
+    const lookup = await this.findInHistory(chatId, orders);
+    if (!lookup) return; // Not authenticated or request failed
+
+    for (const order of orders) {
+      const item = lookup.found.get(order.noghreseaOrderId);
+      if (!item) {
+        if (lookup.exhausted) await this.closeMissing(chatId, order);
+        continue; // Still resting, or not in history yet
+      }
+
+      const status = mapOrderStatus(item.status);
+      if (status === TradeStatus.EXECUTED) {
+        // API volume is in milligrams
+        const grams = Number(item.volume) / 1000 || Number(order.silverAmount);
+        const price = Number(item.price) || Number(order.targetPrice);
+        await this.fill(order, grams, price);
+      } else if (status !== TradeStatus.PENDING) {
+        const closed = await this.close(
+          order,
+          status === TradeStatus.CANCELLED
+            ? LimitOrderStatus.CANCELLED
+            : LimitOrderStatus.FAILED,
+          `Order ${status.toLowerCase()} on Noghresea (${item.status})`,
+        );
+        await this.eventBus.emit("LimitOrderClosed", { chatId, order: closed });
+      }
+    }
+  }
+
+  /**
+   * Page back through order history until every order is found or the
+   * history is older than the oldest of them. `exhausted` means the orders
+   * not found are not in the history at all. Null when a page failed.
+   */
+  private async findInHistory(
+    chatId: string,
+    orders: LimitOrder[],
+  ): Promise<{
+    found: Map<string, OrderHistoryItem>;
+    exhausted: boolean;
+  } | null> {
+    const wanted = new Set(orders.map((o) => o.noghreseaOrderId));
+    const oldest = Math.min(...orders.map((o) => o.createdAt.getTime()));
+    const found = new Map<string, OrderHistoryItem>();
+    let previousFirstId: string | null = null;
+
+    for (let page = 1; page <= this.MAX_HISTORY_PAGES; page++) {
+      const history = await this.noghreseaApi.getOrderHistory(
+        chatId,
+        this.ORDER_HISTORY_LIMIT,
+        page,
+      );
+      if (!history) return null;
+
+      const ids = history.map((item) => String(item.id ?? item._id));
+      // An empty page, or the same page again, is the end of the history
+      if (ids.length === 0 || ids[0] === previousFirstId) break;
+      previousFirstId = ids[0];
+
+      history.forEach((item, i) => {
+        if (wanted.has(ids[i])) found.set(ids[i], item);
+      });
+      if (found.size === wanted.size) return { found, exhausted: false };
+
+      const last = history[history.length - 1];
+      const lastTime = new Date(last.createdAt).getTime();
+      if (
+        history.length < this.ORDER_HISTORY_LIMIT ||
+        lastTime < oldest - this.MISSING_ORDER_GRACE_MS
+      ) {
+        break;
+      }
+      if (page === this.MAX_HISTORY_PAGES) {
+        return { found, exhausted: false }; // Deeper than we look
+      }
+    }
+
+    return { found, exhausted: true };
+  }
+
+  /**
+   * An order Noghresea has no record of: cancel it in case it still rests
+   * there, close it locally and ask the user to check
+   */
+  private async closeMissing(chatId: string, order: LimitOrder) {
+    if (Date.now() - order.createdAt.getTime() < this.MISSING_ORDER_GRACE_MS) {
+      return;
+    }
+
+    await this.noghreseaApi.cancelOrder(chatId, order.noghreseaOrderId);
+    const closed = await this.close(
+      order,
+      LimitOrderStatus.EXPIRED,
+      "Not found in Noghresea order history",
+    );
+    this.logger.warn(
+      `❓ Limit order ${order.noghreseaOrderId} for ${chatId} not found on Noghresea`,
+    );
+    await this.eventBus.emit("OrderAlert", {
+      chatId,
+      message:
+        `❓ *Limit Order Not Found*\n\n` +
+        `Limit ${order.action} ${Number(order.silverAmount)}g @ ${Number(order.targetPrice)} ` +
+        `(order ${order.noghreseaOrderId}) is not in your Noghresea order history. ` +
+        `It was closed here as expired - check on Noghresea whether it filled.`,
+    });
+    await this.eventBus.emit("LimitOrderClosed", { chatId, order: closed });
+  }
+
+  private async expireOverdue() {
+    const overdue = await this.limitOrderRepo.find({
+      where: {
+        status: LimitOrderStatus.OPEN,
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+    });
+
+    for (const order of overdue) {
+      const chatId = order.telegramChatId;
+      if (
+        order.noghreseaOrderId &&
+        !(await this.noghreseaApi.cancelOrder(chatId, order.noghreseaOrderId))
+      ) {
+        continue; // Retry next run
+      }
+
+      const closed = await this.close(
+        order,
+        LimitOrderStatus.EXPIRED,
+        "Expired",
+      );
+      await this.eventBus.emit("LimitOrderClosed", { chatId, order: closed });
+    }
+  }
+
+  /**
+   * Fill paper orders whose target the market price has crossed
+   */
+  private async matchPaperOrders(price: number) {
+    if (!price || this.isMatchingPaper) return;
+    this.isMatchingPaper = true;
+
+    try {
+      const open = await this.limitOrderRepo.find({
+        where: { status: LimitOrderStatus.OPEN, isPaper: true },
+        order: { createdAt: "ASC" },
+      });
+      const crossed = open.filter((o) =>
+        o.action === "BUY"
+          ? price <= Number(o.targetPrice)
+          : price >= Number(o.targetPrice),
+      );
+
+      for (const order of crossed) {
+        const fill = await this.paperTrading.executeTrade(
+          order.telegramChatId,
+          {
+            action: order.action,
+            confidence: 100, // Limit orders are not gated by AI confidence
+            volumePercent: 0,
+            reasoning: "Limit order",
+            expectedOutcome: "",
+          },
+          Number(order.silverAmount),
+          Number(order.targetPrice),
+        );
+
+        if (!fill) {
+          const closed = await this.close(
+            order,
+            LimitOrderStatus.FAILED,
+            "Insufficient paper balance at fill",
+          );
+          await this.eventBus.emit("LimitOrderClosed", {
+            chatId: order.telegramChatId,
+            order: closed,
+          });
+          continue;
+        }
+
+        await this.fill(order, fill.silverAmount, Number(order.targetPrice), {
+          silverBalanceAfter: fill.silverBalanceAfter,
+          tomanBalanceAfter: fill.tomanBalanceAfter,
+        });
+      }
+    } catch (error: any) {
+      this.logger.error(`Paper limit matching failed: ${error.message}`);
+    } finally {
+      this.isMatchingPaper = false;
+    }
+  }
+
+  private async fill(
+    order: LimitOrder,
+    grams: number,
+    price: number,
+    balances: { silverBalanceAfter?: number; tomanBalanceAfter?: number } = {},
+  ) {
+    const chatId = order.telegramChatId;
+    const trade = await this.userTradingService.recordTrade(
+      chatId,
+      this.authService.getPhoneNumber(chatId),
+      order.action,
+      grams,
+      price,
+      order.source,
+      {
+        ...balances,
+        noghreseaOrderId: order.noghreseaOrderId ?? undefined,
+        isPaper: order.isPaper,
+        status: TradeStatus.EXECUTED,
+        notes: `Limit order @ ${Number(order.targetPrice)}`,
+      },
+    );
+
+    order.trade = trade;
+    order.tradeId = trade.id;
+    const filled = await this.close(order, LimitOrderStatus.FILLED);
+    this.logger.log(
+      `✅ Limit ${order.action} ${grams.toFixed(4)}g @ ${price} filled for ${chatId}`,
+    );
+
+    await this.eventBus.emit("LimitOrderFilled", {
+      chatId,
+      order: filled,
+      trade,
+    });
+  }
+
+  private async close(
+    order: LimitOrder,
+    status: LimitOrderStatus,
+    note?: string,
+  ): Promise<LimitOrder> {
+    order.status = status;
+    order.closedAt = new Date();
+    if (note) {
+      order.notes = [order.notes, note].filter(Boolean).join("\n");
+    }
+    return this.limitOrderRepo.save(order);
+  }
+}
@@ -0,0 +1,266 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Interval } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, Not, IsNull } from "typeorm";
+import {
+  UserTradeHistory,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+import {
+  NoghreseaApiService,
+  OrderHistoryItem,
+} from "../noghresea/noghresea-api.service";
+import { LimitOrder } from "../database/entities/limit-order.entity";
+import { UserTradingService } from "./user-trading.service";
+import { EventBus } from "../events/event-bus.service";
+
+/**
+ * Map a Noghresea order status string onto our trade status
+ */
+export function mapOrderStatus(status: string): TradeStatus {
+  const s = String(status || "").toLowerCase();
+  if (/cancel/.test(s)) return TradeStatus.CANCELLED;
+  if (/fail|reject|expire/.test(s)) return TradeStatus.FAILED;
+  if (/fill|done|complete|success|execut|finish/.test(s)) {
+    return TradeStatus.EXECUTED;
+  }
+  return TradeStatus.PENDING;
+}
+
+/**
+ * Order Reconciler - Confirms PENDING trades against Noghresea order history
+ * Updates status, corrects volume/price to the real fill and alerts on mismatches
+ */
+@Injectable()
+export class OrderReconcilerService {
+  private readonly logger = new Logger(OrderReconcilerService.name);
+  private isRunning = false;
+
+  private readonly ORDER_HISTORY_LIMIT = 50;
+  private readonly MISSING_ORDER_TIMEOUT_MS = 60 * 60 * 1000; // Give up after 1 hour
+  private readonly MISMATCH_TOLERANCE = 0.01; // 1% difference is noise
+  private readonly reportedUntracked = new Set<string>(); // Platform orders already alerted
+
+  constructor(
+    @InjectRepository(UserTradeHistory)
+    private tradeHistoryRepo: Repository<UserTradeHistory>,
+    @InjectRepository(LimitOrder)
+    private limitOrderRepo: Repository<LimitOrder>,
+    private noghreseaApi: NoghreseaApiService,
+    private userTradingService: UserTradingService,
+    private eventBus: EventBus,
+  ) {}
+
+  @Interval(60 * 1000)
+  async reconcile() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const pending = await this.tradeHistoryRepo.find({
+        where: {
+          status: TradeStatus.PENDING,
+          isPaper: false,
+          noghreseaOrderId: Not(IsNull()),
+        },
+        order: { executedAt: "ASC" },
+      });
+      if (pending.length === 0) return;
+
+      const byChat = new Map<string, UserTradeHistory[]>();
+      for (const trade of pending) {
+        if (!byChat.has(trade.telegramChatId)) {
+          byChat.set(trade.telegramChatId, []);
+        }
+        byChat.get(trade.telegramChatId)!.push(trade);
+      }
+
+      for (const [chatId, trades] of byChat) {
+        await this.reconcileChat(chatId, trades);
+      }
+    } catch (error: any) {
+      this.logger.error(`Reconciliation failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async reconcileChat(chatId: string, trades: UserTradeHistory[]) {
+    const orders = await this.fetchOrders(chatId);
+    if (!orders) return; // Not authenticated or request failed - retry next run
+
+    const byId = new Map<string, OrderHistoryItem>();
+    for (const order of orders) {
+      byId.set(String(order.id ?? order._id), order);
+    }
+
+    for (const trade of trades) {
+      const order = byId.get(trade.noghreseaOrderId);
+
+      if (!order) {
+        const age = Date.now() - new Date(trade.executedAt).getTime();
+        if (age > this.MISSING_ORDER_TIMEOUT_MS) {
+          await this.closeTrade(
+            trade,
+            TradeStatus.FAILED,
+            "Order not found in Noghresea order history",
+          );
+        }
+        continue;
+      }
+
+      const status = mapOrderStatus(order.status);
+      if (status === TradeStatus.PENDING) continue;
+
+      if (status === TradeStatus.EXECUTED) {
+        await this.applyFill(trade, order);
+      } else {
+        await this.closeTrade(
+          trade,
+          status,
+          `Order ${status.toLowerCase()} on Noghresea (${order.status})`,
+        );
+      }
+    }
+
+    await this.reportUntrackedOrders(chatId, orders, trades);
+  }
+
+  private async fetchOrders(
+    chatId: string,
+  ): Promise<OrderHistoryItem[] | null> {
+    // Order history is read with the chat's own token. An empty history is
+    // an answer: pending orders are missing from it and eventually time out.
+    return this.noghreseaApi.getOrderHistory(chatId, this.ORDER_HISTORY_LIMIT);
+  }
+
+  /**
+   * Mark a trade EXECUTED, correcting volume and price to the platform fill
+   */
+  private async applyFill(trade: UserTradeHistory, order: OrderHistoryItem) {
+    // API volume is in milligrams for every order we place
+    const filledGrams = Number(order.volume) / 1000;
+    const filledPrice = Number(order.price);
+    const recordedGrams = Number(trade.silverAmount);
+    const recordedPrice = Number(trade.pricePerGram);
+
+    const mismatches: string[] = [];
+    if (this.differs(filledGrams, recordedGrams)) {
+      mismatches.push(
+        `Volume: ledger ${recordedGrams.toFixed(4)}g, platform ${filledGrams.toFixed(4)}g`,
+      );
+    }
+    if (this.differs(filledPrice, recordedPrice)) {
+      mismatches.push(
+        `Price: ledger ${recordedPrice.toLocaleString()}, platform ${filledPrice.toLocaleString()}`,
+      );
+    }
+
+    trade.status = TradeStatus.EXECUTED;
+    if (filledGrams > 0) trade.silverAmount = filledGrams;
+    if (filledPrice > 0) trade.pricePerGram = filledPrice;
+    trade.totalToman = Number(trade.silverAmount) * Number(trade.pricePerGram);
+    trade.feeAmount = trade.totalToman * Number(trade.feePercent);
+    if (mismatches.length > 0) {
+      trade.notes = [trade.notes, `Reconciled: ${mismatches.join("; ")}`]
+        .filter(Boolean)
+        .join("\n");
+    }
+
+    await this.tradeHistoryRepo.save(trade);
+    this.logger.log(
+      `✅ Order ${trade.noghreseaOrderId} filled: ${trade.action} ${Number(trade.silverAmount).toFixed(4)}g @ ${trade.pricePerGram}`,
+    );
+
+    if (mismatches.length > 0) {
+      await this.alert(
+        trade.telegramChatId,
+        `⚠️ *Ledger Mismatch*\n\n` +
+          `Order ${trade.noghreseaOrderId} (${trade.action}) was corrected to the platform fill:\n` +
+          mismatches.map((m) => `• ${m}`).join("\n"),
+      );
+    }
+  }
+
+  private async closeTrade(
+    trade: UserTradeHistory,
+    status: TradeStatus,
+    note: string,
+  ) {
+    trade.status = status;
+    trade.notes = [trade.notes, note].filter(Boolean).join("\n");
+    await this.tradeHistoryRepo.save(trade);
+
+    // The session already assumed this trade filled
+    await this.userTradingService.revertSessionTrade(trade);
+    this.logger.warn(`Order ${trade.noghreseaOrderId} → ${status}: ${note}`);
+
+    await this.eventBus.emit("TradeFailed", {
+      chatId: trade.telegramChatId,
+      action: trade.action,
+      reason: note,
+      silverAmount: Number(trade.silverAmount),
+      orderId: trade.noghreseaOrderId,
+    });
+  }
+
+  /**
+   * Alert once about recent platform orders that are not in our ledger
+   */
+  private async reportUntrackedOrders(
+    chatId: string,
+    orders: OrderHistoryItem[],
+    pending: UserTradeHistory[],
+  ) {
+    const since = new Date(pending[0].executedAt);
+    const recent = orders.filter(
+      (o) =>
+        new Date(o.createdAt) >= since &&
+        !this.reportedUntracked.has(String(o.id ?? o._id)),
+    );
+    if (recent.length === 0) return;
+
+    const known = await this.tradeHistoryRepo.find({
+      where: { telegramChatId: chatId, noghreseaOrderId: Not(IsNull()) },
+      select: { noghreseaOrderId: true },
+      order: { executedAt: "DESC" },
+      take: this.ORDER_HISTORY_LIMIT * 2,
+    });
+    // Resting limit orders are tracked by LimitOrderService
+    const limitOrders = await this.limitOrderRepo.find({
+      where: { telegramChatId: chatId, noghreseaOrderId: Not(IsNull()) },
+      select: { noghreseaOrderId: true },
+      order: { createdAt: "DESC" },
+      take: this.ORDER_HISTORY_LIMIT * 2,
+    });
+    const knownIds = new Set(
+      [...known, ...limitOrders].map((t) => t.noghreseaOrderId),
+    );
+
+    const untracked = recent.filter(
+      (o) => !knownIds.has(String(o.id ?? o._id)),
+    );
+    if (untracked.length === 0) return;
+
+    untracked.forEach((o) => this.reportedUntracked.add(String(o.id ?? o._id)));
+    await this.alert(
+      chatId,
+      `⚠️ *Untracked Orders on Noghresea*\n\n` +
+        untracked
+          .map(
+            (o) =>
+              `• ${o.type.toUpperCase()} ${o.volume} @ ${o.price} (${o.status})`,
+          )
+          .join("\n"),
+    );
+  }
+
+  private differs(actual: number, recorded: number): boolean {
+    if (!actual || !recorded) return false;
+    return Math.abs(actual - recorded) / recorded > this.MISMATCH_TOLERANCE;
+  }
+
+  private async alert(chatId: string, message: string) {
+    await this.eventBus.emit("OrderAlert", { chatId, message });
+  }
+}
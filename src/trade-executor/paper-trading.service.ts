@@ -0,0 +1,200 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import { AiDecision } from "../ai-decision/ai-decision.service";
+import { UserTradingService } from "./user-trading.service";
+import { WalletState } from "./trade-executor.service";
+
+export interface PaperFill {
+  action: "BUY" | "SELL";
+  silverAmount: number;
+  price: number;
+  totalToman: number;
+  fee: number;
+  silverBalanceAfter: number;
+  tomanBalanceAfter: number;
+}
+
+export interface SimulatedFill {
+  silverAmount: number;
+  totalToman: number;
+  fee: number;
+}
+
+/**
+ * Fill an order against a simulated wallet at `price`. Buys pay the fee on
+ * top in Toman, sells pay it out of the proceeds. Mutates the wallet;
+ * returns null when the balance can't cover any of the order.
+ * Shared by paper trading and backtests so both use the same fee model.
+ */
+export function fillSimulatedOrder(
+  wallet: { tomanBalance: number; silverBalance: number },
+  action: "BUY" | "SELL",
+  silverAmount: number,
+  price: number,
+  feeRate: number,
+): SimulatedFill | null {
+  const amount =
+    action === "BUY"
+      ? // Cost plus fee must fit in the Toman balance
+        Math.min(silverAmount, wallet.tomanBalance / (price * (1 + feeRate)))
+      : Math.min(silverAmount, wallet.silverBalance);
+  if (amount <= 0) return null;
+
+  const totalToman = amount * price;
+  const fee = totalToman * feeRate;
+
+  if (action === "BUY") {
+    wallet.tomanBalance -= totalToman + fee;
+    wallet.silverBalance += amount;
+  } else {
+    wallet.tomanBalance += totalToman - fee;
+    wallet.silverBalance -= amount;
+  }
+
+  return { silverAmount: amount, totalToman, fee };
+}
+
+/**
+ * Paper Trading - Simulated per-user wallet for testing strategies live
+ * Orders fill instantly at the current price plus the platform fee
+ */
+@Injectable()
+export class PaperTradingService {
+  private readonly logger = new Logger(PaperTradingService.name);
+
+  readonly DEFAULT_TOMAN_BALANCE = 100_000_000;
+  readonly DEFAULT_SILVER_BALANCE = 0;
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(UserTradingSettings)
+    private settingsRepo: Repository<UserTradingSettings>,
+    private userTradingService: UserTradingService,
+  ) {}
+
+  async isPaperMode(chatId: string): Promise<boolean> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    return settings.paperTradingEnabled;
+  }
+
+  /**
+   * Switch between paper and live mode.
+   * The active session is closed so paper and live positions never mix.
+   */
+  async setPaperMode(
+    chatId: string,
+    enabled: boolean,
+  ): Promise<UserTradingSettings> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+
+    if (settings.paperTradingEnabled !== enabled) {
+      settings.hasActiveSession = false;
+      settings.sessionSilverAmount = undefined as any;
+      settings.sessionTomanAmount = undefined as any;
+      settings.sessionTradeCount = 0;
+    }
+
+    settings.paperTradingEnabled = enabled;
+    if (enabled && settings.paperTomanBalance == null) {
+      settings.paperTomanBalance = this.DEFAULT_TOMAN_BALANCE;
+      settings.paperSilverBalance = this.DEFAULT_SILVER_BALANCE;
+    }
+
+    await this.settingsRepo.save(settings);
+    this.logger.log(
+      `📝 Paper trading ${enabled ? "enabled" : "disabled"} for ${chatId}`,
+    );
+
+    return settings;
+  }
+
+  async resetWallet(chatId: string): Promise<UserTradingSettings> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+
+    settings.paperTomanBalance = this.DEFAULT_TOMAN_BALANCE;
+    settings.paperSilverBalance = this.DEFAULT_SILVER_BALANCE;
+    settings.hasActiveSession = false;
+    settings.sessionTradeCount = 0;
+
+    await this.settingsRepo.save(settings);
+    this.logger.log(`📝 Paper wallet reset for ${chatId}`);
+
+    return settings;
+  }
+
+  getWalletState(settings: UserTradingSettings): WalletState {
+    return {
+      tomanBalance: Number(
+        settings.paperTomanBalance ?? this.DEFAULT_TOMAN_BALANCE,
+      ),
+      silverBalance: Number(
+        settings.paperSilverBalance ?? this.DEFAULT_SILVER_BALANCE,
+      ),
+      totalDeposit: 0,
+      totalWithdraw: 0,
+    };
+  }
+
+  /**
+   * Simulated counterpart of TradeExecutorService.executeTrade.
+   * Applies the same confidence threshold, then fills against the paper wallet.
+   */
+  async executeTrade(
+    chatId: string,
+    decision: AiDecision,
+    silverAmount: number,
+    currentPrice: number,
+  ): Promise<PaperFill | null> {
+    if (decision.action === "HOLD") return null;
+
+    const threshold = parseInt(
+      this.configService.get("CONFIDENCE_THRESHOLD", "70"),
+    );
+    if (decision.confidence < threshold) {
+      this.logger.log(
+        `📝 Paper: confidence ${decision.confidence}% below threshold ${threshold}%`,
+      );
+      return null;
+    }
+
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    const wallet = this.getWalletState(settings);
+    const feeRate = this.userTradingService.TRADE_FEE_PERCENT;
+
+    const fill = fillSimulatedOrder(
+      wallet,
+      decision.action,
+      silverAmount,
+      currentPrice,
+      feeRate,
+    );
+    if (!fill) {
+      this.logger.warn(
+        `📝 Paper: insufficient balance for ${decision.action} (${chatId})`,
+      );
+      return null;
+    }
+    const { silverAmount: amount, totalToman, fee } = fill;
+
+    settings.paperTomanBalance = wallet.tomanBalance;
+    settings.paperSilverBalance = wallet.silverBalance;
+    await this.settingsRepo.save(settings);
+
+    this.logger.log(
+      `📝 Paper trade: ${decision.action} ${amount.toFixed(4)}g @ ${currentPrice} (${chatId})`,
+    );
+
+    return {
+      action: decision.action,
+      silverAmount: amount,
+      price: currentPrice,
+      totalToman,
+      fee,
+      silverBalanceAfter: wallet.silverBalance,
+      tomanBalanceAfter: wallet.tomanBalance,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import { UserTradingService } from "./user-trading.service";
+
+export type ProtectionReason = "STOP_LOSS" | "TAKE_PROFIT" | "TRAILING_STOP";
+
+export interface ProtectionTrigger {
+  reason: ProtectionReason;
+  entryPrice: number;
+  peakPrice: number;
+  currentPrice: number;
+  changePercent: number; // Current price vs entry price
+  thresholdPercent: number;
+  message: string;
+}
+
+/**
+ * Position Protection - Stop-loss, take-profit and trailing-stop exits
+ * Checked every cycle while the session is holding silver
+ */
+@Injectable()
+export class PositionProtectionService {
+  private readonly logger = new Logger(PositionProtectionService.name);
+
+  constructor(
+    @InjectRepository(UserTradingSettings)
+    private settingsRepo: Repository<UserTradingSettings>,
+    private userTradingService: UserTradingService,
+  ) {}
+
+  hasProtection(settings: UserTradingSettings): boolean {
+    return (
+      settings.stopLossPercent != null ||
+      settings.takeProfitPercent != null ||
+      settings.trailingStopPercent != null
+    );
+  }
+
+  /**
+   * Load the chat's settings, track the position high and check for an exit
+   */
+  async checkPosition(
+    chatId: string,
+    currentPrice: number,
+  ): Promise<ProtectionTrigger | null> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    const previousPeak = settings.sessionPeakPrice;
+
+    const trigger = this.evaluate(settings, currentPrice);
+
+    if (settings.sessionPeakPrice !== previousPeak) {
+      await this.settingsRepo.save(settings);
+    }
+
+    if (trigger) {
+      this.logger.warn(`🛡️ ${trigger.message} (${chatId})`);
+    }
+
+    return trigger;
+  }
+
+  /**
+   * Check an already-loaded settings object (no persistence).
+   * Updates sessionPeakPrice in place when a new high is seen.
+   */
+  evaluate(
+    settings: UserTradingSettings,
+    currentPrice: number,
+  ): ProtectionTrigger | null {
+    if (
+      !settings.hasActiveSession ||
+      settings.currentPosition !== "silver" ||
+      !settings.sessionEntryPrice ||
+      !this.hasProtection(settings)
+    ) {
+      return null;
+    }
+
+    const entryPrice = Number(settings.sessionEntryPrice);
+    const peakPrice = Math.max(
+      Number(settings.sessionPeakPrice || entryPrice),
+      currentPrice,
+    );
+    if (peakPrice !== Number(settings.sessionPeakPrice)) {
+      settings.sessionPeakPrice = peakPrice;
+    }
+
+    const changePercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+    const dropFromPeak = ((peakPrice - currentPrice) / peakPrice) * 100;
+    const base = { entryPrice, peakPrice, currentPrice, changePercent };
+
+    const stopLoss = Number(settings.stopLossPercent);
+    if (settings.stopLossPercent != null && changePercent <= -stopLoss) {
+      return {
+        ...base,
+        reason: "STOP_LOSS",
+        thresholdPercent: stopLoss,
+        message: `Stop-loss hit: ${changePercent.toFixed(2)}% from entry ${entryPrice} (limit -${stopLoss}%)`,
+      };
+    }
+
+    const takeProfit = Number(settings.takeProfitPercent);
+    if (settings.takeProfitPercent != null && changePercent >= takeProfit) {
+      return {
+        ...base,
+        reason: "TAKE_PROFIT",
+        thresholdPercent: takeProfit,
+        message: `Take-profit hit: +${changePercent.toFixed(2)}% from entry ${entryPrice} (target +${takeProfit}%)`,
+      };
+    }
+
+    // Trailing stop only arms once the position has moved above entry
+    const trailing = Number(settings.trailingStopPercent);
+    if (
+      settings.trailingStopPercent != null &&
+      peakPrice > entryPrice &&
+      dropFromPeak >= trailing
+    ) {
+      return {
+        ...base,
+        reason: "TRAILING_STOP",
+        thresholdPercent: trailing,
+        message: `Trailing stop hit: -${dropFromPeak.toFixed(2)}% from high ${peakPrice} (trail ${trailing}%)`,
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,173 @@
+import { Logger } from "@nestjs/common";
+import { FindOperator, Repository } from "typeorm";
+import { RiskManagerService } from "./risk-manager.service";
+import { UserTradingService } from "./user-trading.service";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import { UserTradeHistory } from "../database/entities/user-trade-history.entity";
+
+// 00:30 on 2026-03-11 in Tehran; the Tehran day began at 20:30 UTC
+const NOW = new Date("2026-03-10T21:00:00Z");
+
+function trade(executedAt: string, profitLossToman: number | null = null) {
+  return { executedAt: new Date(executedAt), profitLossToman };
+}
+
+function makeSettings(
+  overrides: Partial<UserTradingSettings> = {},
+): UserTradingSettings {
+  return Object.assign(new UserTradingSettings(), {
+    telegramChatId: "chat-a",
+    paperTradingEnabled: false,
+    dailyLossLimitToman: null,
+    maxConsecutiveLosses: null,
+    maxTradesPerHour: null,
+    riskResetAt: null,
+    ...overrides,
+  });
+}
+
+describe("RiskManagerService", () => {
+  let trades: ReturnType<typeof trade>[];
+  let find: jest.Mock;
+  let service: RiskManagerService;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    trades = [];
+
+    // Applies the executedAt lower bound, the closed-trade filter and take
+    find = jest.fn(async ({ where, take }: any) => {
+      const since = (where.executedAt as FindOperator<Date> | undefined)
+        ?.value;
+      return trades
+        .filter((t) => !since || t.executedAt >= since)
+        .filter((t) => !where.profitLossToman || t.profitLossToman !== null)
+        .sort((a, b) => b.executedAt.getTime() - a.executedAt.getTime())
+        .slice(0, take ?? trades.length);
+    });
+
+    service = new RiskManagerService(
+      {} as Repository<UserTradingSettings>,
+      { find } as unknown as Repository<UserTradeHistory>,
+      {} as UserTradingService,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe("daily loss", () => {
+    const settings = () => makeSettings({ dailyLossLimitToman: 100_000 });
+
+    it("counts losses since Tehran midnight", async () => {
+      trades = [trade("2026-03-10T20:45:00Z", -120_000)];
+
+      const breach = await service.checkLimits(settings());
+
+      expect(breach).toMatchObject({ limit: "DAILY_LOSS", value: -120_000 });
+    });
+
+    it("ignores losses from the previous Tehran day", async () => {
+      // 20:15 UTC is still the 10th in Tehran
+      trades = [trade("2026-03-10T20:15:00Z", -120_000)];
+
+      expect(await service.checkLimits(settings())).toBeNull();
+    });
+
+    it("ignores losses before the last resume", async () => {
+      trades = [trade("2026-03-10T20:45:00Z", -120_000)];
+
+      const breach = await service.checkLimits(
+        makeSettings({
+          dailyLossLimitToman: 100_000,
+          riskResetAt: new Date("2026-03-10T20:50:00Z"),
+        }),
+      );
+
+      expect(breach).toBeNull();
+    });
+  });
+
+  describe("losing streak", () => {
+    it("carries over midnight", async () => {
+      trades = [
+        trade("2026-03-10T18:00:00Z", -1_000),
+        trade("2026-03-10T19:00:00Z", -1_000),
+        trade("2026-03-10T20:45:00Z", -1_000),
+      ];
+
+      const breach = await service.checkLimits(
+        makeSettings({ maxConsecutiveLosses: 3 }),
+      );
+
+      expect(breach).toMatchObject({ limit: "CONSECUTIVE_LOSSES", value: 3 });
+    });
+
+    it("is broken by a winning trade and skips open BUYs", async () => {
+      trades = [
+        trade("2026-03-10T18:00:00Z", -1_000),
+        trade("2026-03-10T19:00:00Z", 500),
+        trade("2026-03-10T19:30:00Z"),
+        trade("2026-03-10T20:00:00Z", -1_000),
+        trade("2026-03-10T20:45:00Z", -1_000),
+      ];
+
+      expect(
+        await service.checkLimits(makeSettings({ maxConsecutiveLosses: 3 })),
+      ).toBeNull();
+    });
+
+    it("starts over after a resume", async () => {
+      trades = [
+        trade("2026-03-10T18:00:00Z", -1_000),
+        trade("2026-03-10T19:00:00Z", -1_000),
+        trade("2026-03-10T20:45:00Z", -1_000),
+      ];
+
+      const breach = await service.checkLimits(
+        makeSettings({
+          maxConsecutiveLosses: 3,
+          riskResetAt: new Date("2026-03-10T18:30:00Z"),
+        }),
+      );
+
+      expect(breach).toBeNull();
+    });
+  });
+
+  describe("trades per hour", () => {
+    it("counts trades in the last hour across midnight", async () => {
+      trades = [
+        trade("2026-03-10T19:50:00Z"),
+        trade("2026-03-10T20:10:00Z"),
+        trade("2026-03-10T20:40:00Z"),
+        trade("2026-03-10T20:50:00Z"),
+      ];
+
+      const breach = await service.checkLimits(
+        makeSettings({ maxTradesPerHour: 2 }),
+      );
+
+      expect(breach).toMatchObject({ limit: "TRADES_PER_HOUR", value: 3 });
+    });
+
+    it("ignores trades before the last resume", async () => {
+      trades = [trade("2026-03-10T20:40:00Z"), trade("2026-03-10T20:50:00Z")];
+
+      const breach = await service.checkLimits(
+        makeSettings({
+          maxTradesPerHour: 2,
+          riskResetAt: new Date("2026-03-10T20:45:00Z"),
+        }),
+      );
+
+      expect(breach).toBeNull();
+    });
+  });
+
+  it("does not query trades when no limit is set", async () => {
+    expect(await service.checkLimits(makeSettings())).toBeNull();
+    expect(find).not.toHaveBeenCalled();
+  });
+});
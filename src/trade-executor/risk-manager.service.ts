@@ -0,0 +1,181 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, MoreThanOrEqual, In, Not, IsNull } from "typeorm";
+import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
+import {
+  UserTradeHistory,
+  TradeStatus,
+} from "../database/entities/user-trade-history.entity";
+import { UserTradingService } from "./user-trading.service";
+import { bucketStart, CANDLE_TIMEFRAME_MINUTES } from "../candles/candle";
+import { CandleTimeframe } from "../database/entities/price-candle.entity";
+
+export type RiskLimit = "DAILY_LOSS" | "CONSECUTIVE_LOSSES" | "TRADES_PER_HOUR";
+
+export interface RiskBreach {
+  limit: RiskLimit;
+  value: number; // Observed value
+  threshold: number; // Configured limit
+  message: string;
+}
+
+/**
+ * Risk Manager - Circuit breaker for auto trading
+ * Halts a user's auto trading when daily loss, losing streak or trade rate limits are hit
+ */
+@Injectable()
+export class RiskManagerService {
+  private readonly logger = new Logger(RiskManagerService.name);
+
+  constructor(
+    @InjectRepository(UserTradingSettings)
+    private settingsRepo: Repository<UserTradingSettings>,
+    @InjectRepository(UserTradeHistory)
+    private tradeHistoryRepo: Repository<UserTradeHistory>,
+    private userTradingService: UserTradingService,
+  ) {}
+
+  hasLimits(settings: UserTradingSettings): boolean {
+    return (
+      settings.dailyLossLimitToman != null ||
+      settings.maxConsecutiveLosses != null ||
+      settings.maxTradesPerHour != null
+    );
+  }
+
+  /**
+   * Check all configured limits for the chat's current mode (live or paper)
+   */
+  async checkLimits(settings: UserTradingSettings): Promise<RiskBreach | null> {
+    if (!this.hasLimits(settings)) return null;
+
+    // Days run from Tehran midnight, like DCA and the daily summaries
+    const startOfDay = bucketStart(
+      new Date(),
+      CANDLE_TIMEFRAME_MINUTES[CandleTimeframe.D1],
+    );
+    const dayStart = this.windowStart(settings, startOfDay);
+    const hourAgo = this.windowStart(
+      settings,
+      new Date(Date.now() - 60 * 60 * 1000),
+    );
+    // The last hour reaches into yesterday just after midnight
+    const since = hourAgo < dayStart ? hourAgo : dayStart;
+    const counted = {
+      telegramChatId: settings.telegramChatId,
+      status: In([TradeStatus.EXECUTED, TradeStatus.PENDING]),
+      isPaper: settings.paperTradingEnabled,
+    };
+
+    const trades = await this.tradeHistoryRepo.find({
+      where: { ...counted, executedAt: MoreThanOrEqual(since) },
+      order: { executedAt: "DESC" },
+    });
+
+    // 1. Realized P/L today
+    if (settings.dailyLossLimitToman != null) {
+      const limit = Number(settings.dailyLossLimitToman);
+      const realized = trades
+        .filter((t) => t.executedAt >= dayStart)
+        .reduce((sum, t) => sum + Number(t.profitLossToman || 0), 0);
+      if (realized <= -limit) {
+        return {
+          limit: "DAILY_LOSS",
+          value: realized,
+          threshold: limit,
+          message: `Daily realized loss ${Math.round(realized).toLocaleString()} T exceeds limit ${limit.toLocaleString()} T`,
+        };
+      }
+    }
+
+    // 2. Losing streak (most recent closed trades since the last resume,
+    //    so it carries over midnight)
+    if (settings.maxConsecutiveLosses != null) {
+      const limit = settings.maxConsecutiveLosses;
+      const closed = await this.tradeHistoryRepo.find({
+        where: {
+          ...counted,
+          profitLossToman: Not(IsNull()), // Only closed (SELL) trades
+          ...(settings.riskResetAt
+            ? { executedAt: MoreThanOrEqual(settings.riskResetAt) }
+            : {}),
+        },
+        order: { executedAt: "DESC" },
+        take: limit,
+      });
+      let streak = 0;
+      for (const t of closed) {
+        if (Number(t.profitLossToman) >= 0) break;
+        streak++;
+      }
+      if (streak >= limit) {
+        return {
+          limit: "CONSECUTIVE_LOSSES",
+          value: streak,
+          threshold: limit,
+          message: `${streak} losing trades in a row (limit ${limit})`,
+        };
+      }
+    }
+
+    // 3. Trade rate over the last hour
+    if (settings.maxTradesPerHour != null) {
+      const limit = settings.maxTradesPerHour;
+      const lastHour = trades.filter((t) => t.executedAt >= hourAgo).length;
+      if (lastHour >= limit) {
+        return {
+          limit: "TRADES_PER_HOUR",
+          value: lastHour,
+          threshold: limit,
+          message: `${lastHour} trades in the last hour (limit ${limit})`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Disable auto trading for the chat after a breach
+   */
+  async halt(chatId: string, breach: RiskBreach): Promise<void> {
+    await this.userTradingService.toggleAutoTrading(chatId, false);
+    this.logger.warn(`🚨 Auto trading halted for ${chatId}: ${breach.message}`);
+  }
+
+  /**
+   * Re-enable auto trading; trades before now no longer count toward limits
+   */
+  async resume(chatId: string): Promise<UserTradingSettings> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    settings.autoTradingEnabled = true;
+    settings.riskResetAt = new Date();
+    await this.settingsRepo.save(settings);
+    this.logger.log(`▶️ Auto trading resumed for ${chatId}`);
+    return settings;
+  }
+
+  async updateLimits(
+    chatId: string,
+    limits: {
+      dailyLossLimitToman?: number | null;
+      maxConsecutiveLosses?: number | null;
+      maxTradesPerHour?: number | null;
+    },
+  ): Promise<UserTradingSettings> {
+    const settings = await this.userTradingService.getOrCreateSettings(chatId);
+    Object.assign(settings, limits);
+    await this.settingsRepo.save(settings);
+    this.logger.log(
+      `Updated risk limits for ${chatId}: ${JSON.stringify(limits)}`,
+    );
+    return settings;
+  }
+
+  private windowStart(settings: UserTradingSettings, from: Date): Date {
+    if (settings.riskResetAt && settings.riskResetAt > from) {
+      return settings.riskResetAt;
+    }
+    return from;
+  }
+}
@@ -0,0 +1,114 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Interval } from "@nestjs/schedule";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository, LessThanOrEqual } from "typeorm";
+import { AuthState } from "../database/entities/auth-state.entity";
+import { NoghreseaAuthService } from "../noghresea/noghresea-auth.service";
+import { UserTradingService } from "./user-trading.service";
+import { EventBus } from "../events/event-bus.service";
+import { AccessService } from "../access/access.service";
+
+/**
+ * Token Expiry - Watches Noghresea token expiry per user
+ * Reminds ahead of time, and pauses live auto trading when a token lapses
+ * instead of letting the next cycle fail on a rejected request. A token
+ * belongs to a phone, so every chat linked to that phone is told.
+ */
+@Injectable()
+export class TokenExpiryService implements OnModuleInit {
+  private readonly logger = new Logger(TokenExpiryService.name);
+  private isRunning = false;
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(AuthState)
+    private authStateRepo: Repository<AuthState>,
+    private authService: NoghreseaAuthService,
+    private userTradingService: UserTradingService,
+    private accessService: AccessService,
+    private eventBus: EventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.on("AuthRestored", ({ chatId }) =>
+      this.resumeAfterLogin(chatId),
+    );
+  }
+
+  @Interval(60 * 1000)
+  async checkExpiries() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const warnUntil = new Date(
+        now.getTime() + this.getWarnHours() * 60 * 60 * 1000,
+      );
+      const expiring = await this.authStateRepo.find({
+        where: { isValid: true, tokenExpiresAt: LessThanOrEqual(warnUntil) },
+      });
+
+      for (const auth of expiring) {
+        if (!auth.tokenExpiresAt) continue;
+        const chatIds = await this.accessService.getApprovedChatIds(
+          auth.phoneNumber,
+        );
+
+        if (auth.tokenExpiresAt <= now) {
+          await this.lapse(auth, chatIds);
+        } else if (!auth.expiryWarnedAt) {
+          auth.expiryWarnedAt = now;
+          await this.authStateRepo.save(auth);
+          for (const chatId of chatIds) {
+            await this.eventBus.emit("AuthExpiring", {
+              chatId,
+              expiresAt: auth.tokenExpiresAt,
+            });
+          }
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Token expiry check failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async lapse(auth: AuthState, chatIds: string[]) {
+    // Invalidate the row itself too, in case no linked chat is left to do it
+    await this.authStateRepo.update({ id: auth.id }, { isValid: false });
+
+    for (const chatId of chatIds) {
+      await this.authService.expireToken(chatId);
+      const autoTradingPaused =
+        await this.userTradingService.pauseForAuth(chatId);
+      if (autoTradingPaused) {
+        this.logger.warn(`⏸️ Auto trading paused for ${chatId}: token expired`);
+      }
+      await this.eventBus.emit("AuthLapsed", { chatId, autoTradingPaused });
+    }
+  }
+
+  // The new token serves every chat linked to the phone, so resume them all
+  private async resumeAfterLogin(chatId: string) {
+    const link = await this.accessService.getApprovedLink(chatId);
+    const chatIds = link
+      ? await this.accessService.getApprovedChatIds(link.phoneNumber)
+      : [chatId];
+
+    for (const id of chatIds) {
+      if (await this.userTradingService.resumeAfterAuth(id)) {
+        this.logger.log(`▶️ Auto trading resumed for ${id} after login`);
+      }
+    }
+  }
+
+  private getWarnHours(): number {
+    const hours = parseFloat(
+      this.configService.get("TOKEN_EXPIRY_WARN_HOURS", "12"),
+    );
+    return isNaN(hours) || hours <= 0 ? 12 : hours;
+  }
+}
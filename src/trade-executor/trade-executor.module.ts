@@ -1,16 +1,29 @@
-import { Module, forwardRef } from "@nestjs/common";
+import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 import { TradeExecutorService } from "./trade-executor.service";
 import { TransactionService } from "./transaction.service";
 import { UserTradingService } from "./user-trading.service";
+import { PaperTradingService } from "./paper-trading.service";
+import { PositionProtectionService } from "./position-protection.service";
+import { RiskManagerService } from "./risk-manager.service";
+import { OrderReconcilerService } from "./order-reconciler.service";
+import { LimitOrderService } from "./limit-order.service";
+import { DcaService } from "./dca.service";
+import { TokenExpiryService } from "./token-expiry.service";
 import { TradeHistory } from "../database/entities/trade-history.entity";
 import { WalletSnapshot } from "../database/entities/wallet-snapshot.entity";
 import { AppSettings } from "../database/entities/app-settings.entity";
 import { Transaction } from "../database/entities/transaction.entity";
 import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
 import { UserTradeHistory } from "../database/entities/user-trade-history.entity";
+import { LimitOrder } from "../database/entities/limit-order.entity";
+import { DcaPlan } from "../database/entities/dca-plan.entity";
+import { NoghreseaPrice } from "../database/entities/noghresea-price.entity";
+import { AuthState } from "../database/entities/auth-state.entity";
 import { NoghreseaModule } from "../noghresea/noghresea.module";
-import { TelegramBotModule } from "../telegram-bot/telegram-bot.module";
+import { EventsModule } from "../events/events.module";
+import { AccessModule } from "../access/access.module";
+import { CandlesModule } from "../candles/candles.module";
 
 @Module({
   imports: [
@@ -21,11 +34,37 @@ import { TelegramBotModule } from "../telegram-bot/telegram-bot.module";
       Transaction,
       UserTradingSettings,
       UserTradeHistory,
+      LimitOrder,
+      DcaPlan,
+      NoghreseaPrice,
+      AuthState,
     ]),
     NoghreseaModule,
-    forwardRef(() => TelegramBotModule),
+    EventsModule,
+    AccessModule,
+    CandlesModule,
+  ],
+  providers: [
+    TradeExecutorService,
+    TransactionService,
+    UserTradingService,
+    PaperTradingService,
+    PositionProtectionService,
+    RiskManagerService,
+    OrderReconcilerService,
+    LimitOrderService,
+    DcaService,
+    TokenExpiryService,
+  ],
+  exports: [
+    TradeExecutorService,
+    TransactionService,
+    UserTradingService,
+    PaperTradingService,
+    PositionProtectionService,
+    RiskManagerService,
+    LimitOrderService,
+    DcaService,
   ],
-  providers: [TradeExecutorService, TransactionService, UserTradingService],
-  exports: [TradeExecutorService, TransactionService, UserTradingService],
 })
 export class TradeExecutorModule {}
@@ -1,10 +1,4 @@
-import {
-  Injectable,
-  Logger,
-  Inject,
-  forwardRef,
-  OnModuleInit,
-} from "@nestjs/common";
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { Repository } from "typeorm";
 import { ConfigService } from "@nestjs/config";
@@ -16,7 +10,7 @@ import {
 import { WalletSnapshot } from "../database/entities/wallet-snapshot.entity";
 import { AppSettings } from "../database/entities/app-settings.entity";
 import { AiDecision } from "../ai-decision/ai-decision.service";
-import { TelegramBotService } from "../telegram-bot/telegram-bot.service";
+import { EventBus } from "../events/event-bus.service";
 
 export interface WalletState {
   tomanBalance: number;
@@ -41,8 +35,7 @@ export class TradeExecutorService implements OnModuleInit {
     private walletSnapshotRepo: Repository<WalletSnapshot>,
     @InjectRepository(AppSettings)
     private appSettingsRepo: Repository<AppSettings>,
-    @Inject(forwardRef(() => TelegramBotService))
-    private telegramBot: TelegramBotService,
+    private eventBus: EventBus,
   ) {}
 
   async onModuleInit() {
@@ -72,10 +65,10 @@ export class TradeExecutorService implements OnModuleInit {
     }
   }
 
-  async getWalletState(): Promise<WalletState> {
+  async getWalletState(chatId: string): Promise<WalletState> {
     // Get actual balances from Noghresea
-    const inventory = await this.noghreseaApi.getInventory();
-    const wallet = await this.noghreseaApi.getWallet();
+    const inventory = await this.noghreseaApi.getInventory(chatId);
+    const wallet = await this.noghreseaApi.getWallet(chatId);
 
     const result = {
       tomanBalance: inventory?.tomanBalance || 0,
@@ -102,6 +95,7 @@ export class TradeExecutorService implements OnModuleInit {
   }
 
   async executeTrade(
+    chatId: string,
     decision: AiDecision,
     currentPrice: number,
     patternId?: string,
@@ -123,13 +117,17 @@ export class TradeExecutorService implements OnModuleInit {
 
       // Notify if approaching threshold
       if (decision.confidence >= 80) {
-        await this.telegramBot.sendApproachingThreshold(decision);
+        await this.eventBus.emit("DecisionNearThreshold", {
+          chatId,
+          decision,
+          threshold,
+        });
       }
       return null;
     }
 
     // Get wallet state
-    const wallet = await this.getWalletState();
+    const wallet = await this.getWalletState(chatId);
 
     // Calculate trade volume
     const maxTradePercent = parseInt(
@@ -158,37 +156,93 @@ export class TradeExecutorService implements OnModuleInit {
       return null;
     }
 
-    // Execute the order
-    const fee = 0.01; // 1% fee
-    let orderId: string | null = null;
+    return this.placeOrder(
+      chatId,
+      decision.action,
+      volume,
+      currentPrice,
+      decision,
+      patternId,
+    );
+  }
 
-    if (decision.action === "BUY") {
-      const result = await this.noghreseaApi.createBuyOrder(
-        currentPrice,
-        Math.floor(volume),
-      );
-      orderId = result?.orderId || null;
-    } else {
-      const result = await this.noghreseaApi.createSellOrder(
-        currentPrice,
-        Math.floor(volume),
-      );
-      orderId = result?.orderId || null;
+  /**
+   * Sell the whole protected position (stop-loss / take-profit / trailing
+   * stop). Unlike executeTrade there is no MAX_TRADE_PERCENT cap or confidence
+   * threshold; the sale is capped at the wallet's silver balance only.
+   */
+  async exitPosition(
+    chatId: string,
+    decision: AiDecision,
+    silverAmount: number,
+    currentPrice: number,
+  ): Promise<TradeHistory | null> {
+    if (!this.isTradingEnabled()) {
+      this.logger.warn("Trading is disabled");
+      return null;
     }
 
+    const wallet = await this.getWalletState(chatId);
+    const volume = Math.min(Number(silverAmount), wallet.silverBalance);
+    if (volume <= 0) {
+      this.logger.warn(`No silver to sell for protection exit (${chatId})`);
+      await this.eventBus.emit("TradeFailed", {
+        chatId,
+        action: "SELL",
+        reason: "No silver in the wallet to sell",
+        silverAmount,
+      });
+      return null;
+    }
+
+    return this.placeOrder(chatId, "SELL", volume, currentPrice, decision);
+  }
+
+  private async placeOrder(
+    chatId: string,
+    action: "BUY" | "SELL",
+    volume: number,
+    currentPrice: number,
+    decision: AiDecision,
+    patternId?: string,
+  ): Promise<TradeHistory | null> {
+    // Volume in milligrams for API, like every other order
+    const fee = 0.01; // 1% fee
+    const volumeInMilligrams = Math.floor(volume * 1000);
+    volume = volumeInMilligrams / 1000;
+
+    const result =
+      action === "BUY"
+        ? await this.noghreseaApi.createBuyOrder(
+            chatId,
+            currentPrice,
+            volumeInMilligrams,
+          )
+        : await this.noghreseaApi.createSellOrder(
+            chatId,
+            currentPrice,
+            volumeInMilligrams,
+          );
+    const orderId = result?.orderId || null;
+
     if (!orderId) {
       this.logger.error("Failed to execute order");
-      await this.telegramBot.sendTradeError(decision, "Order execution failed");
+      await this.eventBus.emit("TradeFailed", {
+        chatId,
+        action,
+        reason: "Order execution failed",
+        silverAmount: volume,
+      });
       return null;
     }
 
     // Record trade
     const trade = this.tradeHistoryRepo.create({
       orderId,
-      action: decision.action as TradeAction,
-      volume: Math.floor(volume),
+      action: action as TradeAction,
+      volume,
       price: currentPrice,
-      totalValue,
+      totalValue: volume * currentPrice,
       feePercent: fee,
       aiConfidence: decision.confidence,
       aiReasoning: decision.reasoning,
@@ -198,11 +252,8 @@ export class TradeExecutorService implements OnModuleInit {
 
     await this.tradeHistoryRepo.save(trade);
 
-    // Notify via Telegram
-    await this.telegramBot.sendTradeExecuted(trade, decision);
-
     this.logger.log(
-      `✅ Trade executed: ${decision.action} ${volume}g @ ${currentPrice} (${orderId})`,
+      `✅ Trade executed: ${action} ${volume}g @ ${currentPrice} (${orderId})`,
     );
 
     return trade;
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository, MoreThan } from "typeorm";
+import { Repository, MoreThan, Not, IsNull } from "typeorm";
 import { v4 as uuidv4 } from "uuid";
 import { UserTradingSettings } from "../database/entities/user-trading-settings.entity";
 import {
@@ -67,6 +67,38 @@ export class UserTradingService {
     return settings;
   }
 
+  /**
+   * Chats that currently have auto trading switched on
+   */
+  async getAutoTradingChatIds(): Promise<string[]> {
+    const settings = await this.settingsRepo.find({
+      where: { autoTradingEnabled: true },
+      select: { telegramChatId: true },
+    });
+    return settings.map((s) => s.telegramChatId);
+  }
+
+  /**
+   * Chats with auto trading off that still hold a session position with
+   * stop-loss, take-profit or trailing stop set
+   */
+  async getPausedProtectedChatIds(): Promise<string[]> {
+    const base = {
+      autoTradingEnabled: false,
+      hasActiveSession: true,
+      currentPosition: "silver" as const,
+    };
+    const settings = await this.settingsRepo.find({
+      where: [
+        { ...base, stopLossPercent: Not(IsNull()) },
+        { ...base, takeProfitPercent: Not(IsNull()) },
+        { ...base, trailingStopPercent: Not(IsNull()) },
+      ],
+      select: { telegramChatId: true },
+    });
+    return settings.map((s) => s.telegramChatId);
+  }
+
   async updateTradeAmount(
     chatId: string,
     mode: "percentage" | "fixed_amount",
@@ -104,10 +136,76 @@ export class UserTradingService {
   ): Promise<UserTradingSettings> {
     const settings = await this.getOrCreateSettings(chatId);
     settings.autoTradingEnabled = enabled;
+    settings.autoTradingPausedForAuth = false; // The user's choice wins
     await this.settingsRepo.save(settings);
     return settings;
   }
 
+  /**
+   * Switch live auto trading off because the chat's token lapsed.
+   * Returns false when there was nothing to pause (off, or paper mode).
+   */
+  async pauseForAuth(chatId: string): Promise<boolean> {
+    const settings = await this.settingsRepo.findOne({
+      where: { telegramChatId: chatId },
+    });
+    if (
+      !settings ||
+      !settings.autoTradingEnabled ||
+      settings.paperTradingEnabled
+    ) {
+      return false;
+    }
+
+    settings.autoTradingEnabled = false;
+    settings.autoTradingPausedForAuth = true;
+    await this.settingsRepo.save(settings);
+    return true;
+  }
+
+  /**
+   * Switch auto trading back on after a login, if it was paused for auth
+   */
+  async resumeAfterAuth(chatId: string): Promise<boolean> {
+    const settings = await this.settingsRepo.findOne({
+      where: { telegramChatId: chatId },
+    });
+    if (!settings?.autoTradingPausedForAuth) return false;
+
+    settings.autoTradingEnabled = true;
+    settings.autoTradingPausedForAuth = false;
+    await this.settingsRepo.save(settings);
+    return true;
+  }
+
+  async updateProtection(
+    chatId: string,
+    protection: {
+      stopLossPercent?: number | null;
+      takeProfitPercent?: number | null;
+      trailingStopPercent?: number | null;
+    },
+  ): Promise<UserTradingSettings> {
+    const settings = await this.getOrCreateSettings(chatId);
+    Object.assign(settings, protection);
+    await this.settingsRepo.save(settings);
+    this.logger.log(
+      `Updated protection for ${chatId}: ${JSON.stringify(protection)}`,
+    );
+    return settings;
+  }
+
+  async updateStrategy(
+    chatId: string,
+    strategy: string,
+  ): Promise<UserTradingSettings> {
+    const settings = await this.getOrCreateSettings(chatId);
+    settings.strategy = strategy;
+    await this.settingsRepo.save(settings);
+    this.logger.log(`Updated strategy for ${chatId}: ${strategy}`);
+    return settings;
+  }
+
   // ============ Session Management ============
 
   async startSession(
@@ -125,6 +223,8 @@ export class UserTradingService {
     settings.sessionInitialSilver = silverAmount;
     settings.sessionInitialTomanValue = silverAmount * currentPrice;
     settings.sessionStartedAt = new Date();
+    settings.sessionEntryPrice = currentPrice;
+    settings.sessionPeakPrice = currentPrice;
 
     await this.settingsRepo.save(settings);
     this.logger.log(
@@ -211,7 +311,16 @@ export class UserTradingService {
     action: "BUY" | "SELL",
   ): Promise<{ valid: boolean; reason?: string; currentPosition: string }> {
     const settings = await this.getOrCreateSettings(chatId);
+    return this.checkPositionForSettings(settings, action);
+  }
 
+  /**
+   * Position check against an already-loaded settings object
+   */
+  checkPositionForSettings(
+    settings: UserTradingSettings,
+    action: "BUY" | "SELL",
+  ): { valid: boolean; reason?: string; currentPosition: string } {
     // If no active session, any action is valid (will start a new session)
     if (!settings.hasActiveSession) {
       return { valid: true, currentPosition: "none" };
@@ -258,10 +367,35 @@ export class UserTradingService {
       return;
     }
 
-    // Start a new session
+    this.openAiSession(
+      settings,
+      action,
+      silverAmount,
+      tomanAmount,
+      currentPrice,
+      new Date(),
+    );
+
+    await this.settingsRepo.save(settings);
+    this.logger.log(
+      `Auto-started trading session for ${chatId}: ${action} ${silverAmount.toFixed(4)}g`,
+    );
+  }
+
+  /**
+   * Initialize session fields for an AI-started session (no persistence)
+   */
+  openAiSession(
+    settings: UserTradingSettings,
+    action: "BUY" | "SELL",
+    silverAmount: number,
+    tomanAmount: number,
+    currentPrice: number,
+    startedAt: Date,
+  ): void {
     settings.hasActiveSession = true;
     settings.sessionTradeCount = 0;
-    settings.sessionStartedAt = new Date();
+    settings.sessionStartedAt = startedAt;
 
     if (action === "SELL") {
       // Starting with a SELL - we're selling silver to get Toman
@@ -269,6 +403,8 @@ export class UserTradingService {
       settings.sessionSilverAmount = silverAmount;
       settings.sessionInitialSilver = silverAmount;
       settings.sessionInitialTomanValue = silverAmount * currentPrice;
+      settings.sessionEntryPrice = currentPrice;
+      settings.sessionPeakPrice = currentPrice;
     } else {
       // Starting with a BUY - we're buying silver with Toman
       settings.currentPosition = "toman"; // Will become "silver" after the trade
@@ -276,11 +412,6 @@ export class UserTradingService {
       settings.sessionInitialSilver = silverAmount;
       settings.sessionInitialTomanValue = tomanAmount;
     }
-
-    await this.settingsRepo.save(settings);
-    this.logger.log(
-      `Auto-started trading session for ${chatId}: ${action} ${silverAmount.toFixed(4)}g`,
-    );
   }
 
   /**
@@ -303,7 +434,25 @@ export class UserTradingService {
     walletToman: number,
   ): Promise<TradeCalculation> {
     const settings = await this.getOrCreateSettings(chatId);
+    return this.calculateTradeForSettings(
+      settings,
+      action,
+      currentPrice,
+      walletSilver,
+      walletToman,
+    );
+  }
 
+  /**
+   * Trade sizing against an already-loaded settings object (no DB access)
+   */
+  calculateTradeForSettings(
+    settings: UserTradingSettings,
+    action: "BUY" | "SELL",
+    currentPrice: number,
+    walletSilver: number,
+    walletToman: number,
+  ): TradeCalculation {
     // If we have an active session, use session amounts
     if (settings.hasActiveSession) {
       return this.calculateSessionTrade(settings, action, currentPrice);
@@ -427,6 +576,8 @@ export class UserTradingService {
       goldOunce?: number;
       usdtToman?: number;
       notes?: string;
+      isPaper?: boolean;
+      status?: TradeStatus; // PENDING until the order is reconciled
     } = {},
   ): Promise<UserTradeHistory> {
     const settings = await this.getOrCreateSettings(chatId);
@@ -446,7 +597,8 @@ export class UserTradingService {
     trade.feePercent = feePercent;
     trade.feeAmount = feeAmount;
     trade.source = source;
-    trade.status = TradeStatus.EXECUTED;
+    trade.status = options.status ?? TradeStatus.EXECUTED;
+    trade.isPaper = options.isPaper ?? false;
     trade.noghreseaOrderId = options.noghreseaOrderId as string;
     trade.aiPredictionId = options.aiPredictionId as string;
     trade.aiConfidence = options.aiConfidence as number;
@@ -462,6 +614,21 @@ export class UserTradingService {
     trade.silverOunceAtTrade = options.silverOunce as number;
     trade.goldOunceAtTrade = options.goldOunce as number;
     trade.usdtTomanAtTrade = options.usdtToman as number;
+
+    // Realized P/L on SELL against the session entry price (both fees included).
+    // A session's first trade sells silver held before it started: that entry
+    // price is only a protection reference, nothing was paid for it.
+    if (
+      action === "SELL" &&
+      settings.hasActiveSession &&
+      settings.sessionTradeCount > 0 &&
+      settings.sessionEntryPrice
+    ) {
+      const costBasis = silverAmount * Number(settings.sessionEntryPrice);
+      trade.profitLossToman =
+        totalToman - feeAmount - (costBasis + costBasis * feePercent);
+      trade.profitLossPercent = (trade.profitLossToman / costBasis) * 100;
+    }
     trade.notes = options.notes as string;
     trade.executedAt = new Date();
 
@@ -469,30 +636,121 @@ export class UserTradingService {
 
     // Update session if active
     if (settings.hasActiveSession) {
-      settings.sessionTradeCount++;
-
-      if (action === "SELL") {
-        // We sold silver, now we have Toman
-        settings.currentPosition = "toman";
-        settings.sessionTomanAmount = totalToman - feeAmount;
-        settings.sessionSilverAmount = undefined as any;
-      } else {
-        // We bought silver, now we have silver
-        settings.currentPosition = "silver";
-        settings.sessionSilverAmount = silverAmount;
-        settings.sessionTomanAmount = undefined as any;
-      }
-
+      this.applyTradeToSession(
+        settings,
+        action,
+        silverAmount,
+        totalToman,
+        pricePerGram,
+      );
       await this.settingsRepo.save(settings);
     }
 
     this.logger.log(
-      `Recorded ${source} ${action} trade for ${chatId}: ${silverAmount.toFixed(4)}g @ ${pricePerGram.toLocaleString()}`,
+      `Recorded ${options.isPaper ? "paper " : ""}${source} ${action} trade for ${chatId}: ${silverAmount.toFixed(4)}g @ ${pricePerGram.toLocaleString()}`,
     );
 
     return trade;
   }
 
+  /**
+   * Flip the session position after a trade (no persistence)
+   */
+  applyTradeToSession(
+    settings: UserTradingSettings,
+    action: "BUY" | "SELL",
+    silverAmount: number,
+    totalToman: number,
+    pricePerGram: number,
+  ): void {
+    settings.sessionTradeCount++;
+
+    if (action === "SELL") {
+      // We sold silver, now we have Toman
+      settings.currentPosition = "toman";
+      settings.sessionTomanAmount =
+        totalToman - totalToman * this.TRADE_FEE_PERCENT;
+      settings.sessionSilverAmount = undefined as any;
+      settings.sessionEntryPrice = null;
+      settings.sessionPeakPrice = null;
+    } else {
+      // We bought silver, now we have silver
+      settings.currentPosition = "silver";
+      settings.sessionSilverAmount = silverAmount;
+      settings.sessionTomanAmount = undefined as any;
+      settings.sessionEntryPrice = pricePerGram;
+      settings.sessionPeakPrice = pricePerGram;
+    }
+  }
+
+  /**
+   * Undo the session update of a trade that never filled.
+   * Only the latest trade of the active session can be reverted.
+   */
+  async revertSessionTrade(trade: UserTradeHistory): Promise<boolean> {
+    const settings = await this.getOrCreateSettings(trade.telegramChatId);
+
+    if (
+      !settings.hasActiveSession ||
+      trade.sessionId !== settings.sessionStartedAt?.toISOString() ||
+      trade.sessionSequence !== settings.sessionTradeCount
+    ) {
+      return false;
+    }
+
+    settings.sessionTradeCount--;
+    if (trade.action === "SELL") {
+      // Sale did not happen - still holding the silver, so re-arm protection
+      settings.currentPosition = "silver";
+      settings.sessionSilverAmount = Number(trade.silverAmount);
+      settings.sessionTomanAmount = undefined as any;
+      const entryPrice = await this.getSessionEntryPrice(settings, trade);
+      settings.sessionEntryPrice = entryPrice;
+      // The peak is not kept; the failed sale's price was reached at least
+      settings.sessionPeakPrice = entryPrice
+        ? Math.max(entryPrice, Number(trade.pricePerGram))
+        : null;
+    } else {
+      // Purchase did not happen - still holding the Toman
+      settings.currentPosition = "toman";
+      settings.sessionTomanAmount = Number(trade.totalToman);
+      settings.sessionSilverAmount = undefined as any;
+      settings.sessionEntryPrice = null;
+      settings.sessionPeakPrice = null;
+    }
+
+    await this.settingsRepo.save(settings);
+    this.logger.log(
+      `Reverted session trade ${trade.id} for ${trade.telegramChatId}`,
+    );
+    return true;
+  }
+
+  /**
+   * Entry price of the silver a reverted SELL was selling: the session's
+   * BUY before it, or the price the session started at when it began in silver
+   */
+  private async getSessionEntryPrice(
+    settings: UserTradingSettings,
+    trade: UserTradeHistory,
+  ): Promise<number | null> {
+    if (trade.sessionSequence > 1) {
+      const buy = await this.tradeHistoryRepo.findOne({
+        where: {
+          sessionId: trade.sessionId,
+          sessionSequence: trade.sessionSequence - 1,
+          action: "BUY",
+        },
+      });
+      return buy ? Number(buy.pricePerGram) : null;
+    }
+
+    const initialSilver = Number(settings.sessionInitialSilver);
+    return initialSilver > 0
+      ? Number(settings.sessionInitialTomanValue) / initialSilver
+      : null;
+  }
+
   // ============ Trade History ============
 
   async getTradeHistory(